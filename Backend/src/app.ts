@@ -1,5 +1,6 @@
 import express from "express";
 import { createServer } from "http";
+import path from "path";
 import cors from "cors";
 import helmet from "helmet";
 import compression from "compression";
@@ -7,6 +8,8 @@ import { config as dotenvConfig } from "dotenv";
 import { connectDB } from "./config/database";
 import { logger } from "./utils/logger";
 import { initializeSocket } from "./config/socket";
+import { startScheduler } from "./config/scheduler";
+import { storageConfig } from "./config/storage";
 import authRoutes from "./routes/auth.route";
 import chatRoutes from "./routes/chat.route";
 import userRoutes from "./routes/user.route";
@@ -37,8 +40,10 @@ app.use(helmet());
 app.use(
   cors({
     origin: process.env.CORS_ORIGIN || "http://localhost:9002",
-    methods: ["GET", "POST", "PUT", "DELETE", "OPTIONS"],
+    methods: ["GET", "POST", "PUT", "PATCH", "DELETE", "OPTIONS"],
     allowedHeaders: ["Content-Type", "Authorization"],
+    // Lets the browser read the file name of conversation exports
+    exposedHeaders: ["Content-Disposition"],
     credentials: true,
   })
 );
@@ -52,12 +57,32 @@ app.use("/api/v1/auth", authRoutes);
 app.use("/api/v1/chat", chatRoutes);
 app.use("/api/v1/users", userRoutes);
 app.use("/api/v1/upload", uploadRoutes);
+
+// Files kept by the local storage driver. The chat app runs on another
+// origin and embeds images and voice notes; anything else is sent as a
+// download so an uploaded document never opens as a page of this site.
+const INLINE_EXTENSIONS = [".jpg", ".png", ".gif", ".webp", ".wav"];
+if (storageConfig.driver === "local") {
+  app.use(
+    storageConfig.localRoute,
+    express.static(storageConfig.localDir, {
+      index: false,
+      setHeaders: (res, filePath) => {
+        res.setHeader("Cross-Origin-Resource-Policy", "cross-origin");
+        if (!INLINE_EXTENSIONS.includes(path.extname(filePath))) {
+          res.setHeader("Content-Disposition", "attachment");
+        }
+      },
+    })
+  );
+}
 // Health check
 app.get("/health", (_req, res) => {
   res.status(200).json({
     status: "ok",
     timestamp: new Date().toISOString(),
     uptime: process.uptime(),
+    storage: storageConfig.driver,
   });
 });
 
@@ -88,8 +113,17 @@ const startServer = async () => {
   try {
     await connectDB();
 
+    // Scheduled messages are stored jobs, any left from before a restart
+    // are picked up by the first poll, as are messages that expired
+    startScheduler(io);
+
+    if (storageConfig.isFallback) {
+      logger.warn("Cloudinary is not configured, falling back to local disk");
+    }
+
     server.listen(PORT, () => {
       logger.info(`Server running on port ${PORT}`);
+      logger.info(`Storing uploads in ${storageConfig.driver} storage`);
     });
   } catch (error) {
     logger.error("Failed to start server:", error);
@@ -0,0 +1,72 @@
+// src/config/chat.ts
+import dotenv from "dotenv";
+
+dotenv.config();
+
+/**
+ * Read a positive number from the environment, falling back to a default
+ */
+const envNumber = (name: string, fallback: number): number => {
+  const value = Number(process.env[name]);
+  return Number.isFinite(value) && value > 0 ? value : fallback;
+};
+
+const SECOND = 1000;
+const MINUTE = 60 * SECOND;
+const HOUR = 60 * MINUTE;
+
+/**
+ * Chat behaviour limits, configurable through environment variables
+ */
+export const chatConfig = {
+  // How long after sending a message its sender may still edit it
+  messageEditWindowMs: envNumber("MESSAGE_EDIT_WINDOW_MINUTES", 15) * MINUTE,
+
+  // How long after sending a message its sender may delete it for everyone
+  messageUnsendWindowMs:
+    envNumber("MESSAGE_UNSEND_WINDOW_MINUTES", 60) * MINUTE,
+
+  // Most messages that can be pinned in a single conversation
+  maxPinnedMessages: envNumber("MAX_PINNED_MESSAGES", 10),
+
+  // Most messages, and conversations they go to, in one forward request
+  maxForwardMessages: envNumber("MAX_FORWARD_MESSAGES", 20),
+  maxForwardTargets: envNumber("MAX_FORWARD_TARGETS", 5),
+
+  // Most undelivered messages flushed to a socket when its user connects
+  deliveryQueueLimit: envNumber("DELIVERY_QUEUE_LIMIT", 200),
+
+  // How far back a reconnecting client may replay changes, and the page size
+  syncMaxAgeMs: envNumber("SYNC_MAX_AGE_HOURS", 72) * HOUR,
+  syncPageSize: envNumber("SYNC_PAGE_SIZE", 100),
+
+  // Most answers a poll may offer
+  maxPollOptions: envNumber("MAX_POLL_OPTIONS", 12),
+
+  // Longest and largest voice note that can be uploaded
+  maxVoiceNoteSeconds: envNumber("MAX_VOICE_NOTE_SECONDS", 120),
+  maxVoiceNoteBytes: envNumber("MAX_VOICE_NOTE_MB", 8) * 1024 * 1024,
+
+  // Largest file that can be attached to a message, by kind of file
+  maxAttachmentBytes: {
+    image: envNumber("MAX_IMAGE_MB", 10) * 1024 * 1024,
+    document: envNumber("MAX_DOCUMENT_MB", 25) * 1024 * 1024,
+    archive: envNumber("MAX_ARCHIVE_MB", 50) * 1024 * 1024,
+  },
+
+  // Largest chat export that can be imported, and most messages it may hold
+  maxImportBytes: envNumber("MAX_IMPORT_MB", 5) * 1024 * 1024,
+  maxImportMessages: envNumber("MAX_IMPORT_MESSAGES", 10000),
+
+  // Most pending scheduled messages per user
+  maxScheduledMessages: envNumber("MAX_SCHEDULED_MESSAGES", 100),
+
+  // How often the scheduler looks for due messages, how long a claimed job
+  // is locked before another instance may retry it, and how often it retries
+  schedulerPollMs: envNumber("SCHEDULER_POLL_SECONDS", 15) * SECOND,
+  schedulerLockMs: envNumber("SCHEDULER_LOCK_SECONDS", 60) * SECOND,
+  schedulerMaxAttempts: envNumber("SCHEDULER_MAX_ATTEMPTS", 3),
+
+  // How often expired disappearing messages are deleted
+  expiryCleanupMs: envNumber("EXPIRY_CLEANUP_SECONDS", 30) * SECOND,
+};
@@ -0,0 +1,189 @@
+// src/config/scheduler.ts
+import { hostname } from "os";
+import { randomUUID } from "crypto";
+import { Server } from "socket.io";
+import { logger } from "../utils/logger";
+import { chatConfig } from "./chat";
+import { dispatchMessage, emitToConversation } from "./socket";
+import { Conversation } from "../models/Conversation";
+import { Message } from "../models/Message";
+import {
+  IScheduledMessage,
+  ScheduledMessage,
+} from "../models/ScheduledMessage";
+
+/**
+ * Messages removed per cleanup query
+ */
+const EXPIRY_BATCH_SIZE = 500;
+
+/**
+ * Identifies this process in job locks
+ */
+const workerId = `${hostname()}:${process.pid}:${randomUUID().slice(0, 8)}`;
+
+/**
+ * Send the message of a claimed job
+ * The message is created with a client message ID derived from the job, so
+ * when a previous attempt died after creating it the retry finds that message
+ * instead of sending a duplicate. Members who missed its live emit get it
+ * from the delivery queue when they reconnect.
+ */
+const runJob = async (io: Server, job: IScheduledMessage): Promise<void> => {
+  const owned = { _id: job._id, lockedBy: workerId, status: "sending" };
+
+  // Reclaimed after instances repeatedly died while sending it
+  if (job.attempts > chatConfig.schedulerMaxAttempts) {
+    await ScheduledMessage.updateOne(owned, {
+      $set: { status: "failed", lastError: "Too many attempts" },
+      $unset: { lockedBy: 1, lockedUntil: 1 },
+    });
+    return;
+  }
+
+  try {
+    // The sender may have left the conversation since scheduling
+    const conversation = await Conversation.findForMember(
+      job.conversation.toString(),
+      job.sender.toString()
+    );
+    if (!conversation) {
+      await ScheduledMessage.updateOne(owned, {
+        $set: {
+          status: "failed",
+          lastError: "Sender is no longer a member of the conversation",
+        },
+        $unset: { lockedBy: 1, lockedUntil: 1 },
+      });
+      return;
+    }
+
+    // The sender's own devices get the message too, none of them sent it
+    const { message } = await dispatchMessage(io, conversation, {
+      sender: job.sender.toString(),
+      content: job.content,
+      messageType: job.messageType,
+      clientMessageId: job.clientMessageId(),
+    });
+
+    await ScheduledMessage.updateOne(owned, {
+      $set: { status: "sent", message: message._id, sentAt: new Date() },
+      $unset: { lockedBy: 1, lockedUntil: 1 },
+    });
+  } catch (error) {
+    logger.error("Error running scheduled message:", {
+      jobId: job._id.toString(),
+      error: error instanceof Error ? error.message : error,
+    });
+
+    // Left locked, the job is retried once the lock expires
+    const lastError = error instanceof Error ? error.message : "Unknown error";
+    await ScheduledMessage.updateOne(
+      owned,
+      job.attempts >= chatConfig.schedulerMaxAttempts
+        ? {
+            $set: { status: "failed", lastError },
+            $unset: { lockedBy: 1, lockedUntil: 1 },
+          }
+        : { $set: { lastError } }
+    );
+  }
+};
+
+/**
+ * Claim and run due jobs until none are left
+ */
+const runDueJobs = async (io: Server): Promise<void> => {
+  let job = await ScheduledMessage.claimNext(
+    workerId,
+    chatConfig.schedulerLockMs
+  );
+
+  while (job) {
+    await runJob(io, job);
+    job = await ScheduledMessage.claimNext(
+      workerId,
+      chatConfig.schedulerLockMs
+    );
+  }
+};
+
+/**
+ * Hard delete expired messages and tell members to drop them
+ * The TTL index on expiresAt would remove them too, but silently.
+ */
+const removeExpiredMessages = async (io: Server): Promise<void> => {
+  let batches = await Message.deleteExpired(EXPIRY_BATCH_SIZE);
+
+  while (batches.length) {
+    const conversations = await Conversation.find({
+      _id: { $in: batches.map((batch) => batch.conversationId) },
+    });
+
+    batches.forEach(({ conversationId, messageIds }) => {
+      const conversation = conversations.find((c) =>
+        c._id.equals(conversationId)
+      );
+      if (conversation) {
+        emitToConversation(io, conversation, "messagesExpired", {
+          conversationId,
+          messageIds,
+        });
+      }
+    });
+
+    batches = await Message.deleteExpired(EXPIRY_BATCH_SIZE);
+  }
+};
+
+/**
+ * Run a task now and then repeatedly, each run starting after the previous
+ * one finished so a slow run never overlaps the next. Returns a stop function.
+ */
+const poll = (
+  name: string,
+  intervalMs: number,
+  task: () => Promise<void>
+): (() => void) => {
+  let timer: NodeJS.Timeout | undefined;
+  let stopped = false;
+
+  const run = async () => {
+    try {
+      await task();
+    } catch (error) {
+      logger.error(`${name} failed:`, error);
+    }
+
+    if (!stopped) {
+      timer = setTimeout(run, intervalMs);
+    }
+  };
+
+  run();
+
+  return () => {
+    stopped = true;
+    clearTimeout(timer);
+  };
+};
+
+/**
+ * Start the background jobs: sending due scheduled messages and removing
+ * expired ones. Every instance may run them, scheduled messages are claimed
+ * atomically. Returns a function that stops the scheduler.
+ */
+export const startScheduler = (io: Server): (() => void) => {
+  const stops = [
+    poll("Scheduled messages", chatConfig.schedulerPollMs, () =>
+      runDueJobs(io)
+    ),
+    poll("Expired messages cleanup", chatConfig.expiryCleanupMs, () =>
+      removeExpiredMessages(io)
+    ),
+  ];
+
+  logger.info("Message scheduler started", { workerId });
+
+  return () => stops.forEach((stop) => stop());
+};
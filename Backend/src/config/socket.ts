@@ -1,9 +1,22 @@
 import { Server as HttpServer } from "http";
 import { Server, Socket } from "socket.io";
 import jwt, { JwtPayload } from "jsonwebtoken";
+import { Types } from "mongoose";
 import { logger } from "../utils/logger";
 import { User } from "../models/User";
-import { Message } from "../models/Message";
+import {
+  IMessage,
+  Message,
+  MESSAGE_POPULATE,
+  NewMessage,
+  isValidReactionEmoji,
+  parsePoll,
+} from "../models/Message";
+import { Conversation, IConversation } from "../models/Conversation";
+import { Draft } from "../models/Draft";
+import { chatConfig } from "./chat";
+import { decodeCursor } from "../utils/pagination";
+import { hasMarkdownContent } from "../utils/markdown";
 import dotenv from "dotenv";
 
 dotenv.config();
@@ -19,6 +32,17 @@ interface CustomJwtPayload extends JwtPayload {
   id: string;
 }
 
+interface SyncRequest {
+  since?: string; // Timestamp of the last change the client has seen
+  lastMessageId?: string; // Alternatively, the last message the client has
+  cursor?: string; // Cursor of the previous sync page
+}
+
+interface TypingTarget {
+  conversationId?: string;
+  receiverId?: string;
+}
+
 // Active connections store
 const activeConnections = new Map<string, AuthenticatedSocket>();
 
@@ -130,60 +154,406 @@ export const initializeSocket = (server: HttpServer): Server => {
       // Handle private messages
       socket.on("sendMessage", async (data) => {
         try {
-          const message = await Message.create({
-            sender: socket.userId,
-            receiver: data.receiverId,
-            content: data.content,
-            messageType: data.messageType || "text",
-            status: "sent",
-          });
+          if (
+            data.messageType &&
+            ["system", "audio", "image", "file"].includes(data.messageType)
+          ) {
+            socket.emit("error", "Failed to send message: Invalid type");
+            return;
+          }
+
+          const poll =
+            data.messageType === "poll" ? parsePoll(data.poll) : undefined;
+          if (typeof poll === "string") {
+            socket.emit("error", `Failed to send message: ${poll}`);
+            return;
+          }
 
-          await message.populate([
-            { path: "sender", select: "username avatar" },
-            { path: "receiver", select: "username avatar" },
-          ]);
+          if (!poll && !hasMarkdownContent(data.content)) {
+            socket.emit("error", "Failed to send message: Content is required");
+            return;
+          }
+
+          // Only a valid message opens a direct conversation, and not one
+          // quoting a message, which could not be in a new conversation
+          const conversation = await Conversation.resolveTarget(
+            socket.userId,
+            {
+              conversationId: data.conversationId,
+              receiverId: data.receiverId,
+            },
+            { create: !data.replyTo }
+          );
+
+          if (!conversation) {
+            socket.emit("error", "Failed to send message: Invalid recipient");
+            return;
+          }
+
+          const replyTo =
+            data.replyTo &&
+            (await Message.findReplyTarget(
+              data.replyTo,
+              conversation._id.toString()
+            ));
+          if (data.replyTo && !replyTo) {
+            socket.emit(
+              "error",
+              "Failed to send message: Quoted message not found"
+            );
+            return;
+          }
 
-          // Emit to sender with message ID
+          // Emitted to every other member of the conversation, the message
+          // stays "sent" until one of their sockets acknowledges it. A resend
+          // of a message that was already stored is not duplicated.
+          const { message, created } = await dispatchMessage(
+            socket,
+            conversation,
+            {
+              sender: socket.userId,
+              content: poll ? poll.question : data.content,
+              messageType: data.messageType || "text",
+              replyTo: replyTo || undefined,
+              clientMessageId:
+                typeof data.clientMessageId === "string"
+                  ? data.clientMessageId
+                  : undefined,
+              poll,
+            }
+          );
+
+          // Emit to sender with message ID, also on retries so the client
+          // can reconcile its optimistic message
           socket.emit("messageSent", {
             messageId: message._id,
+            conversationId: conversation._id,
+            clientMessageId: message.clientMessageId,
             tempId: data.tempId,
+            createdAt: message.createdAt,
           });
 
-          // Emit to receiver
-          socket.to(data.receiverId).emit("messageReceived", message);
-
-          // Update message status
-          message.status = "delivered";
-          await message.save();
+          // Resends are skipped, a newer draft may have been typed since
+          if (created) {
+            await clearSentDraft(socket, socket.userId, conversation._id);
+          }
         } catch (error) {
           logger.error("Error in sendMessage socket handler:", error);
           socket.emit("error", "Failed to send message");
         }
       });
 
+      // Handle message edits
+      socket.on(
+        "editMessage",
+        async (data: { messageId: string; content: string }) => {
+          try {
+            if (!hasMarkdownContent(data?.content)) {
+              socket.emit("error", "Message content is required");
+              return;
+            }
+
+            const found = await Message.findForParticipant(
+              data.messageId,
+              socket.userId
+            );
+
+            if (!found || !found.message.isEditableBy(socket.userId)) {
+              socket.emit("error", "Failed to edit message: Not allowed");
+              return;
+            }
+
+            const { message, conversation } = found;
+            await message.editContent(data.content);
+            await message.populate(MESSAGE_POPULATE);
+
+            emitToConversation(io, conversation, "messageEdited", message);
+          } catch (error) {
+            logger.error("Error in editMessage socket handler:", error);
+            socket.emit("error", "Failed to edit message");
+          }
+        }
+      );
+
+      // Handle reactions
+      const handleReaction =
+        (action: "add" | "remove") =>
+        async (data: { messageId: string; emoji: string }) => {
+          try {
+            if (!isValidReactionEmoji(data?.emoji)) {
+              socket.emit("error", "A valid emoji is required");
+              return;
+            }
+
+            const found = await Message.findForParticipant(
+              data.messageId,
+              socket.userId
+            );
+
+            if (!found || found.message.isDeletedForEveryone) {
+              socket.emit("error", "Failed to update reaction: Not allowed");
+              return;
+            }
+
+            const { message, conversation } = found;
+            if (action === "add") {
+              await message.addReaction(data.emoji, socket.userId);
+            } else {
+              await message.removeReaction(data.emoji, socket.userId);
+            }
+
+            emitToConversation(
+              io,
+              conversation,
+              action === "add" ? "reactionAdded" : "reactionRemoved",
+              {
+                messageId: data.messageId,
+                conversationId: conversation._id,
+                emoji: data.emoji,
+                userId: socket.userId,
+                reactions: message.reactions,
+              }
+            );
+          } catch (error) {
+            logger.error("Error in reaction socket handler:", error);
+            socket.emit("error", "Failed to update reaction");
+          }
+        };
+
+      socket.on("addReaction", handleReaction("add"));
+      socket.on("removeReaction", handleReaction("remove"));
+
+      // Handle poll votes, a new vote replaces the previous one
+      socket.on(
+        "votePoll",
+        async (data: { messageId: string; optionIds: string[] }) => {
+          try {
+            const found = await Message.findForParticipant(
+              data?.messageId,
+              socket.userId
+            );
+
+            if (!found || found.message.messageType !== "poll") {
+              socket.emit("error", "Failed to vote: Poll not found");
+              return;
+            }
+
+            const { message, conversation } = found;
+            if (!message.isValidPollChoice(data.optionIds)) {
+              socket.emit("error", "Failed to vote: Invalid options");
+              return;
+            }
+
+            if (
+              !message.isPollOpen() ||
+              !(await message.vote(socket.userId, data.optionIds))
+            ) {
+              socket.emit("error", "Failed to vote: Poll is closed");
+              return;
+            }
+
+            emitToConversation(io, conversation, "pollUpdated", {
+              messageId: data.messageId,
+              conversationId: conversation._id,
+              poll: message.poll,
+            });
+          } catch (error) {
+            logger.error("Error in votePoll socket handler:", error);
+            socket.emit("error", "Failed to vote");
+          }
+        }
+      );
+
+      // Only the creator may close a poll early
+      socket.on("closePoll", async (data: { messageId: string }) => {
+        try {
+          const found = await Message.findForParticipant(
+            data?.messageId,
+            socket.userId
+          );
+
+          if (
+            !found ||
+            found.message.messageType !== "poll" ||
+            found.message.sender.toString() !== socket.userId
+          ) {
+            socket.emit("error", "Failed to close poll: Not allowed");
+            return;
+          }
+
+          const { message, conversation } = found;
+          if (message.isPollOpen() && (await message.closePoll())) {
+            emitToConversation(io, conversation, "pollUpdated", {
+              messageId: data.messageId,
+              conversationId: conversation._id,
+              poll: message.poll,
+            });
+          }
+        } catch (error) {
+          logger.error("Error in closePoll socket handler:", error);
+          socket.emit("error", "Failed to close poll");
+        }
+      });
+
+      // Handle pins, any participant may pin up to the conversation limit
+      socket.on("pinMessage", async (data: { messageId: string }) => {
+        try {
+          const found = await Message.findForParticipant(
+            data?.messageId,
+            socket.userId
+          );
+
+          if (!found || found.message.isDeletedForEveryone) {
+            socket.emit("error", "Failed to pin message: Not allowed");
+            return;
+          }
+
+          const { message, conversation } = found;
+          if (message.pinnedAt) return;
+
+          if (!(await message.pin(socket.userId))) {
+            socket.emit(
+              "error",
+              `A conversation can have at most ${chatConfig.maxPinnedMessages} pinned messages`
+            );
+            return;
+          }
+
+          await message.populate(MESSAGE_POPULATE);
+
+          emitToConversation(io, conversation, "messagePinned", {
+            messageId: data.messageId,
+            conversationId: conversation._id,
+            pinnedBy: socket.userId,
+            pinnedAt: message.pinnedAt,
+            message,
+          });
+        } catch (error) {
+          logger.error("Error in pinMessage socket handler:", error);
+          socket.emit("error", "Failed to pin message");
+        }
+      });
+
+      socket.on("unpinMessage", async (data: { messageId: string }) => {
+        try {
+          const found = await Message.findForParticipant(
+            data?.messageId,
+            socket.userId
+          );
+
+          if (!found) {
+            socket.emit("error", "Failed to unpin message: Not allowed");
+            return;
+          }
+
+          const { message, conversation } = found;
+          if (await message.unpin()) {
+            emitToConversation(io, conversation, "messageUnpinned", {
+              messageId: data.messageId,
+              conversationId: conversation._id,
+              unpinnedBy: socket.userId,
+            });
+          }
+        } catch (error) {
+          logger.error("Error in unpinMessage socket handler:", error);
+          socket.emit("error", "Failed to unpin message");
+        }
+      });
+
+      // Replay what a reconnecting client missed, one bounded page per request
+      socket.on("sync", async (data: SyncRequest) => {
+        try {
+          const syncedAt = new Date();
+          const cursor = data?.cursor ? decodeCursor(data.cursor) : null;
+
+          if (data?.cursor && !cursor) {
+            socket.emit("error", "Failed to sync: Invalid cursor");
+            return;
+          }
+
+          let since = data?.since ? new Date(data.since) : null;
+          if (!cursor && !since && data?.lastMessageId) {
+            // Only its time is needed, also when the client hid it since
+            const found = await Message.findForParticipant(
+              data.lastMessageId,
+              socket.userId,
+              { includeHidden: true }
+            );
+            since = found ? found.message.createdAt : null;
+          }
+
+          if (!cursor && (!since || isNaN(since.getTime()))) {
+            socket.emit(
+              "error",
+              "Failed to sync: A valid since timestamp or lastMessageId is required"
+            );
+            return;
+          }
+
+          // Older gaps are not replayed, the client reloads instead
+          const oldest = new Date(syncedAt.getTime() - chatConfig.syncMaxAgeMs);
+          const truncated = !!since && since < oldest;
+
+          const page = await Message.getChangesSince(socket.userId, {
+            since: truncated || !since ? oldest : since,
+            cursor: cursor || undefined,
+            limit: chatConfig.syncPageSize,
+          });
+
+          socket.emit("syncBatch", { ...page, truncated, syncedAt });
+        } catch (error) {
+          logger.error("Error in sync socket handler:", error);
+          socket.emit("error", "Failed to sync");
+        }
+      });
+
       // Handle typing indicators with debounce
       let typingTimeout: NodeJS.Timeout;
 
-      socket.on("typing", (data: { receiverId: string }) => {
+      // Typing events go to the conversation members, or to a single receiver
+      const typingRooms = async (data: TypingTarget): Promise<string[]> => {
+        if (!data.conversationId) {
+          return data.receiverId ? [data.receiverId] : [];
+        }
+        const conversation = await Conversation.findForMember(
+          data.conversationId,
+          socket.userId
+        );
+        return conversation
+          ? conversation.memberIds().filter((id) => id !== socket.userId)
+          : [];
+      };
+
+      socket.on("typing", async (data: TypingTarget) => {
         clearTimeout(typingTimeout);
 
-        socket.to(data.receiverId).emit("userTyping", {
+        const rooms = await typingRooms(data);
+        if (!rooms.length) return;
+
+        socket.to(rooms).emit("userTyping", {
           userId: socket.userId,
           username: socket.username,
+          conversationId: data.conversationId,
         });
 
         // Auto stop typing after 3 seconds
         typingTimeout = setTimeout(() => {
-          socket.to(data.receiverId).emit("userStoppedTyping", {
+          socket.to(rooms).emit("userStoppedTyping", {
             userId: socket.userId,
+            conversationId: data.conversationId,
           });
         }, 3000);
       });
 
-      socket.on("stopTyping", (data: { receiverId: string }) => {
+      socket.on("stopTyping", async (data: TypingTarget) => {
         clearTimeout(typingTimeout);
-        socket.to(data.receiverId).emit("userStoppedTyping", {
+
+        const rooms = await typingRooms(data);
+        if (!rooms.length) return;
+
+        socket.to(rooms).emit("userStoppedTyping", {
           userId: socket.userId,
+          conversationId: data.conversationId,
         });
       });
 
@@ -226,9 +596,31 @@ export const initializeSocket = (server: HttpServer): Server => {
         }
       });
 
-      socket.on("messageSent", (messageId) => {
-        socket.emit("messageDelivered", { messageId });
-      });
+      // Handle delivery acknowledgements from the receiving client
+      socket.on(
+        "acknowledgeDelivery",
+        async (data: { messageIds: string[] }) => {
+          try {
+            if (!Array.isArray(data?.messageIds)) return;
+
+            const receipts = await Message.markDelivered(
+              data.messageIds.slice(0, chatConfig.deliveryQueueLimit),
+              socket.userId
+            );
+
+            receipts.forEach((receipt) => {
+              io.to(receipt.sender.toString()).emit("messageDelivered", {
+                messageId: receipt.messageId,
+                conversationId: receipt.conversationId,
+                userId: socket.userId,
+                deliveredAt: receipt.deliveredAt,
+              });
+            });
+          } catch (error) {
+            logger.error("Error in acknowledgeDelivery socket handler:", error);
+          }
+        }
+      );
 
       // Add this near the top of your socket connection handler
       socket.on("error", (error) => {
@@ -240,6 +632,14 @@ export const initializeSocket = (server: HttpServer): Server => {
         // Notify client of error
         socket.emit("error", "An error occurred with your connection");
       });
+
+      // Flush messages that arrived while the user was offline, the client
+      // acknowledges them like any other received message
+      const queued = await Message.getUndelivered(
+        socket.userId,
+        chatConfig.deliveryQueueLimit
+      );
+      queued.forEach((message) => socket.emit("messageReceived", message));
     } catch (error) {
       logger.error("Error in socket connection handler:", error);
       socket.disconnect(true);
@@ -255,33 +655,114 @@ export const initializeSocket = (server: HttpServer): Server => {
 };
 
 // Utility functions
+
+/**
+ * Emit an event to every open session of a user through their personal room.
+ * When called with a socket, the emitting socket itself is skipped.
+ */
 export const emitToUser = (
-  io: Server,
+  emitter: Server | Socket,
   userId: string,
   event: string,
   data: any
 ): void => {
-  const userSocket = activeConnections.get(userId);
-  if (userSocket) {
-    userSocket.emit(event, data);
-  }
+  emitter.to(userId).emit(event, data);
 };
 
 export const broadcastToAll = (io: Server, event: string, data: any): void => {
   io.emit(event, data);
 };
 
+/**
+ * Emit an event to every member of a conversation through their personal rooms.
+ * When called with a socket, the emitting socket itself is skipped.
+ */
+export const emitToConversation = (
+  emitter: Server | Socket,
+  conversation: IConversation,
+  event: string,
+  data: any,
+  exceptUserId?: string
+): void => {
+  const rooms = conversation
+    .memberIds()
+    .filter((memberId) => memberId !== exceptUserId);
+
+  if (rooms.length) {
+    emitter.to(rooms).emit(event, data);
+  }
+};
+
+/**
+ * Store a new message and fan it out to its conversation like a live send
+ * A repeat with the same clientMessageId returns the stored message without
+ * emitting it again.
+ */
+export const dispatchMessage = async (
+  emitter: Server | Socket | undefined,
+  conversation: IConversation,
+  fields: Omit<NewMessage, "conversation" | "receiver">,
+  exceptUserId?: string
+): Promise<{ message: IMessage; created: boolean }> => {
+  const result = await Message.findOrCreateByClientId({
+    ...fields,
+    conversation: conversation._id,
+    receiver: conversation.getDirectReceiver(fields.sender),
+  });
+
+  await result.message.populate(MESSAGE_POPULATE);
+
+  if (emitter && result.created) {
+    emitToConversation(
+      emitter,
+      conversation,
+      "messageReceived",
+      result.message,
+      exceptUserId
+    );
+  }
+
+  return result;
+};
+
+/**
+ * Delete the draft of a conversation once the user sent a message there,
+ * telling the user's other sessions to empty their composer
+ */
+export const clearSentDraft = async (
+  emitter: Server | Socket | undefined,
+  userId: string,
+  conversationId: Types.ObjectId
+): Promise<void> => {
+  if ((await Draft.clear(userId, conversationId)) && emitter) {
+    emitToUser(emitter, userId, "draftUpdated", {
+      conversationId,
+      content: "",
+      updatedAt: new Date(),
+    });
+  }
+};
+
 // Event interfaces
+interface ReactionEvent {
+  messageId: string;
+  conversationId: string;
+  emoji: string;
+  userId: string;
+  reactions: { emoji: string; users: string[] }[];
+}
+
 export interface ServerToClientEvents {
   messageReceived: (message: {
     _id: string;
+    conversation: string;
     content: string;
     sender: {
       _id: string;
       username: string;
       avatar?: string;
     };
-    receiver: {
+    receiver?: {
       _id: string;
       username: string;
       avatar?: string;
@@ -289,10 +770,110 @@ export interface ServerToClientEvents {
     status: "sent" | "delivered" | "read";
     createdAt: string;
   }) => void;
-  messageSent: (data: { success: boolean; messageId: string }) => void;
-  messageDelivered: (data: { messageId: string }) => void;
-  userTyping: (data: { userId: string; username: string }) => void;
-  userStoppedTyping: (data: { userId: string }) => void;
+  messageSent: (data: {
+    messageId: string;
+    conversationId: string;
+    clientMessageId?: string;
+    tempId?: string;
+    createdAt: string;
+  }) => void;
+  messageDelivered: (data: {
+    messageId: string;
+    conversationId: string;
+    userId: string;
+    deliveredAt: string;
+  }) => void;
+  messageEdited: (message: {
+    _id: string;
+    conversation: string;
+    content: string;
+    isEdited: true;
+    editedAt: string;
+    editHistory: { content: string; editedAt: string }[];
+  }) => void;
+  messageDeleted: (data: {
+    messageId: string;
+    conversationId: string;
+    content: string;
+    deletedAt: string;
+  }) => void;
+  syncBatch: (data: {
+    messages: Parameters<ServerToClientEvents["messageReceived"]>[0][];
+    deleted: { messageId: string; conversationId: string }[];
+    hasMore: boolean;
+    cursor: string | null;
+    truncated: boolean;
+    syncedAt: string;
+  }) => void;
+  messagePinned: (data: {
+    messageId: string;
+    conversationId: string;
+    pinnedBy: string;
+    pinnedAt: string;
+    message: Parameters<ServerToClientEvents["messageReceived"]>[0];
+  }) => void;
+  messageUnpinned: (data: {
+    messageId: string;
+    conversationId: string;
+    unpinnedBy: string;
+  }) => void;
+  reactionAdded: (data: ReactionEvent) => void;
+  reactionRemoved: (data: ReactionEvent) => void;
+  pollUpdated: (data: {
+    messageId: string;
+    conversationId: string;
+    poll: {
+      question: string;
+      options: {
+        _id: string;
+        text: string;
+        voteCount: number;
+        voters: string[]; // Always empty in anonymous polls
+      }[];
+      multipleChoice: boolean;
+      anonymous: boolean;
+      closesAt?: string;
+      closedAt?: string;
+      voterCount: number;
+    };
+  }) => void;
+  conversationUpdated: (conversation: {
+    _id: string;
+    type: "direct" | "group";
+    title?: string;
+    avatar?: string;
+    members: {
+      user: string;
+      role: "owner" | "admin" | "member";
+      joinedAt: string;
+    }[];
+    messageTtl: number | null;
+  }) => void;
+  conversationRemoved: (data: { conversationId: string }) => void;
+  draftUpdated: (data: {
+    conversationId: string;
+    content: string; // Empty when the draft was cleared
+    updatedAt: string;
+    sessionId?: string; // Session that made the change
+  }) => void;
+  messagesExpired: (data: {
+    conversationId: string;
+    messageIds: string[];
+  }) => void;
+  conversationRead: (data: {
+    conversationId: string;
+    userId: string;
+    readAt: Date;
+  }) => void;
+  userTyping: (data: {
+    userId: string;
+    username: string;
+    conversationId?: string;
+  }) => void;
+  userStoppedTyping: (data: {
+    userId: string;
+    conversationId?: string;
+  }) => void;
   userStatusChanged: (data: {
     userId: string;
     isOnline: boolean;
@@ -303,11 +884,30 @@ export interface ServerToClientEvents {
 
 export interface ClientToServerEvents {
   sendMessage: (data: {
-    receiverId: string;
+    conversationId?: string;
+    receiverId?: string;
     content: string;
-    messageType?: "text" | "image" | "file";
+    messageType?: "text" | "image" | "file" | "poll";
+    replyTo?: string;
+    clientMessageId?: string; // Makes retries idempotent
+    tempId?: string;
+    poll?: {
+      question: string;
+      options: string[];
+      multipleChoice?: boolean;
+      anonymous?: boolean;
+      closesAt?: string;
+    };
   }) => void;
-  messageSent: (messageId: string) => void;
-  typing: (data: { receiverId: string }) => void;
-  stopTyping: (data: { receiverId: string }) => void;
+  acknowledgeDelivery: (data: { messageIds: string[] }) => void;
+  sync: (data: SyncRequest) => void;
+  pinMessage: (data: { messageId: string }) => void;
+  unpinMessage: (data: { messageId: string }) => void;
+  editMessage: (data: { messageId: string; content: string }) => void;
+  addReaction: (data: { messageId: string; emoji: string }) => void;
+  removeReaction: (data: { messageId: string; emoji: string }) => void;
+  votePoll: (data: { messageId: string; optionIds: string[] }) => void;
+  closePoll: (data: { messageId: string }) => void;
+  typing: (data: { conversationId?: string; receiverId?: string }) => void;
+  stopTyping: (data: { conversationId?: string; receiverId?: string }) => void;
 }
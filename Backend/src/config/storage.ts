@@ -0,0 +1,44 @@
+// src/config/storage.ts
+import path from "path";
+import dotenv from "dotenv";
+import { isCloudinaryConfigured } from "../utils/cloudinary";
+
+dotenv.config();
+
+export type StorageDriverName = "local" | "cloudinary";
+
+const STORAGE_DRIVERS: StorageDriverName[] = ["local", "cloudinary"];
+
+const requested = process.env.STORAGE_DRIVER as StorageDriverName | undefined;
+
+// A typo must not silently store files somewhere unexpected
+if (requested && !STORAGE_DRIVERS.includes(requested)) {
+  throw new Error(
+    `STORAGE_DRIVER must be one of: ${STORAGE_DRIVERS.join(", ")}`
+  );
+}
+
+/**
+ * Cloudinary is used when asked for, or by default when it is configured.
+ * Without credentials files stay on local disk, so the server also starts
+ * without a Cloudinary account.
+ */
+const driver: StorageDriverName =
+  requested !== "local" && isCloudinaryConfigured() ? "cloudinary" : "local";
+
+/**
+ * Where uploaded files are kept
+ */
+export const storageConfig = {
+  driver,
+
+  // Cloudinary was asked for but is not configured
+  isFallback: requested === "cloudinary" && driver === "local",
+
+  // Directory the local driver writes to, and the URL it is served under
+  localDir: path.resolve(process.env.STORAGE_LOCAL_DIR || "uploads"),
+  localRoute: "/uploads",
+  localPublicUrl:
+    process.env.STORAGE_PUBLIC_URL ||
+    `http://localhost:${process.env.PORT || 3000}/uploads`,
+};
@@ -0,0 +1,264 @@
+/**
+ * @file attachment.controller.ts
+ * @description Message attachment controller
+ *
+ * Images, documents and archives are sent as messages with the stored file
+ * as their attachment. Each kind of file has its own size limit, and the
+ * type is taken from the file's content rather than its name. Images are
+ * stored without their metadata, along with resized variants to show in the
+ * chat.
+ */
+
+import { Request, Response } from "express";
+import { Message, MESSAGE_POPULATE } from "../models/Message";
+import { Conversation } from "../models/Conversation";
+import { logger } from "../utils/logger";
+import { chatConfig } from "../config/chat";
+import { clearSentDraft, dispatchMessage } from "../config/socket";
+import { IMessageFile } from "../models/Message";
+import { StoredFile, storage } from "../storage";
+import { detectAttachmentType, sanitizeFileName } from "../utils/fileType";
+import { processImage } from "../utils/image";
+
+/**
+ * File received by the upload middleware
+ */
+interface UploadedFile {
+  buffer: Buffer;
+  size: number;
+  mimetype: string;
+  originalname: string;
+}
+
+/**
+ * Remove the files stored for a message
+ */
+const removeStored = async (files: StoredFile[]): Promise<void> => {
+  await Promise.all(files.map((file) => storage.remove(file.key)));
+};
+
+/**
+ * Store an image and its variants, null when it cannot be decoded
+ * Files stored before a failure are removed again.
+ */
+const storeImage = async (
+  buffer: Buffer,
+  mimeType: string,
+  extension: string
+): Promise<{ stored: StoredFile[]; details: Partial<IMessageFile> } | null> => {
+  const image = await processImage(buffer, mimeType);
+  if (!image) {
+    return null;
+  }
+
+  const stored: StoredFile[] = [];
+  const save = async (data: Buffer, type: string, ext: string) => {
+    const file = await storage.save(data, {
+      folder: "attachments",
+      mimeType: type,
+      extension: ext,
+    });
+    stored.push(file);
+    return file;
+  };
+
+  try {
+    await save(image.original, mimeType, extension);
+    const variants = [];
+    for (const variant of image.variants) {
+      const file = await save(variant.buffer, "image/webp", ".webp");
+      variants.push({
+        name: variant.name,
+        url: file.url,
+        width: variant.width,
+        height: variant.height,
+      });
+    }
+
+    return {
+      stored,
+      details: {
+        size: image.original.length,
+        width: image.width,
+        height: image.height,
+        placeholder: image.placeholder,
+        variants,
+      },
+    };
+  } catch (error) {
+    await removeStored(stored).catch((removeError) => {
+      logger.error("Error removing partly stored image:", removeError);
+    });
+    throw error;
+  }
+};
+
+/**
+ * Send Attachment Controller
+ * Expects a multipart form with the file in the `file` field and an
+ * optional caption, which is shown instead of the file name
+ * @route POST /api/upload/attachment
+ */
+export const sendAttachment = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    const { conversationId, receiverId, replyTo, clientMessageId } = req.body;
+    const caption =
+      typeof req.body.caption === "string" && req.body.caption.trim()
+        ? req.body.caption
+        : undefined;
+    const file = (req as Request & { file?: UploadedFile }).file;
+    const senderId = req.user._id.toString();
+
+    if (!file) {
+      res.status(400).json({
+        success: false,
+        message: "Failed to send attachment: No file uploaded",
+      });
+      return;
+    }
+
+    if (
+      clientMessageId !== undefined &&
+      (typeof clientMessageId !== "string" || !clientMessageId.trim())
+    ) {
+      res.status(400).json({
+        success: false,
+        message: "Failed to send attachment: Invalid client message ID",
+      });
+      return;
+    }
+
+    const type = detectAttachmentType(file.buffer, file.mimetype);
+    if (!type) {
+      res.status(415).json({
+        success: false,
+        message: "Failed to send attachment: Unsupported file type",
+      });
+      return;
+    }
+
+    const maxBytes = chatConfig.maxAttachmentBytes[type.kind];
+    if (file.size > maxBytes) {
+      res.status(413).json({
+        success: false,
+        message: `Failed to send attachment: A ${type.kind} cannot exceed ${maxBytes / (1024 * 1024)}MB`,
+      });
+      return;
+    }
+
+    const conversation = await Conversation.resolveTarget(
+      senderId,
+      { conversationId, receiverId },
+      { create: !replyTo }
+    );
+    if (!conversation) {
+      res.status(404).json({
+        success: false,
+        message: "Failed to send attachment: Invalid recipient",
+      });
+      return;
+    }
+
+    const replyToId =
+      replyTo &&
+      (await Message.findReplyTarget(replyTo, conversation._id.toString()));
+    if (replyTo && !replyToId) {
+      res.status(400).json({
+        success: false,
+        message: "Failed to send attachment: Quoted message not found",
+      });
+      return;
+    }
+
+    // A retry of a message that was already sent is answered without
+    // storing the file again
+    const sent =
+      clientMessageId &&
+      (await Message.findByClientId(senderId, clientMessageId));
+    if (sent) {
+      await sent.populate(MESSAGE_POPULATE);
+      res.status(200).json({
+        success: true,
+        data: sent,
+      });
+      return;
+    }
+
+    // Multer reads file names as Latin-1, browsers send them as UTF-8
+    const name = sanitizeFileName(
+      Buffer.from(file.originalname, "latin1").toString("utf8")
+    );
+
+    // The original comes first, it is the message's attachment
+    let stored: StoredFile[];
+    let details: Partial<IMessageFile> = {};
+    if (type.kind === "image") {
+      const image = await storeImage(
+        file.buffer,
+        file.mimetype,
+        type.extension
+      );
+      if (!image) {
+        res.status(415).json({
+          success: false,
+          message: "Failed to send attachment: Image could not be read",
+        });
+        return;
+      }
+      ({ stored, details } = image);
+    } else {
+      stored = [
+        await storage.save(file.buffer, {
+          folder: "attachments",
+          mimeType: file.mimetype,
+          extension: type.extension,
+        }),
+      ];
+    }
+
+    const { message, created } = await dispatchMessage(
+      req.io,
+      conversation,
+      {
+        sender: senderId,
+        content: caption ?? name,
+        messageType: type.kind === "image" ? "image" : "file",
+        replyTo: replyToId || undefined,
+        clientMessageId,
+        attachments: [stored[0].url],
+        storageKeys: stored.map((file) => file.key),
+        file: { name, size: file.size, mimeType: file.mimetype, ...details },
+      },
+      senderId
+    ).catch(async (error) => {
+      // Nothing refers to the files when the message could not be stored
+      await removeStored(stored).catch((removeError) => {
+        logger.error("Error removing unsent attachment:", removeError);
+      });
+      throw error;
+    });
+
+    // A concurrent retry may have sent the message first, it keeps its own
+    // upload. The caption was typed in the composer, so its draft is done
+    // with.
+    if (!created) {
+      await removeStored(stored);
+    } else if (caption) {
+      await clearSentDraft(req.io, senderId, conversation._id);
+    }
+
+    res.status(created ? 201 : 200).json({
+      success: true,
+      data: message,
+    });
+  } catch (error) {
+    logger.error("Error in sendAttachment:", error);
+    res.status(500).json({
+      success: false,
+      message: "Failed to send attachment: Server error",
+    });
+  }
+};
@@ -7,12 +7,30 @@
  */
 
 import { Request, Response } from "express";
-import { Message } from "../models/Message";
-import { User } from "../models/User";
+import mongoose from "mongoose";
+import {
+  Message,
+  MESSAGE_POPULATE,
+  MESSAGE_TYPES,
+  MessageType,
+  isValidReactionEmoji,
+  parsePoll,
+} from "../models/Message";
+import { Conversation, IConversation } from "../models/Conversation";
 import { logger } from "../utils/logger";
+import { chatConfig } from "../config/chat";
+import {
+  clearSentDraft,
+  dispatchMessage,
+  emitToConversation,
+} from "../config/socket";
+import { decodeCursor, parseLimit } from "../utils/pagination";
+import { hasMarkdownContent } from "../utils/markdown";
 
 /**
  * Send Message Controller
+ * Sending again with the same clientMessageId returns the original message
+ * instead of creating a duplicate.
  * @route POST /api/chat/messages
  */
 
@@ -21,12 +39,62 @@ export const sendMessage = async (
   res: Response
 ): Promise<void> => {
   try {
-    const { receiverId, content, messageType = "text" } = req.body;
+    const {
+      conversationId,
+      receiverId,
+      content,
+      messageType = "text",
+      replyTo,
+      clientMessageId,
+    } = req.body;
     const senderId = req.user._id;
 
-    // Validate receiver
-    const receiver = await User.findById(receiverId);
-    if (!receiver) {
+    if (
+      clientMessageId !== undefined &&
+      (typeof clientMessageId !== "string" || !clientMessageId.trim())
+    ) {
+      res.status(400).json({
+        success: false,
+        message: "Failed to send message: Invalid client message ID",
+      });
+      return;
+    }
+
+    // Voice notes, images and files carry an upload, they are sent through
+    // the upload routes
+    if (["system", "audio", "image", "file"].includes(messageType)) {
+      res.status(400).json({
+        success: false,
+        message: "Failed to send message: Invalid message type",
+      });
+      return;
+    }
+
+    const poll = messageType === "poll" ? parsePoll(req.body.poll) : undefined;
+    if (typeof poll === "string") {
+      res.status(400).json({
+        success: false,
+        message: `Failed to send message: ${poll}`,
+      });
+      return;
+    }
+
+    if (!poll && !hasMarkdownContent(content)) {
+      res.status(400).json({
+        success: false,
+        message: "Failed to send message: Content is required",
+      });
+      return;
+    }
+
+    // Validate conversation or receiver. A first message opens the direct
+    // conversation, unless it quotes one, which cannot exist there yet.
+    const conversation = await Conversation.resolveTarget(
+      senderId,
+      { conversationId, receiverId },
+      { create: !replyTo }
+    );
+    if (!conversation) {
       res.status(404).json({
         success: false,
         message: "Failed to send message: Invalid recipient",
@@ -34,26 +102,41 @@ export const sendMessage = async (
       return;
     }
 
-    // Create message
-    const message = await Message.create({
-      sender: senderId,
-      receiver: receiverId,
-      content,
-      messageType,
-    });
+    // A quoted message must belong to the same conversation
+    const replyToId =
+      replyTo &&
+      (await Message.findReplyTarget(replyTo, conversation._id.toString()));
+    if (replyTo && !replyToId) {
+      res.status(400).json({
+        success: false,
+        message: "Failed to send message: Quoted message not found",
+      });
+      return;
+    }
 
-    // Populate sender and receiver details
-    await message.populate([
-      { path: "sender", select: "username avatar" },
-      { path: "receiver", select: "username avatar" },
-    ]);
+    // Create message, unless this is a retry of an earlier request, and emit
+    // it to every other member; their clients acknowledge it to move the
+    // status to "delivered"
+    const { message, created } = await dispatchMessage(
+      req.io,
+      conversation,
+      {
+        sender: senderId.toString(),
+        content: poll ? poll.question : content,
+        messageType,
+        replyTo: replyToId || undefined,
+        clientMessageId,
+        poll,
+      },
+      senderId.toString()
+    );
 
-    // Emit socket event if available
-    if (req.io) {
-      req.io.to(receiverId.toString()).emit("messageReceived", message);
+    // Retries are skipped, a newer draft may have been typed since
+    if (created) {
+      await clearSentDraft(req.io, senderId.toString(), conversation._id);
     }
 
-    res.status(201).json({
+    res.status(created ? 201 : 200).json({
       success: true,
       data: message,
     });
@@ -66,40 +149,153 @@ export const sendMessage = async (
   }
 };
 
+/**
+ * Forward Messages Controller
+ * Copies are sent by the caller and fanned out like newly sent messages.
+ * @route POST /api/chat/messages/forward
+ */
+
+export const forwardMessages = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    const { messageIds, conversationIds } = req.body;
+    const userId = req.user._id.toString();
+
+    const isIdList = (value: unknown, max: number): value is string[] =>
+      Array.isArray(value) &&
+      value.length > 0 &&
+      value.length <= max &&
+      value.every((id) => typeof id === "string");
+
+    if (!isIdList(messageIds, chatConfig.maxForwardMessages)) {
+      res.status(400).json({
+        success: false,
+        message: `Failed to forward messages: Provide 1 to ${chatConfig.maxForwardMessages} message IDs`,
+      });
+      return;
+    }
+
+    if (!isIdList(conversationIds, chatConfig.maxForwardTargets)) {
+      res.status(400).json({
+        success: false,
+        message: `Failed to forward messages: Provide 1 to ${chatConfig.maxForwardTargets} conversation IDs`,
+      });
+      return;
+    }
+
+    // Every target must be a conversation the caller belongs to
+    const targetIds: string[] = [...new Set(conversationIds)];
+    const targets = (
+      await Promise.all(
+        targetIds.map((id) => Conversation.findForMember(id, userId))
+      )
+    ).filter((target): target is IConversation => !!target);
+    if (targets.length !== targetIds.length) {
+      res.status(404).json({
+        success: false,
+        message: "Failed to forward messages: Conversation not found",
+      });
+      return;
+    }
+
+    const copies = await Message.forward(messageIds, userId, targets);
+    if (!copies) {
+      res.status(404).json({
+        success: false,
+        message: "Failed to forward messages: Message not found",
+      });
+      return;
+    }
+
+    await Message.populate(copies, MESSAGE_POPULATE);
+
+    // Fan out each copy to the other members of its conversation
+    const io = req.io;
+    if (io) {
+      const byId = new Map(targets.map((t) => [t._id.toString(), t]));
+      copies.forEach((copy) => {
+        const target = byId.get(copy.conversation.toString());
+        if (target) {
+          emitToConversation(io, target, "messageReceived", copy, userId);
+        }
+      });
+    }
+
+    res.status(201).json({
+      success: true,
+      data: copies,
+    });
+  } catch (error) {
+    logger.error("Error in forwardMessages:", error);
+    res.status(500).json({
+      success: false,
+      message: "Failed to forward messages: Server error",
+    });
+  }
+};
+
 /**
  * Get Conversation Controller
- * @route GET /api/chat/conversations/:userId
+ * @route GET /api/chat/conversations/:id
+ *
+ * The id is a conversation ID, or a user ID for the direct chat with that user.
+ * Messages are cursor paginated with the `before`/`after` cursors returned
+ * by a previous page.
  */
 export const getConversation = async (
   req: Request,
   res: Response
 ): Promise<void> => {
   try {
-    const { userId } = req.params;
+    const { id } = req.params;
     const currentUserId = req.user._id;
+    const { before, after, limit } = req.query;
 
     logger.info("Fetching conversation:", {
       currentUserId,
-      otherUserId: userId,
+      id,
     });
 
-    const messages = await Message.find({
-      $or: [
-        { sender: currentUserId, receiver: userId },
-        { sender: userId, receiver: currentUserId },
-      ],
-    })
-      .sort({ createdAt: 1 })
-      .populate([
-        { path: "sender", select: "username avatar" },
-        { path: "receiver", select: "username avatar" },
-      ]);
+    const beforeCursor = decodeCursor(before);
+    const afterCursor = decodeCursor(after);
 
-    logger.info(`Found ${messages.length} messages`);
+    if ((before && !beforeCursor) || (after && !afterCursor)) {
+      res.status(400).json({
+        success: false,
+        message: "Invalid pagination cursor",
+      });
+      return;
+    }
+
+    const conversation =
+      (await Conversation.findForMember(id, currentUserId)) ||
+      (await Conversation.resolveTarget(currentUserId, { receiverId: id }));
+
+    if (!conversation) {
+      res.status(404).json({
+        success: false,
+        message: "Conversation not found",
+      });
+      return;
+    }
+
+    const page = await Message.getConversation(conversation._id.toString(), {
+      before: beforeCursor || undefined,
+      after: afterCursor || undefined,
+      limit: parseLimit(limit),
+      currentUser: currentUserId,
+    });
+
+    logger.info(`Found ${page.messages.length} messages`);
 
     res.status(200).json({
       success: true,
-      data: messages,
+      data: {
+        conversationId: conversation._id,
+        ...page,
+      },
     });
   } catch (error) {
     logger.error("Error in getConversation:", error);
@@ -110,6 +306,63 @@ export const getConversation = async (
   }
 };
 
+/**
+ * Get Thread Controller
+ * Returns a message together with its replies, oldest first
+ * @route GET /api/chat/messages/:messageId/thread
+ */
+export const getThread = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { messageId } = req.params;
+    const userId = req.user._id;
+    const { after, limit } = req.query;
+
+    const afterCursor = decodeCursor(after);
+
+    if (after && !afterCursor) {
+      res.status(400).json({
+        success: false,
+        message: "Invalid pagination cursor",
+      });
+      return;
+    }
+
+    const found = await Message.findForParticipant(messageId, userId);
+
+    if (!found) {
+      res.status(404).json({
+        success: false,
+        message: "Message not found",
+      });
+      return;
+    }
+
+    const { message, conversation } = found;
+    await message.populate(MESSAGE_POPULATE);
+
+    const page = await Message.getThread(messageId, {
+      after: afterCursor || undefined,
+      limit: parseLimit(limit),
+      currentUser: userId,
+    });
+
+    res.json({
+      success: true,
+      data: {
+        conversationId: conversation._id,
+        message,
+        ...page,
+      },
+    });
+  } catch (error) {
+    logger.error("Error in getThread:", error);
+    res.status(500).json({
+      success: false,
+      message: "Failed to fetch thread",
+    });
+  }
+};
+
 /**
  * Mark Message as Read Controller
  * @route PUT /api/chat/messages/:messageId/read
@@ -122,13 +375,17 @@ export const markMessageAsRead = async (
     const { messageId } = req.params;
     const userId = req.user._id;
 
-    const message = await Message.findOne({
-      _id: messageId,
-      receiver: userId,
-      status: { $ne: "read" },
+    // Hiding a message for oneself does not take back having read it
+    const found = await Message.findForParticipant(messageId, userId, {
+      includeHidden: true,
     });
+    const message = found?.message;
 
-    if (!message) {
+    if (
+      !message ||
+      message.sender.toString() === userId.toString() ||
+      message.readBy.some((id) => id.toString() === userId.toString())
+    ) {
       res.status(404).json({
         success: false,
         message: "Message not found or already read",
@@ -136,7 +393,7 @@ export const markMessageAsRead = async (
       return;
     }
 
-    await message.markAsRead();
+    await message.markAsRead(userId);
 
     // Emit socket event if available
     if (req.io) {
@@ -156,8 +413,444 @@ export const markMessageAsRead = async (
   }
 };
 
+/**
+ * Edit Message Controller
+ * @route PATCH /api/chat/messages/:messageId
+ */
+export const editMessage = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    const { messageId } = req.params;
+    const { content } = req.body;
+    const userId = req.user._id;
+
+    if (!hasMarkdownContent(content)) {
+      res.status(400).json({
+        success: false,
+        message: "Message content is required",
+      });
+      return;
+    }
+
+    const found = await Message.findForParticipant(messageId, userId);
+
+    if (!found) {
+      res.status(404).json({
+        success: false,
+        message: "Message not found",
+      });
+      return;
+    }
+
+    const { message, conversation } = found;
+
+    if (!message.isEditableBy(userId)) {
+      res.status(403).json({
+        success: false,
+        message: "Only the sender can edit a message, within the edit window",
+      });
+      return;
+    }
+
+    await message.editContent(content);
+    await message.populate(MESSAGE_POPULATE);
+
+    if (req.io) {
+      emitToConversation(req.io, conversation, "messageEdited", message);
+    }
+
+    res.json({
+      success: true,
+      data: message,
+    });
+  } catch (error) {
+    logger.error("Error in editMessage:", error);
+    res.status(500).json({
+      success: false,
+      message: "Failed to edit message: Server error",
+    });
+  }
+};
+
+/**
+ * Add Reaction Controller
+ * @route POST /api/chat/messages/:messageId/reactions
+ */
+export const addReaction = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    const { messageId } = req.params;
+    const { emoji } = req.body;
+    const userId = req.user._id.toString();
+
+    if (!isValidReactionEmoji(emoji)) {
+      res.status(400).json({
+        success: false,
+        message: "A valid emoji is required",
+      });
+      return;
+    }
+
+    const found = await Message.findForParticipant(messageId, userId);
+
+    if (!found || found.message.isDeletedForEveryone) {
+      res.status(404).json({
+        success: false,
+        message: "Message not found",
+      });
+      return;
+    }
+
+    const { message, conversation } = found;
+    await message.addReaction(emoji, userId);
+
+    const payload = {
+      messageId,
+      conversationId: conversation._id,
+      emoji,
+      userId,
+      reactions: message.reactions,
+    };
+
+    if (req.io) {
+      emitToConversation(req.io, conversation, "reactionAdded", payload);
+    }
+
+    res.json({
+      success: true,
+      data: payload,
+    });
+  } catch (error) {
+    logger.error("Error in addReaction:", error);
+    res.status(500).json({
+      success: false,
+      message: "Failed to add reaction: Server error",
+    });
+  }
+};
+
+/**
+ * Remove Reaction Controller
+ * @route DELETE /api/chat/messages/:messageId/reactions/:emoji
+ */
+export const removeReaction = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    const { messageId, emoji } = req.params;
+    const userId = req.user._id.toString();
+
+    const found = await Message.findForParticipant(messageId, userId);
+
+    if (!found) {
+      res.status(404).json({
+        success: false,
+        message: "Message not found",
+      });
+      return;
+    }
+
+    const { message, conversation } = found;
+    await message.removeReaction(emoji, userId);
+
+    const payload = {
+      messageId,
+      conversationId: conversation._id,
+      emoji,
+      userId,
+      reactions: message.reactions,
+    };
+
+    if (req.io) {
+      emitToConversation(req.io, conversation, "reactionRemoved", payload);
+    }
+
+    res.json({
+      success: true,
+      data: payload,
+    });
+  } catch (error) {
+    logger.error("Error in removeReaction:", error);
+    res.status(500).json({
+      success: false,
+      message: "Failed to remove reaction: Server error",
+    });
+  }
+};
+
+/**
+ * Pin Message Controller
+ * Any participant may pin, up to the per conversation limit
+ * @route PUT /api/chat/messages/:messageId/pin
+ */
+export const pinMessage = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    const { messageId } = req.params;
+    const userId = req.user._id.toString();
+
+    const found = await Message.findForParticipant(messageId, userId);
+
+    if (!found || found.message.isDeletedForEveryone) {
+      res.status(404).json({
+        success: false,
+        message: "Message not found",
+      });
+      return;
+    }
+
+    const { message, conversation } = found;
+
+    if (!message.pinnedAt) {
+      if (!(await message.pin(userId))) {
+        res.status(400).json({
+          success: false,
+          message: `A conversation can have at most ${chatConfig.maxPinnedMessages} pinned messages`,
+        });
+        return;
+      }
+
+      await message.populate(MESSAGE_POPULATE);
+
+      if (req.io) {
+        emitToConversation(req.io, conversation, "messagePinned", {
+          messageId,
+          conversationId: conversation._id,
+          pinnedBy: userId,
+          pinnedAt: message.pinnedAt,
+          message,
+        });
+      }
+    }
+
+    res.json({
+      success: true,
+      data: message,
+    });
+  } catch (error) {
+    logger.error("Error in pinMessage:", error);
+    res.status(500).json({
+      success: false,
+      message: "Failed to pin message: Server error",
+    });
+  }
+};
+
+/**
+ * Unpin Message Controller
+ * @route DELETE /api/chat/messages/:messageId/pin
+ */
+export const unpinMessage = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    const { messageId } = req.params;
+    const userId = req.user._id.toString();
+
+    const found = await Message.findForParticipant(messageId, userId);
+
+    if (!found) {
+      res.status(404).json({
+        success: false,
+        message: "Message not found",
+      });
+      return;
+    }
+
+    const { message, conversation } = found;
+
+    if ((await message.unpin()) && req.io) {
+      emitToConversation(req.io, conversation, "messageUnpinned", {
+        messageId,
+        conversationId: conversation._id,
+        unpinnedBy: userId,
+      });
+    }
+
+    res.json({
+      success: true,
+      message: "Message unpinned successfully",
+    });
+  } catch (error) {
+    logger.error("Error in unpinMessage:", error);
+    res.status(500).json({
+      success: false,
+      message: "Failed to unpin message: Server error",
+    });
+  }
+};
+
+/**
+ * Get Pinned Messages Controller
+ * @route GET /api/chat/conversations/:conversationId/pins
+ */
+export const getPinnedMessages = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    const { conversationId } = req.params;
+    const userId = req.user._id.toString();
+
+    const conversation = await Conversation.findForMember(
+      conversationId,
+      userId
+    );
+
+    if (!conversation) {
+      res.status(404).json({
+        success: false,
+        message: "Conversation not found",
+      });
+      return;
+    }
+
+    const messages = await Message.getPinned(conversationId, userId);
+
+    res.json({
+      success: true,
+      data: {
+        conversationId,
+        messages,
+        limit: chatConfig.maxPinnedMessages,
+      },
+    });
+  } catch (error) {
+    logger.error("Error in getPinnedMessages:", error);
+    res.status(500).json({
+      success: false,
+      message: "Failed to fetch pinned messages",
+    });
+  }
+};
+
+/**
+ * Star Message Controller
+ * Stars are private, no other participant is notified
+ * @route PUT /api/chat/messages/:messageId/star
+ */
+export const starMessage = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    const { messageId } = req.params;
+    const userId = req.user._id.toString();
+
+    const found = await Message.findForParticipant(messageId, userId);
+
+    if (!found) {
+      res.status(404).json({
+        success: false,
+        message: "Message not found",
+      });
+      return;
+    }
+
+    await found.message.star(userId);
+
+    res.json({
+      success: true,
+      message: "Message starred successfully",
+    });
+  } catch (error) {
+    logger.error("Error in starMessage:", error);
+    res.status(500).json({
+      success: false,
+      message: "Failed to star message: Server error",
+    });
+  }
+};
+
+/**
+ * Unstar Message Controller
+ * @route DELETE /api/chat/messages/:messageId/star
+ */
+export const unstarMessage = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    const { messageId } = req.params;
+    const userId = req.user._id.toString();
+
+    const found = await Message.findForParticipant(messageId, userId);
+
+    if (!found) {
+      res.status(404).json({
+        success: false,
+        message: "Message not found",
+      });
+      return;
+    }
+
+    await found.message.unstar(userId);
+
+    res.json({
+      success: true,
+      message: "Message unstarred successfully",
+    });
+  } catch (error) {
+    logger.error("Error in unstarMessage:", error);
+    res.status(500).json({
+      success: false,
+      message: "Failed to unstar message: Server error",
+    });
+  }
+};
+
+/**
+ * Get Starred Messages Controller
+ * @route GET /api/chat/messages/starred
+ */
+export const getStarredMessages = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    const { before, limit } = req.query;
+    const userId = req.user._id.toString();
+
+    const beforeCursor = decodeCursor(before);
+
+    if (before && !beforeCursor) {
+      res.status(400).json({
+        success: false,
+        message: "Invalid pagination cursor",
+      });
+      return;
+    }
+
+    const page = await Message.getStarred(userId, {
+      before: beforeCursor || undefined,
+      limit: parseLimit(limit),
+    });
+
+    res.json({
+      success: true,
+      data: page,
+    });
+  } catch (error) {
+    logger.error("Error in getStarredMessages:", error);
+    res.status(500).json({
+      success: false,
+      message: "Failed to fetch starred messages",
+    });
+  }
+};
+
 /**
  * Delete Message Controller
+ * By default the message is only hidden for the caller. With
+ * `?scope=everyone` the sender replaces it with a tombstone for every member.
  * @route DELETE /api/chat/messages/:messageId
  */
 export const deleteMessage = async (
@@ -167,13 +860,14 @@ export const deleteMessage = async (
   try {
     const { messageId } = req.params;
     const userId = req.user._id;
+    const forEveryone = req.query.scope === "everyone";
 
-    const message = await Message.findOne({
-      _id: messageId,
-      $or: [{ sender: userId }, { receiver: userId }],
+    // A message deleted for oneself can still be unsent for everyone
+    const found = await Message.findForParticipant(messageId, userId, {
+      includeHidden: true,
     });
 
-    if (!message) {
+    if (!found) {
       res.status(404).json({
         success: false,
         message: "Message not found",
@@ -181,7 +875,31 @@ export const deleteMessage = async (
       return;
     }
 
-    await message.softDelete(userId);
+    const { message, conversation } = found;
+
+    if (forEveryone) {
+      if (!message.isUnsendableBy(userId)) {
+        res.status(403).json({
+          success: false,
+          message:
+            "Only the sender can delete a message for everyone, within the unsend window",
+        });
+        return;
+      }
+
+      await message.deleteForEveryone();
+
+      if (req.io) {
+        emitToConversation(req.io, conversation, "messageDeleted", {
+          messageId,
+          conversationId: conversation._id,
+          content: message.content,
+          deletedAt: message.deletedAt,
+        });
+      }
+    } else {
+      await message.softDelete(userId);
+    }
 
     res.json({
       success: true,
@@ -196,6 +914,82 @@ export const deleteMessage = async (
   }
 };
 
+/**
+ * Search Messages Controller
+ * Full-text search across the caller's conversations
+ * @route GET /api/chat/search
+ */
+export const searchMessages = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    const { q, conversationId, senderId, from, to, type, before, limit } =
+      req.query;
+    const userId = req.user._id.toString();
+
+    const query = typeof q === "string" ? q.trim() : "";
+    const fromDate = from ? new Date(String(from)) : undefined;
+    const toDate = to ? new Date(String(to)) : undefined;
+    const beforeCursor = decodeCursor(before);
+
+    if (query.length < 2 || query.length > 200) {
+      res.status(400).json({
+        success: false,
+        message: "Search query must be between 2 and 200 characters",
+      });
+      return;
+    }
+
+    if (
+      (fromDate && isNaN(fromDate.getTime())) ||
+      (toDate && isNaN(toDate.getTime())) ||
+      (type && !MESSAGE_TYPES.includes(type as MessageType)) ||
+      (senderId && !mongoose.isValidObjectId(senderId)) ||
+      (before && !beforeCursor)
+    ) {
+      res.status(400).json({
+        success: false,
+        message: "Invalid search filters",
+      });
+      return;
+    }
+
+    if (
+      conversationId &&
+      !(await Conversation.findForMember(String(conversationId), userId))
+    ) {
+      res.status(404).json({
+        success: false,
+        message: "Conversation not found",
+      });
+      return;
+    }
+
+    const page = await Message.search(userId, {
+      query,
+      conversationId: conversationId ? String(conversationId) : undefined,
+      senderId: senderId ? String(senderId) : undefined,
+      from: fromDate,
+      to: toDate,
+      messageType: type as MessageType | undefined,
+      before: beforeCursor || undefined,
+      limit: parseLimit(limit, 20, 50),
+    });
+
+    res.json({
+      success: true,
+      data: page,
+    });
+  } catch (error) {
+    logger.error("Error in searchMessages:", error);
+    res.status(500).json({
+      success: false,
+      message: "Failed to search messages",
+    });
+  }
+};
+
 /**
  * Get Unread Messages Count Controller
  * @route GET /api/chat/messages/unread/count
@@ -0,0 +1,640 @@
+/**
+ * @file conversation.controller.ts
+ * @description Conversation controller handling group and direct conversations
+ *
+ * This controller implements conversation management including creating
+ * group channels, opening direct chats, and managing members and their roles.
+ */
+
+import { Request, Response } from "express";
+import mongoose, { Types } from "mongoose";
+import {
+  Conversation,
+  IConversation,
+  MESSAGE_TTL_OPTIONS,
+  MessageTtl,
+} from "../models/Conversation";
+import { User } from "../models/User";
+import { Message } from "../models/Message";
+import { logger } from "../utils/logger";
+import { dispatchMessage, emitToConversation } from "../config/socket";
+
+const MEMBER_FIELDS = "username avatar isOnline lastSeen";
+
+/**
+ * Populate members and notify every member about the new conversation state
+ */
+const publishConversation = async (
+  req: Request,
+  conversation: IConversation
+): Promise<void> => {
+  await conversation.populate("members.user", MEMBER_FIELDS);
+
+  if (req.io) {
+    emitToConversation(
+      req.io,
+      conversation,
+      "conversationUpdated",
+      conversation
+    );
+  }
+};
+
+/**
+ * Check that every ID refers to an existing user
+ */
+const allUsersExist = async (userIds: string[]): Promise<boolean> => {
+  if (!userIds.every((id) => mongoose.isValidObjectId(id))) {
+    return false;
+  }
+  const count = await User.countDocuments({ _id: { $in: userIds } });
+  return count === userIds.length;
+};
+
+/**
+ * Get Conversations Controller
+ * Returns the caller's inbox: every conversation with its last message
+ * preview and unread count, most recent activity first
+ * @route GET /api/chat/conversations
+ */
+export const getConversations = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    const userId = req.user._id.toString();
+
+    const [summaries, conversations] = await Promise.all([
+      Message.getConversationSummaries(userId),
+      Conversation.find({ "members.user": userId })
+        .populate("members.user", MEMBER_FIELDS)
+        .lean(),
+    ]);
+
+    const byId = new Map(conversations.map((c) => [c._id.toString(), c]));
+
+    // Conversations with messages, in order of their latest message
+    const inbox = summaries
+      .filter((summary) => byId.has(summary.conversationId.toString()))
+      .map((summary) => {
+        const id = summary.conversationId.toString();
+        const conversation = byId.get(id);
+        byId.delete(id);
+        return {
+          ...conversation,
+          lastMessage: summary.lastMessage,
+          unreadCount: summary.unreadCount,
+        };
+      });
+
+    // Conversations without any visible message yet, newest first
+    const empty = [...byId.values()]
+      .sort((a, b) => b.lastMessageAt.getTime() - a.lastMessageAt.getTime())
+      .map((conversation) => ({
+        ...conversation,
+        lastMessage: null,
+        unreadCount: 0,
+      }));
+
+    res.status(200).json({
+      success: true,
+      data: [...inbox, ...empty],
+    });
+  } catch (error) {
+    logger.error("Error in getConversations:", error);
+    res.status(500).json({
+      success: false,
+      message: "Failed to fetch conversations",
+    });
+  }
+};
+
+/**
+ * Mark Conversation as Read Controller
+ * @route PUT /api/chat/conversations/:conversationId/read
+ */
+export const markConversationAsRead = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    const { conversationId } = req.params;
+    const userId = req.user._id.toString();
+
+    const conversation = await Conversation.findForMember(
+      conversationId,
+      userId
+    );
+
+    if (!conversation) {
+      res.status(404).json({
+        success: false,
+        message: "Conversation not found",
+      });
+      return;
+    }
+
+    const count = await Message.markConversationAsRead(conversationId, userId);
+
+    if (req.io && count > 0) {
+      emitToConversation(
+        req.io,
+        conversation,
+        "conversationRead",
+        { conversationId, userId, readAt: new Date() },
+        userId
+      );
+    }
+
+    res.json({
+      success: true,
+      data: { count },
+    });
+  } catch (error) {
+    logger.error("Error in markConversationAsRead:", error);
+    res.status(500).json({
+      success: false,
+      message: "Failed to mark conversation as read: Server error",
+    });
+  }
+};
+
+/**
+ * Create Group Conversation Controller
+ * @route POST /api/chat/conversations
+ */
+export const createGroupConversation = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    const { title, avatar, memberIds = [] } = req.body;
+    const ownerId = req.user._id.toString();
+
+    if (!Array.isArray(memberIds)) {
+      res.status(400).json({
+        success: false,
+        message: "Member IDs must be an array",
+      });
+      return;
+    }
+
+    const otherIds: string[] = [
+      ...new Set<string>(memberIds.map(String)),
+    ].filter((id) => id !== ownerId);
+
+    if (!title || !otherIds.length) {
+      res.status(400).json({
+        success: false,
+        message: "A group needs a title and at least one other member",
+      });
+      return;
+    }
+
+    if (!(await allUsersExist(otherIds))) {
+      res.status(404).json({
+        success: false,
+        message: "One or more members do not exist",
+      });
+      return;
+    }
+
+    const conversation = await Conversation.create({
+      type: "group",
+      title,
+      avatar,
+      createdBy: ownerId,
+      members: [
+        { user: ownerId, role: "owner" },
+        ...otherIds.map((id) => ({ user: id, role: "member" })),
+      ],
+    });
+
+    await publishConversation(req, conversation);
+
+    logger.info("Group conversation created", {
+      conversationId: conversation._id,
+      members: conversation.members.length,
+    });
+
+    res.status(201).json({
+      success: true,
+      data: conversation,
+    });
+  } catch (error) {
+    logger.error("Error in createGroupConversation:", error);
+    res.status(500).json({
+      success: false,
+      message: "Failed to create conversation: Server error",
+    });
+  }
+};
+
+/**
+ * Open Direct Conversation Controller
+ * @route POST /api/chat/conversations/direct
+ */
+export const openDirectConversation = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    const conversation = await Conversation.resolveTarget(
+      req.user._id,
+      { receiverId: req.body.userId },
+      { create: true }
+    );
+
+    if (!conversation) {
+      res.status(404).json({
+        success: false,
+        message: "User not found",
+      });
+      return;
+    }
+
+    await conversation.populate("members.user", MEMBER_FIELDS);
+
+    res.status(200).json({
+      success: true,
+      data: conversation,
+    });
+  } catch (error) {
+    logger.error("Error in openDirectConversation:", error);
+    res.status(500).json({
+      success: false,
+      message: "Failed to open conversation: Server error",
+    });
+  }
+};
+
+/**
+ * Update Conversation Controller
+ * @route PATCH /api/chat/conversations/:conversationId
+ */
+export const updateConversation = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    const { conversationId } = req.params;
+    const { title, avatar } = req.body;
+    const userId = req.user._id;
+
+    const conversation = await Conversation.findForMember(
+      conversationId,
+      userId
+    );
+
+    if (!conversation || conversation.type !== "group") {
+      res.status(404).json({
+        success: false,
+        message: "Group conversation not found",
+      });
+      return;
+    }
+
+    if (!conversation.hasRole(userId, ["owner", "admin"])) {
+      res.status(403).json({
+        success: false,
+        message: "Only owners and admins can edit the conversation",
+      });
+      return;
+    }
+
+    if (title !== undefined) conversation.title = title;
+    if (avatar !== undefined) conversation.avatar = avatar;
+    await conversation.save();
+
+    await publishConversation(req, conversation);
+
+    res.json({
+      success: true,
+      data: conversation,
+    });
+  } catch (error) {
+    logger.error("Error in updateConversation:", error);
+    res.status(500).json({
+      success: false,
+      message: "Failed to update conversation: Server error",
+    });
+  }
+};
+
+/**
+ * Set Disappearing Messages Controller
+ * Any member of a direct chat may change the timer, in groups only owners
+ * and admins. Messages sent afterwards expire; a system message announces
+ * the new policy to every member.
+ * @route PUT /api/chat/conversations/:conversationId/disappearing
+ */
+export const setDisappearingMessages = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    const { conversationId } = req.params;
+    const { ttl } = req.body;
+    const userId = req.user._id.toString();
+
+    if (ttl !== "off" && !Object.keys(MESSAGE_TTL_OPTIONS).includes(ttl)) {
+      res.status(400).json({
+        success: false,
+        message: `Timer must be "off" or one of: ${Object.keys(MESSAGE_TTL_OPTIONS).join(", ")}`,
+      });
+      return;
+    }
+
+    const conversation = await Conversation.findForMember(
+      conversationId,
+      userId
+    );
+
+    if (!conversation) {
+      res.status(404).json({
+        success: false,
+        message: "Conversation not found",
+      });
+      return;
+    }
+
+    if (
+      conversation.type === "group" &&
+      !conversation.hasRole(userId, ["owner", "admin"])
+    ) {
+      res.status(403).json({
+        success: false,
+        message: "Only owners and admins can change disappearing messages",
+      });
+      return;
+    }
+
+    const messageTtl =
+      ttl === "off" ? null : MESSAGE_TTL_OPTIONS[ttl as MessageTtl];
+    if (conversation.messageTtl === messageTtl) {
+      res.json({
+        success: true,
+        data: conversation,
+      });
+      return;
+    }
+
+    conversation.messageTtl = messageTtl;
+    await conversation.save();
+
+    await dispatchMessage(req.io, conversation, {
+      sender: userId,
+      content: messageTtl
+        ? `${req.user.username} set disappearing messages to ${ttl}`
+        : `${req.user.username} turned off disappearing messages`,
+      messageType: "system",
+    });
+
+    await publishConversation(req, conversation);
+
+    res.json({
+      success: true,
+      data: conversation,
+    });
+  } catch (error) {
+    logger.error("Error in setDisappearingMessages:", error);
+    res.status(500).json({
+      success: false,
+      message: "Failed to update disappearing messages: Server error",
+    });
+  }
+};
+
+/**
+ * Add Members Controller
+ * @route POST /api/chat/conversations/:conversationId/members
+ */
+export const addMembers = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    const { conversationId } = req.params;
+    const { memberIds = [] } = req.body;
+    const userId = req.user._id;
+
+    if (!Array.isArray(memberIds)) {
+      res.status(400).json({
+        success: false,
+        message: "Member IDs must be an array",
+      });
+      return;
+    }
+
+    const conversation = await Conversation.findForMember(
+      conversationId,
+      userId
+    );
+
+    if (!conversation || conversation.type !== "group") {
+      res.status(404).json({
+        success: false,
+        message: "Group conversation not found",
+      });
+      return;
+    }
+
+    if (!conversation.hasRole(userId, ["owner", "admin"])) {
+      res.status(403).json({
+        success: false,
+        message: "Only owners and admins can add members",
+      });
+      return;
+    }
+
+    const newIds: string[] = [...new Set<string>(memberIds.map(String))].filter(
+      (id) => !conversation.isMember(id)
+    );
+
+    if (!newIds.length || !(await allUsersExist(newIds))) {
+      res.status(400).json({
+        success: false,
+        message: "No valid new members provided",
+      });
+      return;
+    }
+
+    newIds.forEach((id) =>
+      conversation.members.push({
+        user: new Types.ObjectId(id),
+        role: "member",
+        joinedAt: new Date(),
+      })
+    );
+    await conversation.save();
+
+    await publishConversation(req, conversation);
+
+    res.json({
+      success: true,
+      data: conversation,
+    });
+  } catch (error) {
+    logger.error("Error in addMembers:", error);
+    res.status(500).json({
+      success: false,
+      message: "Failed to add members: Server error",
+    });
+  }
+};
+
+/**
+ * Remove Member Controller
+ * Members may remove themselves (leave), owners and admins may remove others
+ * @route DELETE /api/chat/conversations/:conversationId/members/:userId
+ */
+export const removeMember = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    const { conversationId, userId: targetId } = req.params;
+    const userId = req.user._id.toString();
+
+    const conversation = await Conversation.findForMember(
+      conversationId,
+      userId
+    );
+
+    if (
+      !conversation ||
+      conversation.type !== "group" ||
+      !conversation.isMember(targetId)
+    ) {
+      res.status(404).json({
+        success: false,
+        message: "Member not found",
+      });
+      return;
+    }
+
+    const targetRole = conversation.getRole(targetId);
+    const isSelf = targetId === userId;
+    const canRemove =
+      isSelf ||
+      conversation.hasRole(userId, ["owner"]) ||
+      (conversation.hasRole(userId, ["admin"]) && targetRole === "member");
+
+    if (!canRemove) {
+      res.status(403).json({
+        success: false,
+        message: "You are not allowed to remove this member",
+      });
+      return;
+    }
+
+    if (targetRole === "owner") {
+      res.status(400).json({
+        success: false,
+        message: "Transfer ownership before leaving the conversation",
+      });
+      return;
+    }
+
+    if (conversation.members.length <= 2) {
+      res.status(400).json({
+        success: false,
+        message: "A conversation needs at least two members",
+      });
+      return;
+    }
+
+    conversation.members = conversation.members.filter(
+      (m) => m.user.toString() !== targetId
+    );
+    await conversation.save();
+
+    if (req.io) {
+      req.io.to(targetId).emit("conversationRemoved", { conversationId });
+    }
+    await publishConversation(req, conversation);
+
+    res.json({
+      success: true,
+      data: conversation,
+    });
+  } catch (error) {
+    logger.error("Error in removeMember:", error);
+    res.status(500).json({
+      success: false,
+      message: "Failed to remove member: Server error",
+    });
+  }
+};
+
+/**
+ * Update Member Role Controller
+ * Only the owner may change roles. Assigning "owner" transfers ownership
+ * and demotes the previous owner to admin.
+ * @route PUT /api/chat/conversations/:conversationId/members/:userId/role
+ */
+export const updateMemberRole = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    const { conversationId, userId: targetId } = req.params;
+    const { role } = req.body;
+    const userId = req.user._id.toString();
+
+    if (!["owner", "admin", "member"].includes(role)) {
+      res.status(400).json({
+        success: false,
+        message: "Role must be one of owner, admin or member",
+      });
+      return;
+    }
+
+    const conversation = await Conversation.findForMember(
+      conversationId,
+      userId
+    );
+
+    if (
+      !conversation ||
+      conversation.type !== "group" ||
+      !conversation.isMember(targetId)
+    ) {
+      res.status(404).json({
+        success: false,
+        message: "Member not found",
+      });
+      return;
+    }
+
+    if (!conversation.hasRole(userId, ["owner"]) || targetId === userId) {
+      res.status(403).json({
+        success: false,
+        message: "Only the owner can change the roles of other members",
+      });
+      return;
+    }
+
+    conversation.members.forEach((member) => {
+      if (member.user.toString() === targetId) {
+        member.role = role;
+      } else if (role === "owner" && member.user.toString() === userId) {
+        member.role = "admin";
+      }
+    });
+    await conversation.save();
+
+    await publishConversation(req, conversation);
+
+    res.json({
+      success: true,
+      data: conversation,
+    });
+  } catch (error) {
+    logger.error("Error in updateMemberRole:", error);
+    res.status(500).json({
+      success: false,
+      message: "Failed to update member role: Server error",
+    });
+  }
+};
@@ -0,0 +1,219 @@
+/**
+ * @file draft.controller.ts
+ * @description Draft controller
+ *
+ * This controller stores the unsent composer text of each conversation so it
+ * can be restored later or on another device. Every change is pushed to the
+ * user's other open sessions with a `draftUpdated` event.
+ */
+
+import { Request, Response } from "express";
+import { Conversation } from "../models/Conversation";
+import { Draft } from "../models/Draft";
+import { logger } from "../utils/logger";
+import { emitToUser } from "../config/socket";
+
+/**
+ * Tell the user's sessions about a changed draft
+ * The session that made the change is named so it can ignore its own echo.
+ */
+const publishDraft = (
+  req: Request,
+  userId: string,
+  data: { conversationId: unknown; content: string; updatedAt: Date }
+): void => {
+  if (req.io) {
+    const { sessionId } = req.body ?? {};
+    emitToUser(req.io, userId, "draftUpdated", {
+      ...data,
+      sessionId: typeof sessionId === "string" ? sessionId : undefined,
+    });
+  }
+};
+
+/**
+ * Get Drafts Controller
+ * Returns every draft of the caller, most recently changed first
+ * @route GET /api/chat/drafts
+ */
+export const getDrafts = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const userId = req.user._id.toString();
+
+    const drafts = await Draft.find({ user: userId })
+      .sort({ updatedAt: -1 })
+      .select("conversation content updatedAt");
+
+    res.status(200).json({
+      success: true,
+      data: drafts,
+    });
+  } catch (error) {
+    logger.error("Error in getDrafts:", error);
+    res.status(500).json({
+      success: false,
+      message: "Failed to get drafts: Server error",
+    });
+  }
+};
+
+/**
+ * Get Draft Controller
+ * Data is null when the conversation has no draft
+ * @route GET /api/chat/conversations/:conversationId/draft
+ */
+export const getDraft = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { conversationId } = req.params;
+    const userId = req.user._id.toString();
+
+    const conversation = await Conversation.findForMember(
+      conversationId,
+      userId
+    );
+    if (!conversation) {
+      res.status(404).json({
+        success: false,
+        message: "Conversation not found",
+      });
+      return;
+    }
+
+    const draft = await Draft.findOne({
+      user: userId,
+      conversation: conversation._id,
+    }).select("conversation content updatedAt");
+
+    res.status(200).json({
+      success: true,
+      data: draft,
+    });
+  } catch (error) {
+    logger.error("Error in getDraft:", error);
+    res.status(500).json({
+      success: false,
+      message: "Failed to get draft: Server error",
+    });
+  }
+};
+
+/**
+ * Save Draft Controller
+ * Saving empty or whitespace-only content deletes the draft.
+ * @route PUT /api/chat/conversations/:conversationId/draft
+ */
+export const saveDraft = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { conversationId } = req.params;
+    const { content } = req.body;
+    const userId = req.user._id.toString();
+
+    if (typeof content !== "string") {
+      res.status(400).json({
+        success: false,
+        message: "Failed to save draft: Content is required",
+      });
+      return;
+    }
+
+    if (content.length > 5000) {
+      res.status(400).json({
+        success: false,
+        message: "Failed to save draft: Draft cannot exceed 5000 characters",
+      });
+      return;
+    }
+
+    const conversation = await Conversation.findForMember(
+      conversationId,
+      userId
+    );
+    if (!conversation) {
+      res.status(404).json({
+        success: false,
+        message: "Conversation not found",
+      });
+      return;
+    }
+
+    if (!content.trim()) {
+      if (await Draft.clear(userId, conversation._id)) {
+        publishDraft(req, userId, {
+          conversationId: conversation._id,
+          content: "",
+          updatedAt: new Date(),
+        });
+      }
+
+      res.status(200).json({
+        success: true,
+        data: null,
+      });
+      return;
+    }
+
+    const draft = await Draft.saveFor(userId, conversation._id, content);
+
+    publishDraft(req, userId, {
+      conversationId: conversation._id,
+      content: draft.content,
+      updatedAt: draft.updatedAt,
+    });
+
+    res.status(200).json({
+      success: true,
+      data: draft,
+    });
+  } catch (error) {
+    logger.error("Error in saveDraft:", error);
+    res.status(500).json({
+      success: false,
+      message: "Failed to save draft: Server error",
+    });
+  }
+};
+
+/**
+ * Delete Draft Controller
+ * @route DELETE /api/chat/conversations/:conversationId/draft
+ */
+export const deleteDraft = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    const { conversationId } = req.params;
+    const userId = req.user._id.toString();
+
+    const conversation = await Conversation.findForMember(
+      conversationId,
+      userId
+    );
+    if (!conversation) {
+      res.status(404).json({
+        success: false,
+        message: "Conversation not found",
+      });
+      return;
+    }
+
+    if (await Draft.clear(userId, conversation._id)) {
+      publishDraft(req, userId, {
+        conversationId: conversation._id,
+        content: "",
+        updatedAt: new Date(),
+      });
+    }
+
+    res.status(200).json({
+      success: true,
+      message: "Draft deleted",
+    });
+  } catch (error) {
+    logger.error("Error in deleteDraft:", error);
+    res.status(500).json({
+      success: false,
+      message: "Failed to delete draft: Server error",
+    });
+  }
+};
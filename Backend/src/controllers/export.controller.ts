@@ -0,0 +1,162 @@
+/**
+ * @file export.controller.ts
+ * @description Conversation export controller
+ *
+ * Exports are streamed: messages are written to the response while they are
+ * read from the database, so the size of a conversation's history does not
+ * decide how much memory an export needs.
+ */
+
+import { Request, Response } from "express";
+import { once } from "events";
+import { Message } from "../models/Message";
+import { Conversation } from "../models/Conversation";
+import { logger } from "../utils/logger";
+import {
+  EXPORT_FORMATS,
+  createExportWriter,
+  isExportFormat,
+  toExportRecord,
+} from "../utils/export";
+
+/**
+ * Write a chunk, waiting until the client has taken in what was written
+ * before if the response is buffering
+ */
+const write = async (res: Response, chunk: string): Promise<void> => {
+  if (!res.write(chunk)) {
+    await Promise.race([once(res, "drain"), once(res, "close")]);
+  }
+};
+
+/**
+ * Parse an optional date filter, null when it is not a valid date
+ */
+const parseDate = (value: unknown): Date | undefined | null => {
+  if (value === undefined || value === "") {
+    return undefined;
+  }
+  const date = new Date(String(value));
+  return isNaN(date.getTime()) ? null : date;
+};
+
+/**
+ * Export Conversation Controller
+ * Downloads the messages of a conversation the requester can see
+ * @route GET /api/chat/conversations/:conversationId/export
+ */
+export const exportConversation = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  let cursor: ReturnType<typeof Message.exportCursor> | undefined;
+
+  try {
+    const { conversationId } = req.params;
+    const { format = "json", from, to } = req.query;
+    const userId = req.user._id.toString();
+
+    if (!isExportFormat(format)) {
+      res.status(400).json({
+        success: false,
+        message: `Export format must be one of: ${Object.keys(EXPORT_FORMATS).join(", ")}`,
+      });
+      return;
+    }
+
+    const fromDate = parseDate(from);
+    const toDate = parseDate(to);
+    if (
+      fromDate === null ||
+      toDate === null ||
+      (fromDate && toDate && fromDate >= toDate)
+    ) {
+      res.status(400).json({
+        success: false,
+        message: "Invalid export date range",
+      });
+      return;
+    }
+
+    const conversation = await Conversation.findForMember(
+      conversationId,
+      userId
+    );
+    if (!conversation) {
+      res.status(404).json({
+        success: false,
+        message: "Conversation not found",
+      });
+      return;
+    }
+
+    await conversation.populate("members.user", "username");
+    const members = conversation.members.map(
+      (member) =>
+        (member.user as unknown as { username?: string } | null)?.username ??
+        "Deleted user"
+    );
+    const title = conversation.title || members.join(", ");
+    const exportedAt = new Date();
+
+    const writer = createExportWriter(format, {
+      conversationId: conversation._id.toString(),
+      title,
+      members,
+      exportedBy: req.user.username,
+      exportedAt,
+      from: fromDate,
+      to: toDate,
+    });
+
+    cursor = Message.exportCursor(conversation._id.toString(), {
+      from: fromDate,
+      to: toDate,
+      currentUser: userId,
+    });
+
+    const name = title.replace(/[^a-z0-9]+/gi, "-").replace(/^-|-$/g, "");
+    const { contentType, extension } = EXPORT_FORMATS[format];
+    res.status(200);
+    res.setHeader("Content-Type", contentType);
+    res.setHeader("Cache-Control", "no-store");
+    res.setHeader(
+      "Content-Disposition",
+      `attachment; filename="chat-${name || "conversation"}-${exportedAt
+        .toISOString()
+        .slice(0, 10)}.${extension}"`
+    );
+
+    await write(res, writer.start());
+
+    let count = 0;
+    for (
+      let message = await cursor.next();
+      message && !res.destroyed;
+      message = await cursor.next()
+    ) {
+      await write(res, writer.message(toExportRecord(message), count++));
+    }
+
+    if (res.destroyed) {
+      logger.info("Export cancelled by client:", { conversationId, userId });
+      return;
+    }
+
+    await write(res, writer.end(count));
+    res.end();
+  } catch (error) {
+    logger.error("Error in exportConversation:", error);
+    // A partly written file must not look complete, so the download fails
+    if (res.headersSent) {
+      res.destroy();
+      return;
+    }
+    res.status(500).json({
+      success: false,
+      message: "Failed to export conversation: Server error",
+    });
+  } finally {
+    await cursor?.close();
+  }
+};
@@ -0,0 +1,240 @@
+/**
+ * @file import.controller.ts
+ * @description Chat history import controller
+ *
+ * Histories exported from WhatsApp or from this app are added to an existing
+ * conversation. The people in the file are matched to members by username,
+ * or by an explicit mapping, and a dry run shows that matching together
+ * with the lines that could not be read before anything is written.
+ */
+
+import { Request, Response } from "express";
+import { Message } from "../models/Message";
+import { Conversation } from "../models/Conversation";
+import { logger } from "../utils/logger";
+import { chatConfig } from "../config/chat";
+import { isValidTimeZone } from "../utils/timezone";
+import {
+  ImportIssue,
+  importIssue,
+  isDateOrder,
+  parseChatImport,
+} from "../utils/chatImport";
+
+/**
+ * Export file received by the upload middleware
+ */
+interface UploadedFile {
+  buffer: Buffer;
+}
+
+/**
+ * A person named in the export and the member their messages go to
+ */
+interface ImportParticipant {
+  name: string;
+  userId: string | null;
+  username: string | null;
+  messageCount: number;
+}
+
+/**
+ * Read the explicit mapping of names to user IDs sent as a form field
+ */
+const parseMapping = (value: unknown): Record<string, string> | null => {
+  if (value === undefined || value === "") {
+    return {};
+  }
+
+  try {
+    const mapping = JSON.parse(String(value));
+    return mapping &&
+      typeof mapping === "object" &&
+      !Array.isArray(mapping) &&
+      Object.values(mapping).every((id) => typeof id === "string")
+      ? mapping
+      : null;
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Import Chat Controller
+ * Expects a multipart form with the export in the `file` field
+ * @route POST /api/upload/import
+ */
+export const importChat = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    const { conversationId, dateOrder, timeZone = "UTC" } = req.body;
+    const dryRun = req.body.dryRun === "true";
+    const file = (req as Request & { file?: UploadedFile }).file;
+    const userId = req.user._id.toString();
+
+    if (!file) {
+      res.status(400).json({
+        success: false,
+        message: "Failed to import chat: No file uploaded",
+      });
+      return;
+    }
+
+    const mapping = parseMapping(req.body.participants);
+    if (
+      !mapping ||
+      (dateOrder !== undefined && !isDateOrder(dateOrder)) ||
+      !isValidTimeZone(timeZone)
+    ) {
+      res.status(400).json({
+        success: false,
+        message: "Failed to import chat: Invalid import options",
+      });
+      return;
+    }
+
+    const conversation = await Conversation.findForMember(
+      conversationId,
+      userId
+    );
+    if (!conversation) {
+      res.status(404).json({
+        success: false,
+        message: "Conversation not found",
+      });
+      return;
+    }
+
+    // Imported messages speak for other members, in groups only
+    // the people managing it may add them
+    if (
+      conversation.type === "group" &&
+      !conversation.hasRole(userId, ["owner", "admin"])
+    ) {
+      res.status(403).json({
+        success: false,
+        message: "Only owners and admins can import into a group",
+      });
+      return;
+    }
+
+    const parsed = parseChatImport(file.buffer.toString("utf8"), {
+      dateOrder,
+      timeZone,
+    });
+    if (parsed.messages.length > chatConfig.maxImportMessages) {
+      res.status(400).json({
+        success: false,
+        message: `Failed to import chat: An import cannot exceed ${chatConfig.maxImportMessages} messages`,
+      });
+      return;
+    }
+
+    await conversation.populate("members.user", "username");
+    const members = conversation.memberIds().map((id, index) => ({
+      id,
+      username:
+        (conversation.members[index].user as unknown as { username?: string })
+          ?.username ?? "",
+    }));
+
+    const invalid = Object.entries(mapping).find(
+      ([, id]) => !members.some((member) => member.id === id)
+    );
+    if (invalid) {
+      res.status(400).json({
+        success: false,
+        message: `Failed to import chat: ${invalid[0]} is mapped to someone who is not a member`,
+      });
+      return;
+    }
+
+    // Names in the file match usernames regardless of case
+    const participants = new Map<string, ImportParticipant>();
+    for (const message of parsed.messages) {
+      const participant = participants.get(message.author);
+      if (participant) {
+        participant.messageCount++;
+        continue;
+      }
+
+      const member = mapping[message.author]
+        ? members.find((m) => m.id === mapping[message.author])
+        : members.find(
+            (m) => m.username.toLowerCase() === message.author.toLowerCase()
+          );
+      participants.set(message.author, {
+        name: message.author,
+        userId: member?.id ?? null,
+        username: member?.username ?? null,
+        messageCount: 1,
+      });
+    }
+
+    const unmapped = [...participants.values()].filter(
+      (participant) => !participant.userId
+    );
+    if (!dryRun && unmapped.length) {
+      res.status(400).json({
+        success: false,
+        message: `Failed to import chat: No member found for ${unmapped
+          .map((participant) => participant.name)
+          .join(", ")}`,
+      });
+      return;
+    }
+
+    const mapped = parsed.messages.flatMap((message) => {
+      const sender = participants.get(message.author)?.userId;
+      return sender ? [{ ...message, sender }] : [];
+    });
+    const result = await Message.importMessages(
+      conversation,
+      mapped.map((message) => ({
+        sender: message.sender,
+        content: message.content,
+        messageType: message.messageType,
+        attachments: message.attachments,
+        createdAt: message.sentAt,
+      })),
+      { dryRun }
+    );
+
+    const issues: ImportIssue[] = [
+      ...parsed.issues,
+      ...result.rejected.map(({ index, reason }) =>
+        importIssue(mapped[index].line, mapped[index].content, reason)
+      ),
+    ].sort((a, b) => a.line - b.line);
+
+    logger.info("Chat import:", {
+      conversationId,
+      userId,
+      dryRun,
+      count: result.count,
+      issues: issues.length,
+    });
+
+    res.status(dryRun ? 200 : 201).json({
+      success: true,
+      data: {
+        dryRun,
+        source: parsed.source,
+        dateOrder: parsed.dateOrder,
+        participants: [...participants.values()],
+        messageCount: result.count,
+        firstMessageAt: mapped[0]?.sentAt ?? null,
+        lastMessageAt: mapped[mapped.length - 1]?.sentAt ?? null,
+        issues,
+      },
+    });
+  } catch (error) {
+    logger.error("Error in importChat:", error);
+    res.status(500).json({
+      success: false,
+      message: "Failed to import chat: Server error",
+    });
+  }
+};
@@ -0,0 +1,134 @@
+/**
+ * @file poll.controller.ts
+ * @description Poll controller
+ *
+ * Polls are sent like any other message, with messageType "poll". This
+ * controller records votes and closes polls; every change pushes the new
+ * tally to the conversation with a `pollUpdated` event.
+ */
+
+import { Request, Response } from "express";
+import { Message } from "../models/Message";
+import { logger } from "../utils/logger";
+import { emitToConversation } from "../config/socket";
+
+/**
+ * Vote Controller
+ * Replaces the caller's previous vote, an empty list withdraws it
+ * @route PUT /api/chat/messages/:messageId/poll/vote
+ */
+export const votePoll = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { messageId } = req.params;
+    const { optionIds } = req.body;
+    const userId = req.user._id.toString();
+
+    const found = await Message.findForParticipant(messageId, userId);
+
+    if (!found || found.message.messageType !== "poll") {
+      res.status(404).json({
+        success: false,
+        message: "Poll not found",
+      });
+      return;
+    }
+
+    const { message, conversation } = found;
+    if (!message.isValidPollChoice(optionIds)) {
+      res.status(400).json({
+        success: false,
+        message: "Failed to vote: Invalid options",
+      });
+      return;
+    }
+
+    if (!message.isPollOpen() || !(await message.vote(userId, optionIds))) {
+      res.status(400).json({
+        success: false,
+        message: "Failed to vote: Poll is closed",
+      });
+      return;
+    }
+
+    const payload = {
+      messageId,
+      conversationId: conversation._id,
+      poll: message.poll,
+    };
+
+    if (req.io) {
+      emitToConversation(req.io, conversation, "pollUpdated", payload);
+    }
+
+    res.json({
+      success: true,
+      data: { ...payload, options: optionIds },
+    });
+  } catch (error) {
+    logger.error("Error in votePoll:", error);
+    res.status(500).json({
+      success: false,
+      message: "Failed to vote: Server error",
+    });
+  }
+};
+
+/**
+ * Close Poll Controller
+ * Only the creator may close a poll before its close time
+ * @route POST /api/chat/messages/:messageId/poll/close
+ */
+export const closePoll = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { messageId } = req.params;
+    const userId = req.user._id.toString();
+
+    const found = await Message.findForParticipant(messageId, userId);
+
+    if (!found || found.message.messageType !== "poll") {
+      res.status(404).json({
+        success: false,
+        message: "Poll not found",
+      });
+      return;
+    }
+
+    const { message, conversation } = found;
+    if (message.sender.toString() !== userId) {
+      res.status(403).json({
+        success: false,
+        message: "Only the creator can close this poll",
+      });
+      return;
+    }
+
+    if (!message.isPollOpen() || !(await message.closePoll())) {
+      res.status(400).json({
+        success: false,
+        message: "Poll is already closed",
+      });
+      return;
+    }
+
+    const payload = {
+      messageId,
+      conversationId: conversation._id,
+      poll: message.poll,
+    };
+
+    if (req.io) {
+      emitToConversation(req.io, conversation, "pollUpdated", payload);
+    }
+
+    res.json({
+      success: true,
+      data: payload,
+    });
+  } catch (error) {
+    logger.error("Error in closePoll:", error);
+    res.status(500).json({
+      success: false,
+      message: "Failed to close poll: Server error",
+    });
+  }
+};
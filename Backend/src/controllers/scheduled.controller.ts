@@ -0,0 +1,344 @@
+/**
+ * @file scheduled.controller.ts
+ * @description Scheduled message controller
+ *
+ * This controller lets users schedule messages for later, list them, and
+ * change or cancel them until the scheduler picks them up.
+ */
+
+import { Request, Response } from "express";
+import mongoose from "mongoose";
+import { Conversation } from "../models/Conversation";
+import {
+  ScheduledMessage,
+  ScheduledMessageChanges,
+  ScheduledMessageStatus,
+} from "../models/ScheduledMessage";
+import { logger } from "../utils/logger";
+import { chatConfig } from "../config/chat";
+import { isValidTimeZone, zonedTimeToUtc } from "../utils/timezone";
+import { hasMarkdownContent } from "../utils/markdown";
+
+const STATUSES: ScheduledMessageStatus[] = [
+  "pending",
+  "sending",
+  "sent",
+  "failed",
+  "cancelled",
+];
+
+/**
+ * Resolve the send time of a request
+ * Accepts either an absolute `sendAt` timestamp, or a `localTime` such as
+ * "2024-05-01T09:00" read in `timeZone`. Returns an error message when the
+ * time is invalid or not in the future.
+ */
+const resolveSendAt = (
+  body: { sendAt?: unknown; localTime?: unknown },
+  timeZone: string
+): { sendAt: Date } | { error: string } => {
+  let sendAt: Date | null = null;
+
+  if (body.localTime !== undefined) {
+    sendAt =
+      typeof body.localTime === "string"
+        ? zonedTimeToUtc(body.localTime, timeZone)
+        : null;
+  } else if (typeof body.sendAt === "string") {
+    sendAt = new Date(body.sendAt);
+  }
+
+  if (!sendAt || isNaN(sendAt.getTime())) {
+    return { error: "Invalid send time" };
+  }
+  if (sendAt.getTime() <= Date.now()) {
+    return { error: "Send time must be in the future" };
+  }
+
+  return { sendAt };
+};
+
+/**
+ * Schedule Message Controller
+ * @route POST /api/chat/scheduled
+ */
+export const scheduleMessage = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    const {
+      conversationId,
+      receiverId,
+      content,
+      messageType = "text",
+      timeZone = "UTC",
+    } = req.body;
+    const senderId = req.user._id.toString();
+
+    // Images and files carry an upload, which cannot wait to be sent
+    if (messageType !== "text") {
+      res.status(400).json({
+        success: false,
+        message: "Failed to schedule message: Invalid message type",
+      });
+      return;
+    }
+
+    if (!hasMarkdownContent(content)) {
+      res.status(400).json({
+        success: false,
+        message: "Failed to schedule message: Content is required",
+      });
+      return;
+    }
+
+    if (!isValidTimeZone(timeZone)) {
+      res.status(400).json({
+        success: false,
+        message: "Failed to schedule message: Invalid timezone",
+      });
+      return;
+    }
+
+    const resolved = resolveSendAt(req.body, timeZone);
+    if ("error" in resolved) {
+      res.status(400).json({
+        success: false,
+        message: `Failed to schedule message: ${resolved.error}`,
+      });
+      return;
+    }
+
+    const conversation = await Conversation.resolveTarget(
+      senderId,
+      { conversationId, receiverId },
+      { create: true }
+    );
+    if (!conversation) {
+      res.status(404).json({
+        success: false,
+        message: "Failed to schedule message: Invalid recipient",
+      });
+      return;
+    }
+
+    const pending = await ScheduledMessage.countDocuments({
+      sender: senderId,
+      status: "pending",
+    });
+    if (pending >= chatConfig.maxScheduledMessages) {
+      res.status(409).json({
+        success: false,
+        message: `Failed to schedule message: At most ${chatConfig.maxScheduledMessages} messages can be scheduled`,
+      });
+      return;
+    }
+
+    const job = await ScheduledMessage.create({
+      sender: senderId,
+      conversation: conversation._id,
+      content,
+      messageType,
+      sendAt: resolved.sendAt,
+      timeZone,
+    });
+
+    res.status(201).json({
+      success: true,
+      data: job,
+    });
+  } catch (error) {
+    logger.error("Error in scheduleMessage:", error);
+    res.status(500).json({
+      success: false,
+      message: "Failed to schedule message: Server error",
+    });
+  }
+};
+
+/**
+ * Get Scheduled Messages Controller
+ * Lists the caller's scheduled messages, soonest first
+ * @route GET /api/chat/scheduled
+ */
+export const getScheduledMessages = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    const { status = "pending", conversationId } = req.query;
+    const senderId = req.user._id.toString();
+
+    if (!STATUSES.includes(status as ScheduledMessageStatus)) {
+      res.status(400).json({
+        success: false,
+        message: "Failed to get scheduled messages: Invalid status",
+      });
+      return;
+    }
+
+    if (conversationId && !mongoose.isValidObjectId(conversationId)) {
+      res.status(400).json({
+        success: false,
+        message: "Failed to get scheduled messages: Invalid conversation ID",
+      });
+      return;
+    }
+
+    const jobs = await ScheduledMessage.find({
+      sender: senderId,
+      status,
+      ...(conversationId && { conversation: conversationId }),
+    })
+      .sort({ sendAt: 1 })
+      .select("-lockedBy -lockedUntil");
+
+    res.status(200).json({
+      success: true,
+      data: jobs,
+    });
+  } catch (error) {
+    logger.error("Error in getScheduledMessages:", error);
+    res.status(500).json({
+      success: false,
+      message: "Failed to get scheduled messages: Server error",
+    });
+  }
+};
+
+/**
+ * Update Scheduled Message Controller
+ * Only messages that have not started sending can change. A new local time
+ * without a timezone is read in the timezone the message was scheduled in.
+ * @route PATCH /api/chat/scheduled/:jobId
+ */
+export const updateScheduledMessage = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    const { jobId } = req.params;
+    const { content, sendAt, localTime, timeZone } = req.body;
+    const senderId = req.user._id.toString();
+
+    const job = mongoose.isValidObjectId(jobId)
+      ? await ScheduledMessage.findOne({
+          _id: jobId,
+          sender: senderId,
+          status: "pending",
+        })
+      : null;
+    if (!job) {
+      res.status(404).json({
+        success: false,
+        message:
+          "Failed to update scheduled message: Not found or already sent",
+      });
+      return;
+    }
+
+    if (timeZone !== undefined && !isValidTimeZone(timeZone)) {
+      res.status(400).json({
+        success: false,
+        message: "Failed to update scheduled message: Invalid timezone",
+      });
+      return;
+    }
+
+    const changes: ScheduledMessageChanges = {};
+
+    if (content !== undefined) {
+      if (!hasMarkdownContent(content)) {
+        res.status(400).json({
+          success: false,
+          message: "Failed to update scheduled message: Content is required",
+        });
+        return;
+      }
+      changes.content = content;
+    }
+
+    if (timeZone !== undefined) {
+      changes.timeZone = timeZone;
+    }
+
+    if (sendAt !== undefined || localTime !== undefined) {
+      const resolved = resolveSendAt(
+        { sendAt, localTime },
+        timeZone ?? job.timeZone
+      );
+      if ("error" in resolved) {
+        res.status(400).json({
+          success: false,
+          message: `Failed to update scheduled message: ${resolved.error}`,
+        });
+        return;
+      }
+      changes.sendAt = resolved.sendAt;
+    }
+
+    // Conditional on the job still being pending, it may have been claimed
+    const updated = await ScheduledMessage.updatePending(
+      jobId,
+      senderId,
+      changes
+    );
+    if (!updated) {
+      res.status(404).json({
+        success: false,
+        message:
+          "Failed to update scheduled message: Not found or already sent",
+      });
+      return;
+    }
+
+    res.status(200).json({
+      success: true,
+      data: updated,
+    });
+  } catch (error) {
+    logger.error("Error in updateScheduledMessage:", error);
+    res.status(500).json({
+      success: false,
+      message: "Failed to update scheduled message: Server error",
+    });
+  }
+};
+
+/**
+ * Cancel Scheduled Message Controller
+ * @route DELETE /api/chat/scheduled/:jobId
+ */
+export const cancelScheduledMessage = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    const { jobId } = req.params;
+    const senderId = req.user._id.toString();
+
+    const cancelled = await ScheduledMessage.updatePending(jobId, senderId, {
+      status: "cancelled",
+    });
+    if (!cancelled) {
+      res.status(404).json({
+        success: false,
+        message:
+          "Failed to cancel scheduled message: Not found or already sent",
+      });
+      return;
+    }
+
+    res.status(200).json({
+      success: true,
+      data: cancelled,
+    });
+  } catch (error) {
+    logger.error("Error in cancelScheduledMessage:", error);
+    res.status(500).json({
+      success: false,
+      message: "Failed to cancel scheduled message: Server error",
+    });
+  }
+};
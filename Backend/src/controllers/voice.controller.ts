@@ -0,0 +1,166 @@
+/**
+ * @file voice.controller.ts
+ * @description Voice note controller
+ *
+ * Voice notes are short PCM WAV recordings. The server measures each upload
+ * itself, so the duration limit and the waveform shown to other members do
+ * not depend on what the client claims about the file.
+ */
+
+import { Request, Response } from "express";
+import { Message, MESSAGE_POPULATE } from "../models/Message";
+import { Conversation } from "../models/Conversation";
+import { logger } from "../utils/logger";
+import { chatConfig } from "../config/chat";
+import { dispatchMessage } from "../config/socket";
+import { parseWav } from "../utils/wav";
+import { storage } from "../storage";
+
+/**
+ * Content of voice notes, shown in previews and notifications
+ */
+const VOICE_NOTE_CONTENT = "Voice message";
+
+/**
+ * Recording received by the upload middleware
+ */
+interface UploadedFile {
+  buffer: Buffer;
+  size: number;
+}
+
+/**
+ * Send Voice Note Controller
+ * Expects a multipart form with the recording in the `audio` field
+ * @route POST /api/upload/voice-note
+ */
+export const sendVoiceNote = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    const { conversationId, receiverId, replyTo, clientMessageId } = req.body;
+    const file = (req as Request & { file?: UploadedFile }).file;
+    const senderId = req.user._id.toString();
+
+    if (!file) {
+      res.status(400).json({
+        success: false,
+        message: "Failed to send voice note: No recording uploaded",
+      });
+      return;
+    }
+
+    if (
+      clientMessageId !== undefined &&
+      (typeof clientMessageId !== "string" || !clientMessageId.trim())
+    ) {
+      res.status(400).json({
+        success: false,
+        message: "Failed to send voice note: Invalid client message ID",
+      });
+      return;
+    }
+
+    // The bytes decide the type, whatever the browser declared
+    const wav = parseWav(file.buffer);
+    if (!wav) {
+      res.status(415).json({
+        success: false,
+        message: "Failed to send voice note: Recording must be a PCM WAV file",
+      });
+      return;
+    }
+
+    if (wav.duration > chatConfig.maxVoiceNoteSeconds) {
+      res.status(400).json({
+        success: false,
+        message: `Failed to send voice note: Recording cannot exceed ${chatConfig.maxVoiceNoteSeconds} seconds`,
+      });
+      return;
+    }
+
+    const conversation = await Conversation.resolveTarget(
+      senderId,
+      { conversationId, receiverId },
+      { create: !replyTo }
+    );
+    if (!conversation) {
+      res.status(404).json({
+        success: false,
+        message: "Failed to send voice note: Invalid recipient",
+      });
+      return;
+    }
+
+    const replyToId =
+      replyTo &&
+      (await Message.findReplyTarget(replyTo, conversation._id.toString()));
+    if (replyTo && !replyToId) {
+      res.status(400).json({
+        success: false,
+        message: "Failed to send voice note: Quoted message not found",
+      });
+      return;
+    }
+
+    // Resending a voice note that already arrived stores nothing new
+    const sent =
+      clientMessageId &&
+      (await Message.findByClientId(senderId, clientMessageId));
+    if (sent) {
+      await sent.populate(MESSAGE_POPULATE);
+      res.status(200).json({
+        success: true,
+        data: sent,
+      });
+      return;
+    }
+
+    const stored = await storage.save(file.buffer, {
+      folder: "voice-notes",
+      mimeType: "audio/wav",
+      extension: ".wav",
+    });
+
+    const { message, created } = await dispatchMessage(
+      req.io,
+      conversation,
+      {
+        sender: senderId,
+        content: VOICE_NOTE_CONTENT,
+        messageType: "audio",
+        replyTo: replyToId || undefined,
+        clientMessageId,
+        attachments: [stored.url],
+        storageKeys: [stored.key],
+        audio: {
+          duration: Math.round(wav.duration * 10) / 10,
+          waveform: wav.waveform,
+        },
+      },
+      senderId
+    ).catch(async (error) => {
+      await storage.remove(stored.key).catch((removeError) => {
+        logger.error("Error removing unsent voice note:", removeError);
+      });
+      throw error;
+    });
+
+    // Another request with the same client ID got there first
+    if (!created) {
+      await storage.remove(stored.key);
+    }
+
+    res.status(created ? 201 : 200).json({
+      success: true,
+      data: message,
+    });
+  } catch (error) {
+    logger.error("Error in sendVoiceNote:", error);
+    res.status(500).json({
+      success: false,
+      message: "Failed to send voice note: Server error",
+    });
+  }
+};
@@ -0,0 +1,426 @@
+/**
+ * @file Conversation.ts
+ * @description Conversation model for the chat application
+ *
+ * This file defines the MongoDB Conversation schema and model with TypeScript integration.
+ * A conversation owns its member list, so both 1:1 chats and group channels are
+ * represented the same way: direct chats are simply two-member conversations.
+ */
+
+import mongoose, { Document, Schema, Types } from "mongoose";
+
+export type ConversationRole = "owner" | "admin" | "member";
+
+/**
+ * Timers for disappearing messages, in seconds
+ */
+export const MESSAGE_TTL_OPTIONS = {
+  "1h": 60 * 60,
+  "1d": 24 * 60 * 60,
+  "7d": 7 * 24 * 60 * 60,
+} as const;
+
+export type MessageTtl = keyof typeof MESSAGE_TTL_OPTIONS;
+
+/**
+ * Conversation Member Definition
+ * Embedded in the conversation so membership checks need a single lookup
+ */
+export interface IConversationMember {
+  user: Types.ObjectId;
+  role: ConversationRole;
+  joinedAt: Date;
+}
+
+/**
+ * Conversation Interface Definition
+ * @extends Document to inherit MongoDB document functionality
+ */
+export interface IConversation extends Document<Types.ObjectId> {
+  type: "direct" | "group";
+  title?: string;
+  avatar?: string;
+  members: IConversationMember[];
+  createdBy: Types.ObjectId;
+  lastMessageAt: Date;
+  messageTtl: number | null; // Seconds until new messages disappear
+  directKey?: string; // Sorted member IDs, direct conversations only
+  isMember: (userId: string) => boolean;
+  getRole: (userId: string) => ConversationRole | null;
+  hasRole: (userId: string, roles: ConversationRole[]) => boolean;
+  memberIds: () => string[];
+  getDirectReceiver: (senderId: string) => string | undefined;
+}
+
+/**
+ * Static methods interface
+ */
+interface IConversationModel extends mongoose.Model<IConversation> {
+  findDirect(user1Id: string, user2Id: string): Promise<IConversation | null>;
+  findOrCreateDirect(user1Id: string, user2Id: string): Promise<IConversation>;
+  findForMember(
+    conversationId: string,
+    userId: string
+  ): Promise<IConversation | null>;
+  getIdsForUser(userId: string): Promise<Types.ObjectId[]>;
+  getMessageTtl(conversationId: Types.ObjectId): Promise<number | null>;
+  resolveTarget(
+    userId: string,
+    target: { conversationId?: string; receiverId?: string },
+    options?: { create?: boolean }
+  ): Promise<IConversation | null>;
+}
+
+const memberSchema = new Schema<IConversationMember>(
+  {
+    user: {
+      type: Schema.Types.ObjectId,
+      ref: "User",
+      required: [true, "Member user is required"],
+    },
+
+    role: {
+      type: String,
+      enum: ["owner", "admin", "member"],
+      default: "member",
+    },
+
+    joinedAt: {
+      type: Date,
+      default: Date.now,
+    },
+  },
+  { _id: false }
+);
+
+/**
+ * MongoDB Schema Definition for Conversation
+ *
+ * Features:
+ * 1. Embedded member list with owner/admin/member roles
+ * 2. Title and avatar for group conversations
+ * 3. Last activity timestamp for inbox ordering
+ * 4. Optional timer for disappearing messages
+ */
+const conversationSchema = new Schema<IConversation, IConversationModel>(
+  {
+    type: {
+      type: String,
+      enum: ["direct", "group"],
+      default: "group",
+    },
+
+    title: {
+      type: String,
+      trim: true,
+      maxlength: [100, "Title cannot exceed 100 characters"],
+      // Only used for group conversations, direct chats show the other member
+    },
+
+    avatar: {
+      type: String,
+    },
+
+    members: {
+      type: [memberSchema],
+      validate: {
+        validator: (members: IConversationMember[]) => members.length >= 2,
+        message: "A conversation needs at least two members",
+      },
+    },
+
+    createdBy: {
+      type: Schema.Types.ObjectId,
+      ref: "User",
+      required: [true, "Creator is required"],
+    },
+
+    lastMessageAt: {
+      type: Date,
+      default: Date.now,
+    },
+
+    messageTtl: {
+      type: Number,
+      default: null,
+      validate: {
+        validator: (ttl: number | null) =>
+          ttl === null ||
+          Object.values(MESSAGE_TTL_OPTIONS).some((option) => option === ttl),
+        message: "Unsupported disappearing messages timer",
+      },
+      // Off when null, otherwise messages expire this many seconds after sending
+    },
+
+    directKey: {
+      type: String,
+      // Set on direct conversations so each pair of users has only one
+    },
+  },
+  {
+    timestamps: true, // Adds createdAt and updatedAt
+  }
+);
+
+/**
+ * Indexes for query optimization
+ */
+conversationSchema.index({ "members.user": 1, lastMessageAt: -1 });
+conversationSchema.index(
+  { directKey: 1 },
+  {
+    unique: true,
+    partialFilterExpression: { directKey: { $type: "string" } },
+  }
+);
+
+/**
+ * Key identifying the direct conversation of two users, in either order
+ */
+const directKeyOf = (user1Id: string, user2Id: string): string =>
+  [user1Id.toString(), user2Id.toString()].sort().join(":");
+
+/**
+ * Member user ID as a string, whether or not members were populated
+ */
+const memberUserId = (member: IConversationMember): string =>
+  String(member.user?._id ?? member.user);
+
+/**
+ * Instance Methods
+ */
+
+/**
+ * Check whether a user belongs to the conversation
+ */
+conversationSchema.methods.isMember = function (userId: string): boolean {
+  return this.members.some(
+    (member: IConversationMember) => memberUserId(member) === userId.toString()
+  );
+};
+
+/**
+ * Get the role of a member, or null if the user is not a member
+ */
+conversationSchema.methods.getRole = function (
+  userId: string
+): ConversationRole | null {
+  const member = this.members.find(
+    (m: IConversationMember) => memberUserId(m) === userId.toString()
+  );
+  return member ? member.role : null;
+};
+
+/**
+ * Check whether a member holds one of the given roles
+ */
+conversationSchema.methods.hasRole = function (
+  userId: string,
+  roles: ConversationRole[]
+): boolean {
+  const role = this.getRole(userId);
+  return role !== null && roles.includes(role);
+};
+
+/**
+ * Member IDs as strings, used as socket room names for fan-out
+ */
+conversationSchema.methods.memberIds = function (): string[] {
+  return this.members.map(memberUserId);
+};
+
+/**
+ * The other member of a direct conversation, undefined for groups
+ */
+conversationSchema.methods.getDirectReceiver = function (
+  senderId: string
+): string | undefined {
+  if (this.type !== "direct") {
+    return undefined;
+  }
+  return this.memberIds().find((id: string) => id !== senderId.toString());
+};
+
+/**
+ * Static Methods
+ */
+
+/**
+ * Find the direct conversation between two users
+ */
+conversationSchema.statics.findDirect = async function (
+  user1Id: string,
+  user2Id: string
+): Promise<IConversation | null> {
+  return this.findOne({
+    type: "direct",
+    members: { $size: 2 },
+    "members.user": { $all: [user1Id, user2Id] },
+  });
+};
+
+/**
+ * Find or create the direct conversation between two users
+ * Legacy 1:1 messages sent before conversations existed are attached
+ * to the conversation when it is first created. The unique direct key
+ * settles concurrent first messages, the losing request reads the
+ * conversation the other one created.
+ */
+conversationSchema.statics.findOrCreateDirect = async function (
+  user1Id: string,
+  user2Id: string
+): Promise<IConversation> {
+  const existing = await this.findDirect(user1Id, user2Id);
+  if (existing) {
+    return existing;
+  }
+
+  let conversation: IConversation;
+  try {
+    conversation = await this.create({
+      type: "direct",
+      members: [
+        { user: user1Id, role: "member" },
+        { user: user2Id, role: "member" },
+      ],
+      createdBy: user1Id,
+      directKey: directKeyOf(user1Id, user2Id),
+    });
+  } catch (error) {
+    const created =
+      (error as { code?: number }).code === 11000
+        ? await this.findDirect(user1Id, user2Id)
+        : null;
+    if (!created) {
+      throw error;
+    }
+    return created;
+  }
+
+  await mongoose.model("Message").updateMany(
+    {
+      conversation: { $exists: false },
+      $or: [
+        { sender: user1Id, receiver: user2Id },
+        { sender: user2Id, receiver: user1Id },
+      ],
+    },
+    [
+      {
+        $set: {
+          conversation: conversation._id,
+          readBy: {
+            $cond: [{ $eq: ["$status", "read"] }, ["$receiver"], []],
+          },
+        },
+      },
+    ]
+  );
+
+  return conversation;
+};
+
+/**
+ * Find a conversation only if the user is one of its members
+ */
+conversationSchema.statics.findForMember = async function (
+  conversationId: string,
+  userId: string
+): Promise<IConversation | null> {
+  if (!mongoose.isValidObjectId(conversationId)) {
+    return null;
+  }
+
+  return this.findOne({ _id: conversationId, "members.user": userId });
+};
+
+/**
+ * Get the IDs of every conversation a user belongs to
+ */
+conversationSchema.statics.getIdsForUser = async function (
+  userId: string
+): Promise<Types.ObjectId[]> {
+  const conversations = await this.find({ "members.user": userId }).select(
+    "_id"
+  );
+  return conversations.map((c) => c._id);
+};
+
+/**
+ * Get the disappearing messages timer of a conversation, null when off
+ */
+conversationSchema.statics.getMessageTtl = async function (
+  conversationId: Types.ObjectId
+): Promise<number | null> {
+  const conversation = await this.findById(conversationId)
+    .select("messageTtl")
+    .lean();
+  return conversation?.messageTtl ?? null;
+};
+
+/**
+ * Resolve the conversation a message is addressed to
+ * Accepts either a conversation ID the user belongs to, or a receiver ID
+ * whose direct conversation is looked up. It is only created, with the
+ * create option, once there is something valid to put in it.
+ */
+conversationSchema.statics.resolveTarget = async function (
+  userId: string,
+  target: { conversationId?: string; receiverId?: string },
+  { create = false }: { create?: boolean } = {}
+): Promise<IConversation | null> {
+  if (target.conversationId) {
+    return this.findForMember(target.conversationId, userId);
+  }
+
+  if (
+    !target.receiverId ||
+    !mongoose.isValidObjectId(target.receiverId) ||
+    target.receiverId.toString() === userId.toString()
+  ) {
+    return null;
+  }
+
+  if (!create) {
+    return this.findDirect(userId, target.receiverId);
+  }
+
+  const receiverExists = await mongoose
+    .model("User")
+    .exists({ _id: target.receiverId });
+  if (!receiverExists) {
+    return null;
+  }
+
+  return this.findOrCreateDirect(userId, target.receiverId);
+};
+
+/**
+ * Create and export the Conversation model
+ */
+export const Conversation = mongoose.model<IConversation, IConversationModel>(
+  "Conversation",
+  conversationSchema
+);
+
+/**
+ * Usage Examples:
+ *
+ * 1. Create a group:
+ * const conversation = await Conversation.create({
+ *   type: 'group',
+ *   title: 'Project X',
+ *   members: [{ user: ownerId, role: 'owner' }, { user: memberId }],
+ *   createdBy: ownerId
+ * });
+ *
+ * 2. Open a direct chat:
+ * const conversation = await Conversation.findOrCreateDirect(user1Id, user2Id);
+ *
+ * 3. Check access:
+ * const conversation = await Conversation.findForMember(conversationId, userId);
+ *
+ * 4. Address a message, opening the direct chat if it is the first one:
+ * const conversation = await Conversation.resolveTarget(senderId,
+ *   { receiverId }, { create: true });
+ */
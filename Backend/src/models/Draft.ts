@@ -0,0 +1,119 @@
+/**
+ * @file Draft.ts
+ * @description Draft model for the chat application
+ *
+ * A draft is the unsent text of a user's composer in one conversation. It is
+ * stored on the server so it follows the user across reloads and devices.
+ */
+
+import mongoose, { Document, Schema, Types } from "mongoose";
+
+/**
+ * Draft Interface Definition
+ * @extends Document to inherit MongoDB document functionality
+ */
+export interface IDraft extends Document<Types.ObjectId> {
+  user: Types.ObjectId;
+  conversation: Types.ObjectId;
+  content: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * Static methods interface
+ */
+interface IDraftModel extends mongoose.Model<IDraft> {
+  saveFor(
+    userId: string,
+    conversationId: Types.ObjectId,
+    content: string
+  ): Promise<IDraft>;
+  clear(userId: string, conversationId: Types.ObjectId): Promise<boolean>;
+}
+
+/**
+ * MongoDB Schema Definition for Draft
+ *
+ * Features:
+ * 1. One draft per user and conversation
+ * 2. Last change time, so clients can tell which draft is newer
+ */
+const draftSchema = new Schema<IDraft, IDraftModel>(
+  {
+    user: {
+      type: Schema.Types.ObjectId,
+      ref: "User",
+      required: [true, "User is required"],
+    },
+
+    conversation: {
+      type: Schema.Types.ObjectId,
+      ref: "Conversation",
+      required: [true, "Conversation is required"],
+    },
+
+    content: {
+      type: String,
+      required: [true, "Draft content is required"],
+      maxlength: [5000, "Draft cannot exceed 5000 characters"],
+      // Not trimmed, the composer is restored exactly as it was left
+    },
+  },
+  {
+    timestamps: true, // Adds createdAt and updatedAt
+  }
+);
+
+/**
+ * Indexes for query optimization
+ */
+draftSchema.index({ user: 1, conversation: 1 }, { unique: true });
+
+/**
+ * Static Methods
+ */
+
+/**
+ * Create or replace the draft of a user in a conversation
+ */
+draftSchema.statics.saveFor = async function (
+  userId: string,
+  conversationId: Types.ObjectId,
+  content: string
+): Promise<IDraft> {
+  return this.findOneAndUpdate(
+    { user: userId, conversation: conversationId },
+    { $set: { content } },
+    { upsert: true, new: true, runValidators: true }
+  );
+};
+
+/**
+ * Delete the draft of a user in a conversation, true if there was one
+ */
+draftSchema.statics.clear = async function (
+  userId: string,
+  conversationId: Types.ObjectId
+): Promise<boolean> {
+  const { deletedCount } = await this.deleteOne({
+    user: userId,
+    conversation: conversationId,
+  });
+  return deletedCount > 0;
+};
+
+/**
+ * Create and export the Draft model
+ */
+export const Draft = mongoose.model<IDraft, IDraftModel>("Draft", draftSchema);
+
+/**
+ * Usage Examples:
+ *
+ * 1. Save the composer text:
+ * await Draft.saveFor(userId, conversationId, 'Half written mess');
+ *
+ * 2. Clear it once the message is sent:
+ * await Draft.clear(userId, conversationId);
+ */
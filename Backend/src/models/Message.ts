@@ -3,27 +3,469 @@
  * @description Message model for the chat application
  *
  * This file defines the MongoDB Message schema and model with TypeScript integration.
- * It includes relationships with the User model and message status tracking.
+ * It includes relationships with the User and Conversation models and message status tracking.
  */
 
-import mongoose, { Document, Schema } from "mongoose";
+import mongoose, { Document, PopulateOptions, Schema, Types } from "mongoose";
 import { IUser } from "./User";
+import { Conversation, IConversation } from "./Conversation";
+import { Cursor, cursorFilter, encodeCursor } from "../utils/pagination";
+import { Snippet, buildSnippet, parseSearchTerms } from "../utils/search";
+import { sanitizeMarkdown } from "../utils/markdown";
+import { IMAGE_VARIANTS, ImageVariantName } from "../utils/image";
+import { chatConfig } from "../config/chat";
+import { storage } from "../storage";
+import { logger } from "../utils/logger";
+
+/**
+ * Users who reacted to a message with the same emoji
+ */
+export interface IMessageReaction {
+  emoji: string;
+  users: Types.ObjectId[];
+}
+
+/**
+ * A reaction must be a short emoji sequence, not arbitrary text
+ */
+export const isValidReactionEmoji = (emoji: unknown): emoji is string =>
+  typeof emoji === "string" &&
+  emoji.length <= 16 &&
+  !/\s/.test(emoji) &&
+  /\p{Extended_Pictographic}/u.test(emoji);
+
+/**
+ * Content left behind when a message is deleted for everyone
+ */
+export const DELETED_MESSAGE_CONTENT = "This message was deleted";
+
+/**
+ * Characters of a quoted message included in a reply preview
+ */
+const REPLY_PREVIEW_LENGTH = 100;
+
+/**
+ * Messages read from the database at a time while exporting, and written
+ * at a time while importing
+ */
+const EXPORT_BATCH_SIZE = 200;
+const IMPORT_BATCH_SIZE = 500;
+
+/**
+ * How long after expiring a message is removed by the TTL index
+ */
+const EXPIRY_BACKSTOP_SECONDS = 60 * 60;
+
+/**
+ * When a member's device acknowledged receiving a message
+ */
+export interface IMessageDelivery {
+  user: Types.ObjectId;
+  deliveredAt: Date;
+}
+
+/**
+ * A user's private bookmark of a message
+ */
+export interface IMessageStar {
+  user: Types.ObjectId;
+  starredAt: Date;
+}
+
+/**
+ * Where a forwarded message was copied from
+ */
+export interface IMessageForward {
+  message: Types.ObjectId;
+  sender: Types.ObjectId; // Author of the original, kept across re-forwards
+}
+
+/**
+ * An answer of a poll and its tally
+ */
+export interface IPollOption {
+  _id: Types.ObjectId;
+  text: string;
+  voteCount: number;
+  voters: Types.ObjectId[]; // Always empty in anonymous polls
+}
+
+/**
+ * The answers a user currently picks in a poll
+ */
+export interface IPollVote {
+  user: Types.ObjectId;
+  options: Types.ObjectId[];
+  votedAt: Date;
+}
+
+/**
+ * Payload of a poll message, its question is also the message content
+ */
+export interface IMessagePoll {
+  question: string;
+  options: IPollOption[];
+  multipleChoice: boolean;
+  anonymous: boolean;
+  closesAt?: Date;
+  closedAt?: Date; // Set when the creator closes the poll early
+  voterCount: number;
+  votes?: IPollVote[]; // Private, never selected by default
+}
+
+/**
+ * Poll of a message being sent by a client
+ */
+export interface NewPoll {
+  question: string;
+  options: { text: string }[];
+  multipleChoice: boolean;
+  anonymous: boolean;
+  closesAt?: Date;
+}
+
+const POLL_QUESTION_MAX_LENGTH = 300;
+const POLL_OPTION_MAX_LENGTH = 100;
+
+/**
+ * Validate the poll a client wants to send
+ * Returns the poll to store, or why it was rejected.
+ */
+export const parsePoll = (input: unknown): NewPoll | string => {
+  const { question, options, multipleChoice, anonymous, closesAt } = (input ??
+    {}) as Record<string, unknown>;
+
+  if (typeof question !== "string" || !question.trim()) {
+    return "Poll question is required";
+  }
+  if (question.trim().length > POLL_QUESTION_MAX_LENGTH) {
+    return `Poll question cannot exceed ${POLL_QUESTION_MAX_LENGTH} characters`;
+  }
+
+  if (
+    !Array.isArray(options) ||
+    options.length < 2 ||
+    options.length > chatConfig.maxPollOptions
+  ) {
+    return `A poll needs between 2 and ${chatConfig.maxPollOptions} options`;
+  }
+  const texts = options.map((option) =>
+    typeof option === "string" ? option.trim() : ""
+  );
+  if (texts.some((text) => !text || text.length > POLL_OPTION_MAX_LENGTH)) {
+    return `Poll options must be 1 to ${POLL_OPTION_MAX_LENGTH} characters`;
+  }
+  if (new Set(texts.map((text) => text.toLowerCase())).size < texts.length) {
+    return "Poll options must be different";
+  }
+
+  if (
+    (multipleChoice !== undefined && typeof multipleChoice !== "boolean") ||
+    (anonymous !== undefined && typeof anonymous !== "boolean")
+  ) {
+    return "Invalid poll settings";
+  }
+
+  let closeTime: Date | undefined;
+  if (closesAt !== undefined && closesAt !== null) {
+    closeTime = new Date(closesAt as string);
+    if (isNaN(closeTime.getTime()) || closeTime.getTime() <= Date.now()) {
+      return "Poll close time must be in the future";
+    }
+  }
+
+  return {
+    question: question.trim(),
+    options: texts.map((text) => ({ text })),
+    multipleChoice: multipleChoice ?? false,
+    anonymous: anonymous ?? false,
+    closesAt: closeTime,
+  };
+};
+
+/**
+ * Kinds of message, system messages are written by the server
+ */
+export const MESSAGE_TYPES = [
+  "text",
+  "image",
+  "file",
+  "system",
+  "poll",
+  "audio",
+] as const;
+
+export type MessageType = (typeof MESSAGE_TYPES)[number];
+
+/**
+ * Measurements of a voice note, taken from the file on upload
+ */
+export interface IMessageAudio {
+  duration: number; // Seconds
+  waveform: number[]; // Peak level of each bar, 0 to 100
+}
+
+/**
+ * A resized copy of an uploaded image, stored next to the original
+ */
+export interface IMessageImageVariant {
+  name: ImageVariantName;
+  url: string;
+  width: number;
+  height: number;
+}
+
+/**
+ * Details of an uploaded image or file, the file is the attachment
+ */
+export interface IMessageFile {
+  name: string; // As uploaded, shown to members and used for downloads
+  size: number; // Bytes
+  mimeType: string;
+  // Images only, measured when processed on upload
+  width?: number;
+  height?: number;
+  placeholder?: string; // Tiny blurred data URL shown while loading
+  variants?: IMessageImageVariant[];
+}
+
+/**
+ * A previous version of an edited message
+ */
+export interface IMessageEdit {
+  content: string;
+  editedAt: Date;
+}
 
 /**
  * Message Interface Definition
  * @extends Document to inherit MongoDB document functionality
  */
-export interface IMessage extends Document {
-  sender: IUser["_id"];
-  receiver: IUser["_id"];
+export interface IMessage extends Document<Types.ObjectId> {
+  conversation: Types.ObjectId;
+  sender: Types.ObjectId;
+  receiver?: Types.ObjectId; // Only set for direct (1:1) conversations
   content: string;
-  messageType: "text" | "image" | "file";
+  messageType: MessageType;
+  replyTo?: Types.ObjectId; // Quoted message in the same conversation
+  clientMessageId?: string; // Sender generated ID that makes retries idempotent
+  forwardedFrom?: IMessageForward;
+  poll?: IMessagePoll; // Only set on poll messages
+  audio?: IMessageAudio; // Only set on voice notes, the file is the attachment
+  file?: IMessageFile; // Only set on uploaded images and files
   status: "sent" | "delivered" | "read";
+  deliveredAt?: Date;
+  deliveredTo: IMessageDelivery[];
   readAt?: Date;
+  readBy: Types.ObjectId[];
   attachments?: string[];
+  storageKeys?: string[]; // Stored files of the attachments, never selected by default
   deletedFor: IUser["_id"][];
-  markAsRead: () => Promise<void>;
+  isDeletedForEveryone: boolean;
+  deletedAt?: Date;
+  pinnedAt?: Date;
+  pinnedBy?: Types.ObjectId;
+  starredBy?: IMessageStar[]; // Private, never selected by default
+  isEdited: boolean;
+  editedAt?: Date;
+  editHistory: IMessageEdit[];
+  reactions: IMessageReaction[];
+  expiresAt?: Date; // Set in conversations with disappearing messages
+  isImported: boolean; // Taken over from another app, keeps its original time
+  createdAt: Date;
+  updatedAt: Date;
+  markAsRead: (userId: string) => Promise<void>;
   softDelete: (userId: string) => Promise<void>;
+  isUnsendableBy: (userId: string) => boolean;
+  deleteForEveryone: () => Promise<void>;
+  pin: (userId: string) => Promise<boolean>;
+  unpin: () => Promise<boolean>;
+  star: (userId: string) => Promise<void>;
+  unstar: (userId: string) => Promise<void>;
+  isEditableBy: (userId: string) => boolean;
+  editContent: (content: string) => Promise<void>;
+  addReaction: (emoji: string, userId: string) => Promise<void>;
+  removeReaction: (emoji: string, userId: string) => Promise<void>;
+  isPollOpen: () => boolean;
+  isValidPollChoice: (optionIds: unknown) => optionIds is string[];
+  vote: (userId: string, optionIds: string[]) => Promise<boolean>;
+  closePoll: () => Promise<boolean>;
+}
+
+/**
+ * Options and result of a cursor paginated conversation query
+ */
+export interface ConversationPageOptions {
+  before?: Cursor;
+  after?: Cursor;
+  limit?: number;
+  currentUser?: string;
+}
+
+/**
+ * Messages of an export, `from` inclusive and `to` exclusive
+ */
+export interface ExportOptions {
+  from?: Date;
+  to?: Date;
+  currentUser: string;
+}
+
+export interface ThreadPageOptions {
+  after?: Cursor;
+  limit?: number;
+  currentUser?: string;
+}
+
+export interface ThreadPage {
+  replies: IMessage[];
+  hasMore: boolean;
+  cursors: {
+    after: string | null;
+  };
+}
+
+export interface SearchOptions {
+  query: string;
+  conversationId?: string;
+  senderId?: string;
+  from?: Date;
+  to?: Date;
+  messageType?: IMessage["messageType"];
+  before?: Cursor;
+  limit?: number;
+}
+
+/**
+ * Search matches, newest first, each with a highlighted snippet
+ */
+export interface SearchPage {
+  results: { message: IMessage; snippet: Snippet }[];
+  hasMore: boolean;
+  cursors: {
+    before: string | null;
+  };
+}
+
+export interface ChangesPageOptions {
+  since: Date;
+  cursor?: Cursor;
+  limit?: number;
+}
+
+/**
+ * Messages changed since a point in time, for clients catching up after a
+ * reconnect. Messages the user deleted for themselves are only reported by ID.
+ */
+export interface ChangesPage {
+  messages: IMessage[];
+  deleted: { messageId: Types.ObjectId; conversationId: Types.ObjectId }[];
+  hasMore: boolean;
+  cursor: string | null;
+}
+
+/**
+ * The answers the current user picked in a poll
+ */
+export interface PollChoice {
+  _id: Types.ObjectId; // The poll message
+  options: Types.ObjectId[];
+}
+
+export interface ConversationPage {
+  messages: IMessage[];
+  starred: Types.ObjectId[]; // Messages of the page the current user starred
+  pollVotes: PollChoice[]; // The current user's votes in polls of the page
+  hasMore: boolean;
+  cursors: {
+    before: string | null;
+    after: string | null;
+  };
+}
+
+export interface StarredPageOptions {
+  before?: Cursor;
+  limit?: number;
+}
+
+export interface StarredPage {
+  messages: IMessage[];
+  hasMore: boolean;
+  cursors: {
+    before: string | null;
+  };
+}
+
+/**
+ * Fields of a message being sent by a client
+ */
+export interface NewMessage {
+  conversation: Types.ObjectId;
+  sender: string;
+  receiver?: string;
+  content: string;
+  messageType?: IMessage["messageType"];
+  replyTo?: Types.ObjectId;
+  clientMessageId?: string;
+  poll?: NewPoll;
+  attachments?: string[];
+  storageKeys?: string[];
+  audio?: IMessageAudio;
+  file?: IMessageFile;
+}
+
+/**
+ * A message of an imported chat history
+ */
+export interface ImportEntry {
+  sender: string;
+  content: string;
+  messageType: "text" | "image" | "file";
+  attachments: string[];
+  createdAt: Date;
+}
+
+/**
+ * Outcome of an import, rejected entries are identified by their index
+ */
+export interface ImportResult {
+  count: number;
+  rejected: { index: number; reason: string }[];
+}
+
+/**
+ * Messages of a conversation removed because their timer ran out
+ */
+export interface ExpiredMessages {
+  conversationId: Types.ObjectId;
+  messageIds: Types.ObjectId[];
+}
+
+/**
+ * A delivery acknowledged by a member, reported back to the sender
+ */
+export interface DeliveryReceipt {
+  messageId: Types.ObjectId;
+  conversationId: Types.ObjectId;
+  sender: Types.ObjectId;
+  deliveredAt: Date;
+}
+
+/**
+ * Inbox entry for a conversation: its latest visible message and
+ * how many messages the user has not read yet
+ */
+export interface ConversationSummary {
+  conversationId: Types.ObjectId;
+  lastMessage: {
+    _id: Types.ObjectId;
+    content: string;
+    messageType: IMessage["messageType"];
+    status: IMessage["status"];
+    createdAt: Date;
+    sender: { _id: Types.ObjectId; username: string };
+  };
+  unreadCount: number;
 }
 
 /**
@@ -31,25 +473,86 @@ export interface IMessage extends Document {
  */
 interface IMessageModel extends mongoose.Model<IMessage> {
   getConversation(
-    user1Id: string,
-    user2Id: string,
-    limit?: number,
-    page?: number
-  ): Promise<IMessage[]>;
+    conversationId: string,
+    options?: ConversationPageOptions
+  ): Promise<ConversationPage>;
+  importMessages(
+    conversation: IConversation,
+    entries: ImportEntry[],
+    options?: { dryRun?: boolean }
+  ): Promise<ImportResult>;
+  exportCursor(
+    conversationId: string,
+    options: ExportOptions
+  ): mongoose.Cursor<IMessage, mongoose.QueryOptions<IMessage>>;
+  findForParticipant(
+    messageId: string,
+    userId: string,
+    options?: { includeHidden?: boolean }
+  ): Promise<{ message: IMessage; conversation: IConversation } | null>;
+  findByClientId(
+    senderId: string,
+    clientMessageId: string
+  ): Promise<IMessage | null>;
+  findOrCreateByClientId(
+    fields: NewMessage
+  ): Promise<{ message: IMessage; created: boolean }>;
+  getPinned(conversationId: string, currentUser?: string): Promise<IMessage[]>;
+  getStarred(
+    userId: string,
+    options?: StarredPageOptions
+  ): Promise<StarredPage>;
+  findReplyTarget(
+    messageId: string,
+    conversationId: string
+  ): Promise<Types.ObjectId | null>;
+  forward(
+    messageIds: string[],
+    userId: string,
+    targets: IConversation[]
+  ): Promise<IMessage[] | null>;
+  getThread(
+    messageId: string,
+    options?: ThreadPageOptions
+  ): Promise<ThreadPage>;
+  search(userId: string, options: SearchOptions): Promise<SearchPage>;
+  getChangesSince(
+    userId: string,
+    options: ChangesPageOptions
+  ): Promise<ChangesPage>;
+  markDelivered(
+    messageIds: string[],
+    userId: string
+  ): Promise<DeliveryReceipt[]>;
+  getUndelivered(userId: string, limit: number): Promise<IMessage[]>;
+  deleteExpired(limit: number): Promise<ExpiredMessages[]>;
   getUnreadCount(userId: string): Promise<number>;
+  getConversationSummaries(userId: string): Promise<ConversationSummary[]>;
+  markConversationAsRead(
+    conversationId: string,
+    userId: string
+  ): Promise<number>;
 }
 
 /**
  * MongoDB Schema Definition for Message
  *
  * Features:
- * 1. References to User model for sender and receiver
- * 2. Message status tracking
+ * 1. References to Conversation and User models
+ * 2. Message status tracking with per-member read receipts
  * 3. Support for different message types
  * 4. Soft delete functionality
+ * 5. Disappearing messages, hard deleted once they expire
+ * 6. Polls, whose tallies are kept next to the private votes
  */
 const messageSchema = new Schema<IMessage>(
   {
+    conversation: {
+      type: Schema.Types.ObjectId,
+      ref: "Conversation",
+      required: [true, "Conversation is required"],
+    },
+
     sender: {
       type: Schema.Types.ObjectId,
       ref: "User",
@@ -60,8 +563,8 @@ const messageSchema = new Schema<IMessage>(
     receiver: {
       type: Schema.Types.ObjectId,
       ref: "User",
-      required: [true, "Receiver is required"],
       index: true, // Optimize queries by receiver
+      // Group messages have no single receiver, members come from the conversation
     },
 
     content: {
@@ -73,8 +576,121 @@ const messageSchema = new Schema<IMessage>(
 
     messageType: {
       type: String,
-      enum: ["text", "image", "file"],
+      enum: MESSAGE_TYPES,
       default: "text",
+      // System messages announce conversation changes, clients cannot send them
+    },
+
+    replyTo: {
+      type: Schema.Types.ObjectId,
+      ref: "Message",
+      // Quoted message, always from the same conversation
+    },
+
+    clientMessageId: {
+      type: String,
+      trim: true,
+      maxlength: [100, "Client message ID cannot exceed 100 characters"],
+      // Unique per sender, a retried send returns the original message
+    },
+
+    forwardedFrom: {
+      type: new Schema<IMessageForward>(
+        {
+          message: {
+            type: Schema.Types.ObjectId,
+            ref: "Message",
+            required: true,
+          },
+          sender: { type: Schema.Types.ObjectId, ref: "User", required: true },
+        },
+        { _id: false }
+      ),
+      default: undefined,
+      // Only set on copies made by forwarding
+    },
+
+    poll: {
+      type: new Schema<IMessagePoll>(
+        {
+          question: { type: String, required: true, trim: true },
+          options: [
+            {
+              text: { type: String, required: true, trim: true },
+              voteCount: { type: Number, default: 0 },
+              voters: [{ type: Schema.Types.ObjectId, ref: "User" }],
+            },
+          ],
+          multipleChoice: { type: Boolean, default: false },
+          anonymous: { type: Boolean, default: false },
+          closesAt: { type: Date },
+          closedAt: { type: Date },
+          voterCount: { type: Number, default: 0 },
+          votes: {
+            type: [
+              {
+                _id: false,
+                user: {
+                  type: Schema.Types.ObjectId,
+                  ref: "User",
+                  required: true,
+                },
+                options: [{ type: Schema.Types.ObjectId, required: true }],
+                votedAt: { type: Date, required: true },
+              },
+            ],
+            select: false, // Tallies are public, who picked what may not be
+            default: undefined,
+          },
+        },
+        { _id: false }
+      ),
+      default: undefined,
+      // Only set on poll messages, the question is also the content
+    },
+
+    audio: {
+      type: new Schema<IMessageAudio>(
+        {
+          duration: { type: Number, required: true, min: 0 },
+          waveform: [{ type: Number, min: 0, max: 100 }],
+        },
+        { _id: false }
+      ),
+      default: undefined,
+      // Only set on voice notes, measured by the server when uploaded
+    },
+
+    file: {
+      type: new Schema<IMessageFile>(
+        {
+          name: { type: String, required: true, trim: true, maxlength: 200 },
+          size: { type: Number, required: true, min: 0 },
+          mimeType: { type: String, required: true },
+          width: { type: Number, min: 1 },
+          height: { type: Number, min: 1 },
+          placeholder: { type: String, maxlength: 2000 },
+          variants: {
+            type: [
+              {
+                name: {
+                  type: String,
+                  enum: IMAGE_VARIANTS.map((variant) => variant.name),
+                  required: true,
+                },
+                url: { type: String, required: true },
+                width: { type: Number, required: true, min: 1 },
+                height: { type: Number, required: true, min: 1 },
+                _id: false,
+              },
+            ],
+            default: undefined,
+          },
+        },
+        { _id: false }
+      ),
+      default: undefined,
+      // Only set on uploaded images and files, the type checked on upload
     },
 
     status: {
@@ -83,11 +699,33 @@ const messageSchema = new Schema<IMessage>(
       default: "sent",
     },
 
+    deliveredAt: {
+      type: Date,
+      // First time any member's device acknowledged the message
+    },
+
+    deliveredTo: [
+      {
+        _id: false,
+        user: { type: Schema.Types.ObjectId, ref: "User", required: true },
+        deliveredAt: { type: Date, required: true },
+        // Set only once a socket of that member acknowledged the message
+      },
+    ],
+
     readAt: {
       type: Date,
       default: null,
     },
 
+    readBy: [
+      {
+        type: Schema.Types.ObjectId,
+        ref: "User",
+        // Members who have read the message, needed for group conversations
+      },
+    ],
+
     attachments: [
       {
         type: String,
@@ -96,6 +734,14 @@ const messageSchema = new Schema<IMessage>(
       },
     ],
 
+    storageKeys: {
+      type: [String],
+      select: false,
+      default: undefined,
+      // Keys of the uploaded files, including image variants, so they can be
+      // removed from storage with the message. Shared with forwarded copies.
+    },
+
     deletedFor: [
       {
         type: Schema.Types.ObjectId,
@@ -103,6 +749,75 @@ const messageSchema = new Schema<IMessage>(
         // Soft delete: Message still exists but isn't visible to these users
       },
     ],
+
+    isDeletedForEveryone: {
+      type: Boolean,
+      default: false,
+      // Unsent by the sender: content replaced by a tombstone for everyone
+    },
+
+    deletedAt: {
+      type: Date,
+    },
+
+    pinnedAt: {
+      type: Date,
+      // Pinned messages are listed in the order they were pinned
+    },
+
+    pinnedBy: {
+      type: Schema.Types.ObjectId,
+      ref: "User",
+    },
+
+    starredBy: {
+      type: [
+        {
+          _id: false,
+          user: { type: Schema.Types.ObjectId, ref: "User", required: true },
+          starredAt: { type: Date, required: true },
+        },
+      ],
+      select: false, // Stars are private to each user
+      default: undefined,
+    },
+
+    isEdited: {
+      type: Boolean,
+      default: false,
+    },
+
+    editedAt: {
+      type: Date,
+    },
+
+    editHistory: [
+      {
+        _id: false,
+        content: { type: String, required: true },
+        editedAt: { type: Date, required: true },
+        // Previous versions, oldest first; content holds the current version
+      },
+    ],
+
+    reactions: [
+      {
+        _id: false,
+        emoji: { type: String, required: true },
+        users: [{ type: Schema.Types.ObjectId, ref: "User" }],
+        // One entry per emoji, a user appears at most once per emoji
+      },
+    ],
+
+    expiresAt: {
+      type: Date,
+      // Taken from the conversation's timer when the message is created
+    },
+
+    isImported: {
+      type: Boolean,
+      default: false,
+    },
   },
   {
     timestamps: true, // Adds createdAt and updatedAt
@@ -114,35 +829,163 @@ const messageSchema = new Schema<IMessage>(
  * Compound index for conversation queries
  */
 messageSchema.index({ sender: 1, receiver: 1, createdAt: -1 });
+messageSchema.index({ conversation: 1, createdAt: -1, _id: -1 });
+messageSchema.index({ conversation: 1, updatedAt: 1, _id: 1 }); // Sync
+messageSchema.index({ content: "text" }); // Full-text search
+messageSchema.index({ "starredBy.user": 1, createdAt: -1, _id: -1 });
+messageSchema.index(
+  { conversation: 1, pinnedAt: 1 },
+  { partialFilterExpression: { pinnedAt: { $type: "date" } } }
+);
 messageSchema.index({ status: 1 }); // For querying unread messages
+messageSchema.index({ replyTo: 1, createdAt: 1 }, { sparse: true }); // Threads
+// Backstop for the expiry cleanup job, which also notifies clients; it only
+// catches messages the job missed, e.g. while no server was running
+messageSchema.index(
+  { expiresAt: 1 },
+  { expireAfterSeconds: EXPIRY_BACKSTOP_SECONDS }
+);
+messageSchema.index(
+  { sender: 1, clientMessageId: 1 },
+  {
+    unique: true,
+    partialFilterExpression: { clientMessageId: { $type: "string" } },
+  }
+);
 
 /**
- * Query Middleware
- * Automatically filter out deleted messages for the current user
+ * Populate paths for messages sent to clients
+ * The quoted message is trimmed to a preview and loaded even when it was
+ * soft deleted, so a reply never loses its context.
+ */
+export const MESSAGE_POPULATE: PopulateOptions[] = [
+  { path: "sender", select: "username avatar" },
+  { path: "receiver", select: "username avatar" },
+  {
+    path: "replyTo",
+    select: "content messageType sender createdAt isDeletedForEveryone",
+    options: { bypassDelete: true },
+    populate: { path: "sender", select: "username" },
+    transform: (doc) =>
+      doc && {
+        _id: doc._id,
+        content: doc.content.slice(0, REPLY_PREVIEW_LENGTH),
+        messageType: doc.messageType,
+        sender: doc.sender,
+        createdAt: doc.createdAt,
+        isDeletedForEveryone: doc.isDeletedForEveryone,
+      },
+  },
+  { path: "forwardedFrom.sender", select: "username avatar" },
+];
+
+/**
+ * Document Middleware
+ * Content is sanitized before validation, which also runs for insertMany:
+ * HTML is escaped and unsafe links are taken out, the text is kept.
+ */
+messageSchema.pre("validate", function () {
+  if (this.isModified("content") && typeof this.content === "string") {
+    this.content = sanitizeMarkdown(this.content);
+  }
+});
+
+/**
+ * Keep the conversation's last activity in sync with new messages
  */
-messageSchema.pre(/^find/, function (next) {
-  if (this.options && this.options.bypassDelete) {
-    return next();
+messageSchema.pre("save", async function () {
+  this.$locals.wasNew = this.isNew;
+
+  // Announcements of a new timer stay, so members can see the policy
+  if (this.isNew && !this.expiresAt && this.messageType !== "system") {
+    const ttl = await Conversation.getMessageTtl(this.conversation);
+    if (ttl) {
+      this.expiresAt = new Date(Date.now() + ttl * 1000);
+    }
   }
+});
 
-  // Exclude messages that are deleted for the current user
-  if (this.options?.currentUser) {
-    this.find({ deletedFor: { $ne: this.options.currentUser } });
+messageSchema.post("save", async function (doc) {
+  if (doc.$locals.wasNew) {
+    await Conversation.updateOne(
+      { _id: doc.conversation },
+      { $max: { lastMessageAt: doc.createdAt } }
+    );
   }
-  next();
 });
 
+/**
+ * Query Middleware
+ * Automatically filter out expired messages, which may linger until the
+ * cleanup job runs, and deleted messages for the current user
+ */
+messageSchema.pre(
+  /^find/,
+  function (this: mongoose.Query<unknown, IMessage>, next) {
+    const options = this.getOptions();
+
+    if (!options.includeExpired) {
+      this.find({ expiresAt: { $not: { $lte: new Date() } } });
+    }
+
+    if (options.bypassDelete) {
+      return next();
+    }
+
+    // Exclude messages that are deleted for the current user
+    if (options.currentUser) {
+      this.find({ deletedFor: { $ne: options.currentUser } });
+    }
+    next();
+  }
+);
+
+/**
+ * Remove stored files that no message refers to any more
+ * Forwarded copies share the files of their source, so a file stays until
+ * the last message using it is gone. Failures are only logged, the messages
+ * are already deleted by then.
+ */
+const releaseStoredFiles = async (
+  Model: mongoose.Model<IMessage>,
+  keys: string[]
+): Promise<void> => {
+  if (!keys.length) {
+    return;
+  }
+
+  const inUse: string[] = await Model.distinct("storageKeys", {
+    storageKeys: { $in: keys },
+  });
+  const unused = [...new Set(keys)].filter((key) => !inUse.includes(key));
+
+  await Promise.all(
+    unused.map((key) =>
+      storage.remove(key).catch((error) => {
+        logger.error("Error removing stored file:", error);
+      })
+    )
+  );
+};
+
 /**
  * Instance Methods
  */
 
 /**
- * Mark message as read
- * Updates status and sets readAt timestamp
+ * Mark message as read by a member
+ * Records the reader and sets status and readAt on the first read
  */
-messageSchema.methods.markAsRead = async function (): Promise<void> {
-  this.status = "read";
-  this.readAt = new Date();
+messageSchema.methods.markAsRead = async function (
+  userId: string
+): Promise<void> {
+  if (!this.readBy.some((id: unknown) => String(id) === String(userId))) {
+    this.readBy.push(userId);
+  }
+  if (this.status !== "read") {
+    this.status = "read";
+    this.readAt = new Date();
+  }
   await this.save();
 };
 
@@ -160,44 +1003,1132 @@ messageSchema.methods.softDelete = async function (
 };
 
 /**
- * Static Methods
+ * Check whether a user may delete the message for everyone
+ * Only the sender may, and only within the configured unsend window
  */
+messageSchema.methods.isUnsendableBy = function (userId: string): boolean {
+  return (
+    !this.isDeletedForEveryone &&
+    this.sender.toString() === userId.toString() &&
+    Date.now() - this.createdAt.getTime() <= chatConfig.messageUnsendWindowMs
+  );
+};
 
 /**
- * Get conversation between two users
- * Returns paginated messages sorted by createdAt
+ * Delete the message for everyone
+ * The document is kept as a tombstone so replies and read receipts stay
+ * consistent, but its content, attachments and history are removed.
  */
-messageSchema.statics.getConversation = async function (
-  user1Id: string,
-  user2Id: string,
-  limit = 50,
-  page = 1
+messageSchema.methods.deleteForEveryone = async function (): Promise<void> {
+  const Model = this.constructor as mongoose.Model<IMessage>;
+  const stored = await Model.findById(this._id)
+    .select("storageKeys")
+    .setOptions({ bypassDelete: true, includeExpired: true })
+    .lean();
+
+  this.content = DELETED_MESSAGE_CONTENT;
+  this.attachments = [];
+  this.audio = undefined;
+  this.file = undefined;
+  this.editHistory = [];
+  this.reactions = [];
+  this.isEdited = false;
+  this.editedAt = undefined;
+  this.isDeletedForEveryone = true;
+  this.deletedAt = new Date();
+  this.pinnedAt = undefined;
+  this.pinnedBy = undefined;
+  this.storageKeys = undefined;
+  this.markModified("storageKeys"); // Not selected, so not seen as changed
+  await this.save();
+
+  await releaseStoredFiles(Model, stored?.storageKeys ?? []);
+};
+
+/**
+ * Pin the message in its conversation
+ * Returns false when the message is already pinned or the conversation has
+ * reached its pin limit. The limit is checked after pinning, so concurrent
+ * pins can never push a conversation over it.
+ */
+messageSchema.methods.pin = async function (userId: string): Promise<boolean> {
+  const Model = this.constructor as mongoose.Model<IMessage>;
+  const pinnedAt = new Date();
+
+  const result = await Model.updateOne(
+    { _id: this._id, pinnedAt: { $exists: false } },
+    { $set: { pinnedAt, pinnedBy: userId } }
+  );
+  if (!result.modifiedCount) {
+    return false;
+  }
+
+  const pinned = await Model.countDocuments({
+    conversation: this.conversation,
+    pinnedAt: { $exists: true },
+  });
+  if (pinned > chatConfig.maxPinnedMessages) {
+    await Model.updateOne(
+      { _id: this._id },
+      { $unset: { pinnedAt: 1, pinnedBy: 1 } }
+    );
+    return false;
+  }
+
+  this.pinnedAt = pinnedAt;
+  this.pinnedBy = new Types.ObjectId(userId);
+  return true;
+};
+
+/**
+ * Unpin the message, returns false when it was not pinned
+ */
+messageSchema.methods.unpin = async function (): Promise<boolean> {
+  const Model = this.constructor as mongoose.Model<IMessage>;
+
+  const result = await Model.updateOne(
+    { _id: this._id, pinnedAt: { $exists: true } },
+    { $unset: { pinnedAt: 1, pinnedBy: 1 } }
+  );
+
+  this.pinnedAt = undefined;
+  this.pinnedBy = undefined;
+  return result.modifiedCount > 0;
+};
+
+/**
+ * Star the message for a user, starring twice has no effect
+ */
+messageSchema.methods.star = async function (userId: string): Promise<void> {
+  const Model = this.constructor as mongoose.Model<IMessage>;
+  const user = new Types.ObjectId(userId);
+
+  await Model.updateOne(
+    { _id: this._id, "starredBy.user": { $ne: user } },
+    { $push: { starredBy: { user, starredAt: new Date() } } }
+  );
+};
+
+/**
+ * Remove a user's star from the message
+ */
+messageSchema.methods.unstar = async function (userId: string): Promise<void> {
+  const Model = this.constructor as mongoose.Model<IMessage>;
+
+  await Model.updateOne(
+    { _id: this._id },
+    { $pull: { starredBy: { user: new Types.ObjectId(userId) } } }
+  );
+};
+
+/**
+ * Check whether a user may edit the message
+ * Only the sender may edit, and only within the configured edit window
+ */
+messageSchema.methods.isEditableBy = function (userId: string): boolean {
+  return (
+    !this.isDeletedForEveryone &&
+    !["system", "poll", "audio"].includes(this.messageType) &&
+    this.sender.toString() === userId.toString() &&
+    Date.now() - this.createdAt.getTime() <= chatConfig.messageEditWindowMs
+  );
+};
+
+/**
+ * Replace the content, keeping the previous version in the edit history
+ */
+messageSchema.methods.editContent = async function (
+  content: string
+): Promise<void> {
+  const now = new Date();
+  this.editHistory.push({ content: this.content, editedAt: now });
+  this.content = content;
+  this.isEdited = true;
+  this.editedAt = now;
+  await this.save();
+};
+
+/**
+ * Refresh the reactions of a document after an atomic update
+ */
+const reloadReactions = async (
+  Model: mongoose.Model<IMessage>,
+  messageId: Types.ObjectId
+): Promise<IMessageReaction[]> => {
+  const updated = await Model.findById(messageId)
+    .select("reactions")
+    .setOptions({ bypassDelete: true });
+  return updated?.reactions || [];
+};
+
+/**
+ * Add a user's reaction
+ * Uses atomic updates so concurrent reactions are never lost
+ */
+messageSchema.methods.addReaction = async function (
+  emoji: string,
+  userId: string
+): Promise<void> {
+  const Model = this.constructor as mongoose.Model<IMessage>;
+  const user = new Types.ObjectId(userId);
+
+  for (let attempt = 0; attempt < 2; attempt++) {
+    const added = await Model.updateOne(
+      { _id: this._id, "reactions.emoji": emoji },
+      { $addToSet: { "reactions.$.users": user } }
+    );
+    if (added.matchedCount) break;
+
+    // First reaction with this emoji, unless another request just created it
+    const created = await Model.updateOne(
+      { _id: this._id, "reactions.emoji": { $ne: emoji } },
+      { $push: { reactions: { emoji, users: [user] } } }
+    );
+    if (created.matchedCount) break;
+  }
+
+  this.reactions = await reloadReactions(Model, this._id);
+};
+
+/**
+ * Remove a user's reaction, dropping emojis nobody reacts with anymore
+ */
+messageSchema.methods.removeReaction = async function (
+  emoji: string,
+  userId: string
+): Promise<void> {
+  const Model = this.constructor as mongoose.Model<IMessage>;
+  const user = new Types.ObjectId(userId);
+
+  await Model.updateOne(
+    { _id: this._id, "reactions.emoji": emoji },
+    { $pull: { "reactions.$.users": user } }
+  );
+  await Model.updateOne(
+    { _id: this._id },
+    { $pull: { reactions: { users: { $size: 0 } } } }
+  );
+
+  this.reactions = await reloadReactions(Model, this._id);
+};
+
+/**
+ * Check whether a poll still takes votes
+ */
+messageSchema.methods.isPollOpen = function (): boolean {
+  return (
+    this.messageType === "poll" &&
+    !!this.poll &&
+    !this.isDeletedForEveryone &&
+    !this.poll.closedAt &&
+    (!this.poll.closesAt || this.poll.closesAt.getTime() > Date.now())
+  );
+};
+
+/**
+ * Check a user's pick of poll answers
+ * An empty pick withdraws the vote; single choice polls take one answer.
+ */
+messageSchema.methods.isValidPollChoice = function (
+  optionIds: unknown
+): optionIds is string[] {
+  if (!this.poll || !Array.isArray(optionIds)) {
+    return false;
+  }
+
+  const known = this.poll.options.map((option: IPollOption) =>
+    option._id.toString()
+  );
+  return (
+    optionIds.every((id) => typeof id === "string" && known.includes(id)) &&
+    new Set(optionIds).size === optionIds.length &&
+    (this.poll.multipleChoice || optionIds.length <= 1)
+  );
+};
+
+/**
+ * Replace a user's vote in a poll and recount it
+ * The whole change is a single update, so concurrent votes are never lost
+ * or counted twice. Returns false when the poll has closed.
+ */
+messageSchema.methods.vote = async function (
+  userId: string,
+  optionIds: string[]
+): Promise<boolean> {
+  const Model = this.constructor as mongoose.Model<IMessage>;
+  const user = new Types.ObjectId(userId);
+  const now = new Date();
+  const choice = optionIds.map((id) => new Types.ObjectId(id));
+
+  const votesFor = (option: string) => ({
+    $filter: {
+      input: "$poll.votes",
+      as: "vote",
+      cond: { $in: [`${option}._id`, "$$vote.options"] },
+    },
+  });
+
+  const result = await Model.updateOne(
+    {
+      _id: this._id,
+      messageType: "poll",
+      isDeletedForEveryone: { $ne: true },
+      "poll.closedAt": null,
+      $or: [{ "poll.closesAt": null }, { "poll.closesAt": { $gt: now } }],
+    },
+    [
+      {
+        $set: {
+          "poll.votes": {
+            $concatArrays: [
+              {
+                $filter: {
+                  input: { $ifNull: ["$poll.votes", []] },
+                  as: "vote",
+                  cond: { $ne: ["$$vote.user", user] },
+                },
+              },
+              {
+                $literal: choice.length
+                  ? [{ user, options: choice, votedAt: now }]
+                  : [],
+              },
+            ],
+          },
+        },
+      },
+      {
+        $set: {
+          "poll.voterCount": { $size: "$poll.votes" },
+          "poll.options": {
+            $map: {
+              input: "$poll.options",
+              as: "option",
+              in: {
+                $mergeObjects: [
+                  "$$option",
+                  {
+                    voteCount: { $size: votesFor("$$option") },
+                    voters: {
+                      $cond: [
+                        "$poll.anonymous",
+                        [],
+                        {
+                          $map: {
+                            input: votesFor("$$option"),
+                            as: "vote",
+                            in: "$$vote.user",
+                          },
+                        },
+                      ],
+                    },
+                  },
+                ],
+              },
+            },
+          },
+        },
+      },
+    ]
+  );
+  if (!result.matchedCount) {
+    return false;
+  }
+
+  // Only the tallies are reloaded, who picked what stays on the server
+  const updated = await Model.findById(this._id)
+    .select("-poll.votes")
+    .setOptions({ bypassDelete: true });
+  this.poll = updated?.poll;
+  return true;
+};
+
+/**
+ * Close a poll before its close time, returns false when already closed
+ */
+messageSchema.methods.closePoll = async function (): Promise<boolean> {
+  const Model = this.constructor as mongoose.Model<IMessage>;
+  const closedAt = new Date();
+
+  const result = await Model.updateOne(
+    { _id: this._id, messageType: "poll", "poll.closedAt": null },
+    { $set: { "poll.closedAt": closedAt } }
+  );
+
+  // A poll closed by someone else keeps the time it was closed at
+  if (result.modifiedCount !== 1) {
+    return false;
+  }
+  if (this.poll) {
+    this.poll.closedAt = closedAt;
+  }
+  return true;
+};
+
+/**
+ * Static Methods
+ */
+
+/**
+ * Get messages of a conversation
+ * Returns a cursor paginated page of messages in chronological order.
+ * Without a cursor the latest messages are returned, `before` pages towards
+ * older messages and `after` towards newer ones. `hasMore` tells whether
+ * further messages exist in the paging direction.
+ */
+messageSchema.statics.getConversation = async function (
+  conversationId: string,
+  { before, after, limit = 50, currentUser }: ConversationPageOptions = {}
+): Promise<ConversationPage> {
+  const forward = !!after && !before;
+  const cursor = forward ? after : before;
+  const order = forward ? 1 : -1;
+
+  const docs: IMessage[] = await this.find({
+    conversation: conversationId,
+    ...(cursor && cursorFilter(cursor, forward ? "after" : "before")),
+  })
+    .setOptions({ currentUser })
+    .sort({ createdAt: order, _id: order })
+    .limit(limit + 1)
+    .populate(MESSAGE_POPULATE);
+
+  const hasMore = docs.length > limit;
+  const messages = docs.slice(0, limit);
+  if (!forward) {
+    messages.reverse();
+  }
+
+  const first = messages[0];
+  const last = messages[messages.length - 1];
+
+  // Only the current user's own stars are looked up, others stay private
+  const starred: IMessage[] = currentUser
+    ? await this.find({
+        _id: { $in: messages.map((message) => message._id) },
+        "starredBy.user": new Types.ObjectId(currentUser),
+      })
+        .select("_id")
+        .setOptions({ bypassDelete: true })
+    : [];
+
+  // Votes stay private, only the current user's own picks are returned
+  const polls = messages.filter((message) => message.messageType === "poll");
+  const pollVotes: PollChoice[] =
+    currentUser && polls.length
+      ? await this.aggregate([
+          { $match: { _id: { $in: polls.map((poll) => poll._id) } } },
+          { $unwind: "$poll.votes" },
+          { $match: { "poll.votes.user": new Types.ObjectId(currentUser) } },
+          { $project: { options: "$poll.votes.options" } },
+        ])
+      : [];
+
+  return {
+    messages,
+    starred: starred.map((message) => message._id),
+    pollVotes,
+    hasMore,
+    cursors: {
+      before: first ? encodeCursor(first) : null,
+      after: last ? encodeCursor(last) : null,
+    },
+  };
+};
+
+/**
+ * Add the messages of a chat history exported elsewhere
+ * Entries keep their original time and count as read by every member, since
+ * the history was already seen. Each entry is validated on its own, so one
+ * bad message is rejected without failing the rest. A dry run only
+ * validates. No socket events are sent. insertMany skips the save hook, so
+ * the disappearing messages timer is applied here. It counts from the
+ * import, as history older than the timer would otherwise be deleted by the
+ * next cleanup right after being imported.
+ */
+messageSchema.statics.importMessages = async function (
+  conversation: IConversation,
+  entries: ImportEntry[],
+  { dryRun = false }: { dryRun?: boolean } = {}
+): Promise<ImportResult> {
+  const memberIds = conversation.memberIds();
+  const ttl = conversation.messageTtl;
+  const expiresAt = ttl ? new Date(Date.now() + ttl * 1000) : undefined;
+  const docs: IMessage[] = [];
+  const rejected: ImportResult["rejected"] = [];
+
+  for (const [index, entry] of entries.entries()) {
+    const doc: IMessage = new this({
+      ...entry,
+      attachments: entry.attachments.length ? entry.attachments : undefined,
+      conversation: conversation._id,
+      receiver: conversation.getDirectReceiver(entry.sender),
+      status: "read",
+      readBy: memberIds,
+      isImported: true,
+      expiresAt,
+    });
+
+    try {
+      await doc.validate();
+      docs.push(doc);
+    } catch (error) {
+      rejected.push({
+        index,
+        reason:
+          error instanceof mongoose.Error.ValidationError
+            ? Object.values(error.errors)
+                .map((issue) => issue.message)
+                .join(", ")
+            : String(error),
+      });
+    }
+  }
+
+  if (dryRun || !docs.length) {
+    return { count: docs.length, rejected };
+  }
+
+  for (let start = 0; start < docs.length; start += IMPORT_BATCH_SIZE) {
+    await this.insertMany(docs.slice(start, start + IMPORT_BATCH_SIZE));
+  }
+
+  await Conversation.updateOne(
+    { _id: conversation._id },
+    {
+      $max: {
+        lastMessageAt: new Date(
+          Math.max(...docs.map((doc) => doc.createdAt.getTime()))
+        ),
+      },
+    }
+  );
+
+  return { count: docs.length, rejected };
+};
+
+/**
+ * Stream all messages of a conversation in chronological order
+ * Messages are read in batches, so exporting a long history does not load
+ * it into memory at once. The caller must close the cursor when stopping
+ * early.
+ */
+messageSchema.statics.exportCursor = function (
+  conversationId: string,
+  { from, to, currentUser }: ExportOptions
+) {
+  return this.find({
+    conversation: conversationId,
+    ...((from || to) && {
+      createdAt: { ...(from && { $gte: from }), ...(to && { $lt: to }) },
+    }),
+  })
+    .setOptions({ currentUser })
+    .sort({ createdAt: 1, _id: 1 })
+    .populate(MESSAGE_POPULATE)
+    .cursor({ batchSize: EXPORT_BATCH_SIZE });
+};
+
+/**
+ * Load a message together with its conversation, but only if the user
+ * is a participant of that conversation
+ * Messages the user deleted for themselves are not found, so they cannot be
+ * acted on, unless includeHidden is set.
+ */
+messageSchema.statics.findForParticipant = async function (
+  messageId: string,
+  userId: string,
+  { includeHidden = false }: { includeHidden?: boolean } = {}
+): Promise<{ message: IMessage; conversation: IConversation } | null> {
+  if (!mongoose.isValidObjectId(messageId)) {
+    return null;
+  }
+
+  const message: IMessage | null = await this.findById(messageId).setOptions({
+    currentUser: includeHidden ? undefined : userId,
+  });
+  if (!message) {
+    return null;
+  }
+
+  const conversation = await Conversation.findForMember(
+    message.conversation.toString(),
+    userId
+  );
+  if (!conversation) {
+    return null;
+  }
+
+  return { message, conversation };
+};
+
+/**
+ * Find the message a sender already sent with a client generated ID
+ * Lets uploads skip storing a file again when a retry was already sent.
+ */
+messageSchema.statics.findByClientId = async function (
+  senderId: string,
+  clientMessageId: string
+): Promise<IMessage | null> {
+  return this.findOne({ sender: senderId, clientMessageId }).setOptions({
+    bypassDelete: true,
+  });
+};
+
+/**
+ * Create a message, or return the one a previous attempt already created
+ * Retries carry the same clientMessageId; the unique index settles
+ * concurrent retries, the losing insert falls back to the stored message.
+ */
+messageSchema.statics.findOrCreateByClientId = async function (
+  fields: NewMessage
+): Promise<{ message: IMessage; created: boolean }> {
+  const findExisting = (): Promise<IMessage | null> =>
+    this.findOne({
+      sender: fields.sender,
+      clientMessageId: fields.clientMessageId,
+    }).setOptions({ bypassDelete: true });
+
+  if (fields.clientMessageId) {
+    const existing = await findExisting();
+    if (existing) {
+      return { message: existing, created: false };
+    }
+  }
+
+  try {
+    const message: IMessage = await this.create(fields);
+    return { message, created: true };
+  } catch (error) {
+    const isDuplicate =
+      (error as { code?: number }).code === 11000 && !!fields.clientMessageId;
+    const existing = isDuplicate ? await findExisting() : null;
+    if (!existing) {
+      throw error;
+    }
+    return { message: existing, created: false };
+  }
+};
+
+/**
+ * Get the pinned messages of a conversation in the order they were pinned
+ */
+messageSchema.statics.getPinned = async function (
+  conversationId: string,
+  currentUser?: string
 ): Promise<IMessage[]> {
   return this.find({
-    $or: [
-      { sender: user1Id, receiver: user2Id },
-      { sender: user2Id, receiver: user1Id },
-    ],
+    conversation: conversationId,
+    pinnedAt: { $exists: true },
+  })
+    .setOptions({ currentUser })
+    .sort({ pinnedAt: 1 })
+    .populate([
+      ...MESSAGE_POPULATE,
+      { path: "pinnedBy", select: "username avatar" },
+    ]);
+};
+
+/**
+ * Get the messages a user starred across their conversations
+ * Newest message first, paged towards older ones with the `before` cursor.
+ */
+messageSchema.statics.getStarred = async function (
+  userId: string,
+  { before, limit = 50 }: StarredPageOptions = {}
+): Promise<StarredPage> {
+  const conversationIds = await Conversation.getIdsForUser(userId);
+
+  const docs: IMessage[] = await this.find({
+    "starredBy.user": new Types.ObjectId(userId),
+    conversation: { $in: conversationIds },
+    ...(before && cursorFilter(before, "before")),
   })
-    .sort({ createdAt: -1 })
-    .skip((page - 1) * limit)
+    .setOptions({ currentUser: userId })
+    .sort({ createdAt: -1, _id: -1 })
+    .limit(limit + 1)
+    .populate(MESSAGE_POPULATE);
+
+  const hasMore = docs.length > limit;
+  const messages = docs.slice(0, limit);
+  const last = messages[messages.length - 1];
+
+  return {
+    messages,
+    hasMore,
+    cursors: {
+      before: last ? encodeCursor(last) : null,
+    },
+  };
+};
+
+/**
+ * Resolve the message a reply quotes
+ * Returns its ID only if it belongs to the given conversation
+ */
+messageSchema.statics.findReplyTarget = async function (
+  messageId: string,
+  conversationId: string
+): Promise<Types.ObjectId | null> {
+  if (!mongoose.isValidObjectId(messageId)) {
+    return null;
+  }
+
+  const target = await this.findOne({
+    _id: messageId,
+    conversation: conversationId,
+    isDeletedForEveryone: { $ne: true },
+  })
+    .select("_id")
+    .setOptions({ bypassDelete: true });
+
+  return target ? target._id : null;
+};
+
+/**
+ * Copy messages into other conversations on behalf of a user
+ * Every source must be visible to the user in a conversation they belong to,
+ * otherwise nothing is copied and null is returned. Copies keep the content,
+ * type and attachments but not replies, reactions or receipts.
+ */
+messageSchema.statics.forward = async function (
+  messageIds: string[],
+  userId: string,
+  targets: IConversation[]
+): Promise<IMessage[] | null> {
+  if (!messageIds.every((id) => mongoose.isValidObjectId(id))) {
+    return null;
+  }
+
+  const sources: IMessage[] = await this.find({
+    _id: { $in: messageIds },
+    isDeletedForEveryone: { $ne: true },
+    // Polls are not copied, their votes belong to the original conversation
+    messageType: { $nin: ["system", "poll"] },
+  })
+    .select("+storageKeys")
+    .setOptions({ currentUser: userId });
+
+  const sourceIds = [...new Set(messageIds.map(String))];
+  if (sources.length !== sourceIds.length) {
+    return null;
+  }
+
+  const conversationIds = [
+    ...new Set(sources.map((m) => m.conversation.toString())),
+  ];
+  const memberOf = await Conversation.countDocuments({
+    _id: { $in: conversationIds },
+    "members.user": userId,
+  });
+  if (memberOf !== conversationIds.length) {
+    return null;
+  }
+
+  // Keep the order the messages were originally sent in
+  sources.sort(
+    (a, b) =>
+      a.createdAt.getTime() - b.createdAt.getTime() ||
+      a._id.toString().localeCompare(b._id.toString())
+  );
+
+  // Created one at a time so each copy gets a distinct, ordered createdAt
+  // and the conversation's last activity is updated by the save hook
+  const copies: IMessage[] = [];
+  for (const target of targets) {
+    for (const source of sources) {
+      copies.push(
+        await this.create({
+          conversation: target._id,
+          sender: userId,
+          receiver: target.getDirectReceiver(userId),
+          content: source.content,
+          messageType: source.messageType,
+          attachments: source.attachments,
+          storageKeys: source.storageKeys,
+          audio: source.audio,
+          file: source.file,
+          forwardedFrom: source.forwardedFrom ?? {
+            message: source._id,
+            sender: source.sender,
+          },
+        })
+      );
+    }
+  }
+
+  return copies;
+};
+
+/**
+ * Get the replies to a message, oldest first
+ * Paged forwards with the `after` cursor of the previous page.
+ */
+messageSchema.statics.getThread = async function (
+  messageId: string,
+  { after, limit = 50, currentUser }: ThreadPageOptions = {}
+): Promise<ThreadPage> {
+  const docs: IMessage[] = await this.find({
+    replyTo: messageId,
+    ...(after && cursorFilter(after, "after")),
+  })
+    .setOptions({ currentUser })
+    .sort({ createdAt: 1, _id: 1 })
+    .limit(limit + 1)
+    .populate(MESSAGE_POPULATE);
+
+  const hasMore = docs.length > limit;
+  const replies = docs.slice(0, limit);
+  const last = replies[replies.length - 1];
+
+  return {
+    replies,
+    hasMore,
+    cursors: {
+      after: last ? encodeCursor(last) : null,
+    },
+  };
+};
+
+/**
+ * Full-text search over the messages of the user's conversations
+ * Messages deleted for the user or for everyone never match. Results are
+ * newest first and paged towards older matches with the `before` cursor.
+ */
+messageSchema.statics.search = async function (
+  userId: string,
+  {
+    query,
+    conversationId,
+    senderId,
+    from,
+    to,
+    messageType,
+    before,
+    limit = 20,
+  }: SearchOptions
+): Promise<SearchPage> {
+  const user = new Types.ObjectId(userId);
+  const conversationIds = (await Conversation.getIdsForUser(userId)).filter(
+    (id) => !conversationId || id.toString() === conversationId
+  );
+
+  const docs: IMessage[] = await this.find({
+    $text: { $search: query },
+    conversation: { $in: conversationIds },
+    deletedFor: { $ne: user },
+    isDeletedForEveryone: { $ne: true },
+    ...(senderId && { sender: senderId }),
+    ...(messageType && { messageType }),
+    ...((from || to) && {
+      createdAt: { ...(from && { $gte: from }), ...(to && { $lte: to }) },
+    }),
+    ...(before && cursorFilter(before, "before")),
+  })
+    .sort({ createdAt: -1, _id: -1 })
+    .limit(limit + 1)
+    .populate(MESSAGE_POPULATE);
+
+  const hasMore = docs.length > limit;
+  const messages = docs.slice(0, limit);
+  const last = messages[messages.length - 1];
+  const terms = parseSearchTerms(query);
+
+  return {
+    results: messages.map((message) => ({
+      message,
+      snippet: buildSnippet(message.content, terms),
+    })),
+    hasMore,
+    cursors: {
+      before: last ? encodeCursor(last) : null,
+    },
+  };
+};
+
+/**
+ * Get every message of the user's conversations created or changed since a
+ * point in time, oldest change first
+ * Edits, deletions, reactions and read or delivery receipts all bump
+ * updatedAt, so replaying these documents brings a client fully up to date.
+ * Paged forwards with the returned cursor.
+ */
+messageSchema.statics.getChangesSince = async function (
+  userId: string,
+  { since, cursor, limit = 100 }: ChangesPageOptions
+): Promise<ChangesPage> {
+  const conversationIds = await Conversation.getIdsForUser(userId);
+
+  const docs: IMessage[] = await this.find({
+    conversation: { $in: conversationIds },
+    ...(cursor
+      ? cursorFilter(cursor, "after", "updatedAt")
+      : { updatedAt: { $gt: since } }),
+  })
+    .setOptions({ bypassDelete: true })
+    .sort({ updatedAt: 1, _id: 1 })
+    .limit(limit + 1)
+    .populate(MESSAGE_POPULATE);
+
+  const hasMore = docs.length > limit;
+  const page = docs.slice(0, limit);
+  const last = page[page.length - 1];
+
+  const isHidden = (message: IMessage) =>
+    message.deletedFor.some((id) => String(id) === String(userId));
+
+  return {
+    messages: page.filter((message) => !isHidden(message)),
+    deleted: page.filter(isHidden).map((message) => ({
+      messageId: message._id,
+      conversationId: message.conversation,
+    })),
+    hasMore,
+    cursor: last ? encodeCursor(last, "updatedAt") : null,
+  };
+};
+
+/**
+ * Hard delete messages whose timer ran out, oldest first
+ * Returns the deleted IDs grouped by conversation so members can be told to
+ * drop them. When several instances race, a message may be reported twice.
+ */
+messageSchema.statics.deleteExpired = async function (
+  limit: number
+): Promise<ExpiredMessages[]> {
+  const expired: Pick<IMessage, "_id" | "conversation" | "storageKeys">[] =
+    await this.find({
+      expiresAt: { $lte: new Date() },
+    })
+      .setOptions({ includeExpired: true, bypassDelete: true })
+      .sort({ expiresAt: 1 })
+      .limit(limit)
+      .select("_id conversation storageKeys")
+      .lean();
+
+  if (!expired.length) {
+    return [];
+  }
+
+  await this.deleteMany({ _id: { $in: expired.map((m) => m._id) } });
+  await releaseStoredFiles(
+    this,
+    expired.flatMap((m) => m.storageKeys ?? [])
+  );
+
+  const byConversation = new Map<string, ExpiredMessages>();
+  expired.forEach(({ _id, conversation }) => {
+    const key = conversation.toString();
+    if (!byConversation.has(key)) {
+      byConversation.set(key, { conversationId: conversation, messageIds: [] });
+    }
+    byConversation.get(key)!.messageIds.push(_id);
+  });
+
+  return [...byConversation.values()];
+};
+
+/**
+ * Record that a member's device received messages
+ * Only messages from other senders in the member's conversations that were
+ * not yet delivered to them are updated. Returns one receipt per message
+ * that this call delivered, so each sender is notified exactly once.
+ */
+messageSchema.statics.markDelivered = async function (
+  messageIds: string[],
+  userId: string
+): Promise<DeliveryReceipt[]> {
+  const ids = messageIds.filter((id) => mongoose.isValidObjectId(id));
+  if (!ids.length) {
+    return [];
+  }
+
+  const user = new Types.ObjectId(userId);
+  const deliveredAt = new Date();
+  const conversationIds = await Conversation.getIdsForUser(userId);
+
+  await this.updateMany(
+    {
+      _id: { $in: ids },
+      conversation: { $in: conversationIds },
+      sender: { $ne: user },
+      "deliveredTo.user": { $ne: user },
+    },
+    [
+      {
+        $set: {
+          deliveredTo: {
+            $concatArrays: [
+              { $ifNull: ["$deliveredTo", []] },
+              [{ user, deliveredAt }],
+            ],
+          },
+          deliveredAt: { $ifNull: ["$deliveredAt", deliveredAt] },
+          status: {
+            $cond: [{ $eq: ["$status", "sent"] }, "delivered", "$status"],
+          },
+        },
+      },
+    ]
+  );
+
+  // The shared timestamp identifies the entries written by this call
+  const delivered: IMessage[] = await this.find({
+    _id: { $in: ids },
+    deliveredTo: { $elemMatch: { user, deliveredAt } },
+  })
+    .select("conversation sender")
+    .setOptions({ bypassDelete: true });
+
+  return delivered.map((message) => ({
+    messageId: message._id,
+    conversationId: message.conversation,
+    sender: message.sender,
+    deliveredAt,
+  }));
+};
+
+/**
+ * Get the messages a member has not received yet, oldest first
+ * Acts as the offline queue: anything sent while none of the member's
+ * sockets were connected stays undelivered until acknowledged.
+ */
+messageSchema.statics.getUndelivered = async function (
+  userId: string,
+  limit: number
+): Promise<IMessage[]> {
+  const user = new Types.ObjectId(userId);
+  const conversationIds = await Conversation.getIdsForUser(userId);
+
+  const messages: IMessage[] = await this.find({
+    conversation: { $in: conversationIds },
+    sender: { $ne: user },
+    "deliveredTo.user": { $ne: user },
+    readBy: { $ne: user },
+  })
+    .setOptions({ currentUser: userId })
+    .sort({ createdAt: -1, _id: -1 })
     .limit(limit)
-    .populate("sender", "username avatar")
-    .populate("receiver", "username avatar");
+    .populate(MESSAGE_POPULATE);
+
+  return messages.reverse();
 };
 
 /**
- * Get unread message count for a user
+ * Get unread message count for a user across all conversations
  */
 messageSchema.statics.getUnreadCount = async function (
   userId: string
 ): Promise<number> {
+  const conversationIds = await Conversation.getIdsForUser(userId);
+
   return this.countDocuments({
-    receiver: userId,
-    status: { $ne: "read" },
+    conversation: { $in: conversationIds },
+    sender: { $ne: userId },
+    readBy: { $ne: userId },
+    deletedFor: { $ne: userId },
+    expiresAt: { $not: { $lte: new Date() } },
   });
 };
 
+/**
+ * Get the inbox summaries of every conversation the user has messages in
+ * Built as a single aggregation: latest message and unread count per
+ * conversation, sorted by most recent activity
+ */
+messageSchema.statics.getConversationSummaries = async function (
+  userId: string
+): Promise<ConversationSummary[]> {
+  const conversationIds = await Conversation.getIdsForUser(userId);
+  const user = new Types.ObjectId(userId);
+
+  return this.aggregate([
+    {
+      $match: {
+        conversation: { $in: conversationIds },
+        deletedFor: { $ne: user },
+        expiresAt: { $not: { $lte: new Date() } },
+      },
+    },
+    { $sort: { createdAt: -1, _id: -1 } },
+    {
+      $group: {
+        _id: "$conversation",
+        lastMessage: { $first: "$$ROOT" },
+        unreadCount: {
+          $sum: {
+            $cond: [
+              {
+                $and: [
+                  { $ne: ["$sender", user] },
+                  { $not: [{ $in: [user, { $ifNull: ["$readBy", []] }] }] },
+                ],
+              },
+              1,
+              0,
+            ],
+          },
+        },
+      },
+    },
+    { $sort: { "lastMessage.createdAt": -1 } },
+    {
+      $lookup: {
+        from: "users",
+        localField: "lastMessage.sender",
+        foreignField: "_id",
+        pipeline: [{ $project: { username: 1 } }],
+        as: "sender",
+      },
+    },
+    {
+      $project: {
+        _id: 0,
+        conversationId: "$_id",
+        unreadCount: 1,
+        lastMessage: {
+          _id: "$lastMessage._id",
+          content: { $substrCP: ["$lastMessage.content", 0, 100] },
+          messageType: "$lastMessage.messageType",
+          status: "$lastMessage.status",
+          createdAt: "$lastMessage.createdAt",
+          sender: { $first: "$sender" },
+        },
+      },
+    },
+  ]);
+};
+
+/**
+ * Mark every unread message of a conversation as read by the user
+ * Returns the number of messages that were updated
+ */
+messageSchema.statics.markConversationAsRead = async function (
+  conversationId: string,
+  userId: string
+): Promise<number> {
+  const user = new Types.ObjectId(userId);
+
+  const result = await this.updateMany(
+    {
+      conversation: conversationId,
+      sender: { $ne: user },
+      readBy: { $ne: user },
+    },
+    [
+      {
+        $set: {
+          readBy: { $concatArrays: [{ $ifNull: ["$readBy", []] }, [user]] },
+          status: "read",
+          readAt: { $ifNull: ["$readAt", "$$NOW"] },
+        },
+      },
+    ]
+  );
+
+  return result.modifiedCount;
+};
+
 /**
  * Create and export the Message model
  */
@@ -211,23 +2142,124 @@ export const Message = mongoose.model<IMessage, IMessageModel>(
  *
  * 1. Create new message:
  * const message = await Message.create({
+ *   conversation: conversationId,
  *   sender: senderId,
- *   receiver: receiverId,
+ *   receiver: receiverId, // direct conversations only
  *   content: 'Hello!',
  *   messageType: 'text'
  * });
  *
+ *
  * 2. Get conversation:
- * const messages = await Message.getConversation(user1Id, user2Id);
+ * const { messages, hasMore, cursors } = await Message.getConversation(
+ *   conversationId,
+ *   { before: decodeCursor(req.query.before), limit: 50 }
+ * );
  *
  * 3. Mark as read:
- * await message.markAsRead();
+ * await message.markAsRead(userId);
  *
  * 4. Soft delete:
  * await message.softDelete(userId);
+ * if (message.isUnsendableBy(userId)) await message.deleteForEveryone();
+
  *
  * 5. Get unread count:
  * const count = await Message.getUnreadCount(userId);
+ *
+ * 6. Get inbox summaries:
+ * const summaries = await Message.getConversationSummaries(userId);
+ *
+ * 7. Edit (sender only, within the edit window):
+ * if (message.isEditableBy(userId)) await message.editContent('Fixed typo');
+ *
+ * 8. React:
+ * await message.addReaction('👍', userId);
+ * await message.removeReaction('👍', userId);
+ *
+ * 9. Reply and load a thread:
+ * const replyTo = await Message.findReplyTarget(quotedId, conversationId);
+ * await Message.create({ conversation: conversationId, sender, content, replyTo });
+ * const { replies } = await Message.getThread(quotedId, { currentUser: userId });
+ *
+ * 10. Delivery acknowledgements:
+ * const queued = await Message.getUndelivered(userId, 200);
+ * const receipts = await Message.markDelivered(messageIds, userId);
+ *
+ * 11. Catch up after a reconnect:
+ * const { messages, deleted, hasMore, cursor } = await Message.getChangesSince(
+ *   userId,
+ *   { since: lastSeenAt, limit: 100 }
+ * );
+ *
+ * 12. Search:
+ * const { results } = await Message.search(userId, {
+ *   query: 'release notes',
+ *   messageType: 'text',
+ *   from: new Date('2024-01-01')
+ * });
+ *
+ * 13. Pin (any participant, up to the per conversation limit):
+ * if (!(await message.pin(userId))) throw new Error('Pin limit reached');
+ * const pinned = await Message.getPinned(conversationId, userId);
+ *
+ * 14. Star privately:
+ * await message.star(userId);
+ * const { messages } = await Message.getStarred(userId, { limit: 50 });
+ *
+ * 15. Send with a client generated ID (safe to retry):
+ * const { message, created } = await Message.findOrCreateByClientId({
+ *   conversation: conversationId,
+ *   sender: senderId,
+ *   content: 'Hello!',
+ *   clientMessageId: 'c0a8012e-7f3b-4b1e-9d2a-5e6f7a8b9c0d'
+ * });
+ *
+ * 16. Forward messages into other conversations:
+ * const copies = await Message.forward([messageId], userId, [target]);
+ *
+ * 17. Remove messages of disappearing conversations:
+ * const expired = await Message.deleteExpired(500);
+ *
+ * 18. Run a poll:
+ * const poll = parsePoll({ question: 'Lunch?', options: ['Pizza', 'Sushi'] });
+ * await message.vote(userId, [optionId]);
+ * await message.closePoll();
+ *
+ * 19. Store a voice note measured on upload:
+ * const wav = parseWav(file.buffer);
+ * await Message.create({
+ *   conversation, sender, messageType: 'audio', content: 'Voice message',
+ *   attachments: [url], audio: { duration: wav.duration, waveform: wav.waveform }
+ * });
+ *
+ * 20. Stream a conversation for export:
+ * const cursor = Message.exportCursor(conversationId, { from, to, currentUser });
+ * for (let message = await cursor.next(); message; message = await cursor.next()) {
+ *   write(toExportRecord(message));
+ * }
+ *
+ * 21. Import a chat history with its original times:
+ * await Message.importMessages(conversation, [
+ *   { sender, content: 'Hi', messageType: 'text', attachments: [], createdAt }
+ * ], { dryRun: true });
+ *
+ * 22. Attach an uploaded file:
+ * const stored = await storage.save(buffer, { folder: 'attachments', mimeType, extension });
+ * await Message.create({
+ *   conversation, sender, messageType: 'file', content: 'report.pdf',
+ *   attachments: [stored.url], file: { name: 'report.pdf', size, mimeType }
+ * });
+ *
+ * 23. Attach an image with its resized variants:
+ * const image = await processImage(buffer, mimeType);
+ * await Message.create({
+ *   conversation, sender, messageType: 'image', content: 'photo.jpg',
+ *   attachments: [stored.url],
+ *   file: { name: 'photo.jpg', size, mimeType, width: image.width,
+ *     height: image.height, placeholder: image.placeholder,
+ *     variants: [{ name: 'thumbnail', url, width: 320, height: 240 }] }
+ * });
  */
 
 /**
@@ -0,0 +1,256 @@
+/**
+ * @file ScheduledMessage.ts
+ * @description Scheduled message model for the chat application
+ *
+ * A scheduled message is a job that sends a Message on behalf of its sender
+ * at a later time. Jobs live in MongoDB so they survive restarts, and every
+ * server instance polls for due jobs, claiming each one atomically.
+ */
+
+import mongoose, { Document, Schema, Types } from "mongoose";
+import { IMessage } from "./Message";
+
+export type ScheduledMessageStatus =
+  | "pending"
+  | "sending"
+  | "sent"
+  | "failed"
+  | "cancelled";
+
+/**
+ * Scheduled Message Interface Definition
+ * @extends Document to inherit MongoDB document functionality
+ */
+export interface IScheduledMessage extends Document<Types.ObjectId> {
+  sender: Types.ObjectId;
+  conversation: Types.ObjectId;
+  content: string;
+  messageType: IMessage["messageType"];
+  sendAt: Date;
+  timeZone: string; // Zone the sender scheduled in, for display and edits
+  status: ScheduledMessageStatus;
+  attempts: number;
+  lockedBy?: string;
+  lockedUntil?: Date;
+  message?: Types.ObjectId; // The message created when the job ran
+  sentAt?: Date;
+  lastError?: string;
+  createdAt: Date;
+  updatedAt: Date;
+  clientMessageId: () => string;
+}
+
+/**
+ * Fields a sender may change before the job runs
+ */
+export interface ScheduledMessageChanges {
+  content?: string;
+  sendAt?: Date;
+  timeZone?: string;
+  status?: "cancelled";
+}
+
+/**
+ * Static methods interface
+ */
+interface IScheduledMessageModel extends mongoose.Model<IScheduledMessage> {
+  claimNext(
+    workerId: string,
+    lockMs: number
+  ): Promise<IScheduledMessage | null>;
+  updatePending(
+    jobId: string,
+    senderId: string,
+    changes: ScheduledMessageChanges
+  ): Promise<IScheduledMessage | null>;
+}
+
+/**
+ * MongoDB Schema Definition for ScheduledMessage
+ *
+ * Features:
+ * 1. Send time stored as an instant, with the sender's timezone kept
+ * 2. Lease style locking so a crashed instance's jobs are picked up again
+ * 3. Link to the message that was sent
+ */
+const scheduledMessageSchema = new Schema<
+  IScheduledMessage,
+  IScheduledMessageModel
+>(
+  {
+    sender: {
+      type: Schema.Types.ObjectId,
+      ref: "User",
+      required: [true, "Sender is required"],
+    },
+
+    conversation: {
+      type: Schema.Types.ObjectId,
+      ref: "Conversation",
+      required: [true, "Conversation is required"],
+    },
+
+    content: {
+      type: String,
+      required: [true, "Message content is required"],
+      trim: true,
+      maxlength: [5000, "Message cannot exceed 5000 characters"],
+    },
+
+    messageType: {
+      type: String,
+      enum: ["text", "image", "file"],
+      default: "text",
+    },
+
+    sendAt: {
+      type: Date,
+      required: [true, "Send time is required"],
+    },
+
+    timeZone: {
+      type: String,
+      default: "UTC",
+    },
+
+    status: {
+      type: String,
+      enum: ["pending", "sending", "sent", "failed", "cancelled"],
+      default: "pending",
+    },
+
+    attempts: {
+      type: Number,
+      default: 0,
+    },
+
+    lockedBy: {
+      type: String,
+      // Instance currently sending the message
+    },
+
+    lockedUntil: {
+      type: Date,
+      // Once passed, another instance may retry the job
+    },
+
+    message: {
+      type: Schema.Types.ObjectId,
+      ref: "Message",
+    },
+
+    sentAt: {
+      type: Date,
+    },
+
+    lastError: {
+      type: String,
+    },
+  },
+  {
+    timestamps: true, // Adds createdAt and updatedAt
+  }
+);
+
+/**
+ * Indexes for query optimization
+ */
+scheduledMessageSchema.index({ status: 1, sendAt: 1 }); // Due jobs
+scheduledMessageSchema.index({ status: 1, lockedUntil: 1 }); // Expired locks
+scheduledMessageSchema.index({ sender: 1, status: 1, sendAt: 1 });
+
+/**
+ * Instance Methods
+ */
+
+/**
+ * Client message ID of the message this job sends
+ * Stable per job, so a retried job finds the message a previous attempt
+ * created instead of sending it twice.
+ */
+scheduledMessageSchema.methods.clientMessageId = function (): string {
+  return `scheduled:${this._id}`;
+};
+
+/**
+ * Static Methods
+ */
+
+/**
+ * Claim the next due job for a worker
+ * The claim is a single atomic update, so each job is handed to one instance.
+ * Jobs left in "sending" by an instance that died are claimed again once
+ * their lock expires.
+ */
+scheduledMessageSchema.statics.claimNext = async function (
+  workerId: string,
+  lockMs: number
+): Promise<IScheduledMessage | null> {
+  const now = new Date();
+
+  return this.findOneAndUpdate(
+    {
+      $or: [
+        { status: "pending", sendAt: { $lte: now } },
+        { status: "sending", lockedUntil: { $lte: now } },
+      ],
+    },
+    {
+      $set: {
+        status: "sending",
+        lockedBy: workerId,
+        lockedUntil: new Date(now.getTime() + lockMs),
+      },
+      $inc: { attempts: 1 },
+    },
+    { sort: { sendAt: 1 }, new: true }
+  );
+};
+
+/**
+ * Change a sender's job that has not been claimed yet
+ * Returns null when the job does not exist or already started sending, so an
+ * edit can never race with the scheduler.
+ */
+scheduledMessageSchema.statics.updatePending = async function (
+  jobId: string,
+  senderId: string,
+  changes: ScheduledMessageChanges
+): Promise<IScheduledMessage | null> {
+  if (!mongoose.isValidObjectId(jobId)) {
+    return null;
+  }
+
+  return this.findOneAndUpdate(
+    { _id: jobId, sender: senderId, status: "pending" },
+    { $set: changes },
+    { new: true, runValidators: true }
+  );
+};
+
+/**
+ * Create and export the ScheduledMessage model
+ */
+export const ScheduledMessage = mongoose.model<
+  IScheduledMessage,
+  IScheduledMessageModel
+>("ScheduledMessage", scheduledMessageSchema);
+
+/**
+ * Usage Examples:
+ *
+ * 1. Schedule a message:
+ * const job = await ScheduledMessage.create({
+ *   sender: senderId,
+ *   conversation: conversationId,
+ *   content: 'Good morning!',
+ *   sendAt: zonedTimeToUtc('2024-05-01T09:00', 'Asia/Kolkata'),
+ *   timeZone: 'Asia/Kolkata'
+ * });
+ *
+ * 2. Claim a due job:
+ * const job = await ScheduledMessage.claimNext(workerId, 60000);
+ *
+ * 3. Cancel a job before it runs:
+ * await ScheduledMessage.updatePending(jobId, senderId, { status: 'cancelled' });
+ */
@@ -10,11 +10,48 @@ import express, { Router } from "express";
 import { auth } from "../middlewares/auth.middleware";
 import {
   sendMessage,
+  forwardMessages,
   getConversation,
   markMessageAsRead,
   deleteMessage,
+  editMessage,
+  getThread,
+  addReaction,
+  removeReaction,
   getUnreadCount,
+  searchMessages,
+  pinMessage,
+  unpinMessage,
+  getPinnedMessages,
+  starMessage,
+  unstarMessage,
+  getStarredMessages,
 } from "../controllers/chat.controller";
+import {
+  getConversations,
+  markConversationAsRead,
+  createGroupConversation,
+  openDirectConversation,
+  updateConversation,
+  setDisappearingMessages,
+  addMembers,
+  removeMember,
+  updateMemberRole,
+} from "../controllers/conversation.controller";
+import {
+  scheduleMessage,
+  getScheduledMessages,
+  updateScheduledMessage,
+  cancelScheduledMessage,
+} from "../controllers/scheduled.controller";
+import {
+  getDrafts,
+  getDraft,
+  saveDraft,
+  deleteDraft,
+} from "../controllers/draft.controller";
+import { votePoll, closePoll } from "../controllers/poll.controller";
+import { exportConversation } from "../controllers/export.controller";
 
 const router: Router = express.Router();
 
@@ -28,22 +65,269 @@ const router: Router = express.Router();
  * @desc    Send a new message
  * @access  Private
  * @body    {
- *            receiverId: string,
- *            content: string,
- *            messageType?: 'text' | 'image' | 'file'
+ *            conversationId?: string,
+ *            receiverId?: string,
+ *            content: string,  // Not needed for polls, the question is the content
+ *            messageType?: 'text' | 'image' | 'file' | 'poll',
+ *            replyTo?: string,  // ID of a quoted message in the same conversation
+ *            clientMessageId?: string,  // Unique per sender, retries return the original
+ *            poll?: {  // Required when messageType is 'poll'
+ *              question: string,
+ *              options: string[],
+ *              multipleChoice?: boolean,
+ *              anonymous?: boolean,  // Voters are never shown, only tallies
+ *              closesAt?: string
+ *            }
  *          }
  */
 router.post("/messages", auth, sendMessage);
 
 /**
- * @route   GET /api/chat/conversations/:userId
- * @desc    Get conversation with a specific user
+ * @route   POST /api/chat/messages/forward
+ * @desc    Copy messages into other conversations, with their attachments
+ * @access  Private
+ * @body    {
+ *            messageIds: string[],      // From conversations you belong to
+ *            conversationIds: string[]  // Conversations to forward them to
+ *          }
+ */
+router.post("/messages/forward", auth, forwardMessages);
+
+/**
+ * Scheduled Message Routes
+ * The send time is either an absolute `sendAt` timestamp, or a `localTime`
+ * such as "2024-05-01T09:00" in the IANA `timeZone` (default: UTC).
+ */
+
+/**
+ * @route   POST /api/chat/scheduled
+ * @desc    Schedule a message to be sent later
+ * @access  Private
+ * @body    {
+ *            conversationId?: string,
+ *            receiverId?: string,
+ *            content: string,
+ *            messageType?: 'text', // Only text can be scheduled
+ *            sendAt?: string,     // ISO timestamp
+ *            localTime?: string,  // Wall-clock time in timeZone
+ *            timeZone?: string    // e.g. 'Asia/Kolkata'
+ *          }
+ */
+router.post("/scheduled", auth, scheduleMessage);
+
+/**
+ * @route   GET /api/chat/scheduled
+ * @desc    List your scheduled messages, soonest first
+ * @access  Private
+ * @query   status - 'pending' (default), 'sending', 'sent', 'failed' or 'cancelled'
+ * @query   conversationId - Only messages scheduled in this conversation
+ */
+router.get("/scheduled", auth, getScheduledMessages);
+
+/**
+ * @route   PATCH /api/chat/scheduled/:jobId
+ * @desc    Change the content or send time of a message not yet sent
+ * @access  Private
+ * @param   jobId - ID of the scheduled message
+ * @body    { content?: string, sendAt?: string, localTime?: string, timeZone?: string }
+ */
+router.patch("/scheduled/:jobId", auth, updateScheduledMessage);
+
+/**
+ * @route   DELETE /api/chat/scheduled/:jobId
+ * @desc    Cancel a message not yet sent
+ * @access  Private
+ * @param   jobId - ID of the scheduled message
+ */
+router.delete("/scheduled/:jobId", auth, cancelScheduledMessage);
+
+/**
+ * Draft Routes
+ * Drafts are private to each user. Changes are pushed to the user's other
+ * sessions as `draftUpdated` events, naming the `sessionId` that made them.
+ */
+
+/**
+ * @route   GET /api/chat/drafts
+ * @desc    List your drafts, most recently changed first
+ * @access  Private
+ */
+router.get("/drafts", auth, getDrafts);
+
+/**
+ * Conversation Routes
+ */
+
+/**
+ * @route   GET /api/chat/conversations
+ * @desc    List the caller's conversations with last message preview and
+ *          unread count, most recent activity first
+ * @access  Private
+ */
+router.get("/conversations", auth, getConversations);
+
+/**
+ * @route   POST /api/chat/conversations
+ * @desc    Create a group conversation, the creator becomes its owner
+ * @access  Private
+ * @body    { title: string, avatar?: string, memberIds: string[] }
+ */
+router.post("/conversations", auth, createGroupConversation);
+
+/**
+ * @route   POST /api/chat/conversations/direct
+ * @desc    Open (find or create) the direct conversation with a user
+ * @access  Private
+ * @body    { userId: string }
+ */
+router.post("/conversations/direct", auth, openDirectConversation);
+
+/**
+ * @route   GET /api/chat/conversations/:id
+ * @desc    Get the messages of a conversation
+ * @access  Private
+ * @param   id - Conversation ID, or the ID of a user for the direct chat with them
+ * @query   before - Cursor to page towards older messages
+ * @query   after - Cursor to page towards newer messages
+ * @query   limit - Number of messages per page (default: 50, max: 100)
+ */
+router.get("/conversations/:id", auth, getConversation);
+
+/**
+ * @route   GET /api/chat/conversations/:conversationId/pins
+ * @desc    List the pinned messages of a conversation in pin order
+ * @access  Private
+ * @param   conversationId - ID of the conversation
+ */
+router.get("/conversations/:conversationId/pins", auth, getPinnedMessages);
+
+/**
+ * @route   GET /api/chat/conversations/:conversationId/export
+ * @desc    Download the messages of a conversation as a file
+ * @access  Private
+ * @param   conversationId - ID of the conversation
+ * @query   format - json (default), txt or html
+ * @query   from - Only messages sent at or after this date
+ * @query   to - Only messages sent before this date
+ */
+router.get("/conversations/:conversationId/export", auth, exportConversation);
+
+/**
+ * @route   PUT /api/chat/conversations/:conversationId/read
+ * @desc    Mark every message of a conversation as read
+ * @access  Private
+ */
+router.put("/conversations/:conversationId/read", auth, markConversationAsRead);
+
+/**
+ * @route   PATCH /api/chat/conversations/:conversationId
+ * @desc    Update the title or avatar of a group (owner/admin)
+ * @access  Private
+ * @body    { title?: string, avatar?: string }
+ */
+router.patch("/conversations/:conversationId", auth, updateConversation);
+
+/**
+ * @route   GET /api/chat/conversations/:conversationId/draft
+ * @desc    Get your draft in a conversation (data is null without one)
+ * @access  Private
+ */
+router.get("/conversations/:conversationId/draft", auth, getDraft);
+
+/**
+ * @route   PUT /api/chat/conversations/:conversationId/draft
+ * @desc    Save your draft in a conversation, empty content deletes it
+ * @access  Private
+ * @body    { content: string, sessionId?: string }
+ */
+router.put("/conversations/:conversationId/draft", auth, saveDraft);
+
+/**
+ * @route   DELETE /api/chat/conversations/:conversationId/draft
+ * @desc    Delete your draft in a conversation
+ * @access  Private
+ * @body    { sessionId?: string }
+ */
+router.delete("/conversations/:conversationId/draft", auth, deleteDraft);
+
+/**
+ * @route   PUT /api/chat/conversations/:conversationId/disappearing
+ * @desc    Set the disappearing messages timer, for messages sent afterwards
+ *          (any member of a direct chat, owner/admin of a group)
+ * @access  Private
+ * @body    { ttl: 'off' | '1h' | '1d' | '7d' }
+ */
+router.put(
+  "/conversations/:conversationId/disappearing",
+  auth,
+  setDisappearingMessages
+);
+
+/**
+ * @route   POST /api/chat/conversations/:conversationId/members
+ * @desc    Add members to a group (owner/admin)
+ * @access  Private
+ * @body    { memberIds: string[] }
+ */
+router.post("/conversations/:conversationId/members", auth, addMembers);
+
+/**
+ * @route   DELETE /api/chat/conversations/:conversationId/members/:userId
+ * @desc    Remove a member from a group, or leave it when userId is yourself
+ * @access  Private
+ */
+router.delete(
+  "/conversations/:conversationId/members/:userId",
+  auth,
+  removeMember
+);
+
+/**
+ * @route   PUT /api/chat/conversations/:conversationId/members/:userId/role
+ * @desc    Change a member's role (owner only), "owner" transfers ownership
+ * @access  Private
+ * @body    { role: 'owner' | 'admin' | 'member' }
+ */
+router.put(
+  "/conversations/:conversationId/members/:userId/role",
+  auth,
+  updateMemberRole
+);
+
+/**
+ * @route   GET /api/chat/messages/starred
+ * @desc    List the messages you starred, newest first
+ * @access  Private
+ * @query   before - Cursor to page towards older messages
+ * @query   limit - Number of messages per page (default: 50, max: 100)
+ */
+router.get("/messages/starred", auth, getStarredMessages);
+
+/**
+ * @route   PUT /api/chat/messages/:messageId/star
+ * @desc    Star a message for yourself (never visible to others)
+ * @access  Private
+ * @param   messageId - ID of the message to star
+ */
+router.put("/messages/:messageId/star", auth, starMessage);
+
+/**
+ * @route   DELETE /api/chat/messages/:messageId/star
+ * @desc    Remove your star from a message
+ * @access  Private
+ * @param   messageId - ID of the message to unstar
+ */
+router.delete("/messages/:messageId/star", auth, unstarMessage);
+
+/**
+ * @route   GET /api/chat/messages/:messageId/thread
+ * @desc    Get a message and its replies, oldest first
  * @access  Private
- * @param   userId - ID of the user to get conversation with
- * @query   page - Page number for pagination (default: 1)
- * @query   limit - Number of messages per page (default: 50)
+ * @param   messageId - ID of the quoted message
+ * @query   after - Cursor for the next page of replies
+ * @query   limit - Number of replies per page (default: 50, max: 100)
  */
-router.get("/conversations/:userId", auth, getConversation);
+router.get("/messages/:messageId/thread", auth, getThread);
 
 /**
  * @route   PUT /api/chat/messages/:messageId/read
@@ -53,14 +337,89 @@ router.get("/conversations/:userId", auth, getConversation);
  */
 router.put("/messages/:messageId/read", auth, markMessageAsRead);
 
+/**
+ * @route   PATCH /api/chat/messages/:messageId
+ * @desc    Edit a message (sender only, within the edit window)
+ * @access  Private
+ * @param   messageId - ID of the message to edit
+ * @body    { content: string }
+ */
+router.patch("/messages/:messageId", auth, editMessage);
+
+/**
+ * @route   POST /api/chat/messages/:messageId/reactions
+ * @desc    React to a message with an emoji (once per user per emoji)
+ * @access  Private
+ * @param   messageId - ID of the message to react to
+ * @body    { emoji: string }
+ */
+router.post("/messages/:messageId/reactions", auth, addReaction);
+
+/**
+ * @route   DELETE /api/chat/messages/:messageId/reactions/:emoji
+ * @desc    Remove your reaction with the given (URL encoded) emoji
+ * @access  Private
+ * @param   messageId - ID of the message
+ * @param   emoji - The emoji to remove
+ */
+router.delete("/messages/:messageId/reactions/:emoji", auth, removeReaction);
+
+/**
+ * @route   PUT /api/chat/messages/:messageId/pin
+ * @desc    Pin a message in its conversation (limited per conversation)
+ * @access  Private
+ * @param   messageId - ID of the message to pin
+ */
+router.put("/messages/:messageId/pin", auth, pinMessage);
+
+/**
+ * @route   DELETE /api/chat/messages/:messageId/pin
+ * @desc    Unpin a message
+ * @access  Private
+ * @param   messageId - ID of the message to unpin
+ */
+router.delete("/messages/:messageId/pin", auth, unpinMessage);
+
+/**
+ * @route   PUT /api/chat/messages/:messageId/poll/vote
+ * @desc    Vote in a poll, replacing your previous vote
+ * @access  Private
+ * @param   messageId - ID of the poll message
+ * @body    { optionIds: string[] }  // Empty to withdraw your vote
+ */
+router.put("/messages/:messageId/poll/vote", auth, votePoll);
+
+/**
+ * @route   POST /api/chat/messages/:messageId/poll/close
+ * @desc    Close a poll before its close time (creator only)
+ * @access  Private
+ * @param   messageId - ID of the poll message
+ */
+router.post("/messages/:messageId/poll/close", auth, closePoll);
+
 /**
  * @route   DELETE /api/chat/messages/:messageId
- * @desc    Delete a message (soft delete)
+ * @desc    Delete a message for yourself (soft delete), or for everyone
  * @access  Private
  * @param   messageId - ID of the message to delete
+ * @query   scope - "everyone" to unsend (sender only, within the unsend window)
  */
 router.delete("/messages/:messageId", auth, deleteMessage);
 
+/**
+ * @route   GET /api/chat/search
+ * @desc    Full-text search across your conversations, newest first
+ * @access  Private
+ * @query   q - Search text (2-200 characters), supports "phrases" and -exclusions
+ * @query   conversationId - Only search this conversation
+ * @query   senderId - Only messages from this user
+ * @query   from, to - Date range (ISO 8601)
+ * @query   type - Message type: text, image, file, system, poll or audio
+ * @query   before - Cursor to page towards older matches
+ * @query   limit - Number of results per page (default: 20, max: 50)
+ */
+router.get("/search", auth, searchMessages);
+
 /**
  * @route   GET /api/chat/messages/unread/count
  * @desc    Get count of unread messages
@@ -69,6 +428,36 @@ router.delete("/messages/:messageId", auth, deleteMessage);
 router.get("/messages/unread/count", auth, getUnreadCount);
 
 /**
+ * Paginated Conversation Response:
+ * {
+ *   "success": true,
+ *   "data": {
+ *     "conversationId": "conversation_id",
+ *     "messages": [...],          // chronological order
+ *     "starred": ["message_id"],  // messages of the page you starred
+ *     "hasMore": true,            // more messages in the paging direction
+ *     "cursors": { "before": "...", "after": "..." }
+ *   }
+ * }
+ *
+ * Search Response:
+ * {
+ *   "success": true,
+ *   "data": {
+ *     "results": [
+ *       {
+ *         "message": { ... },
+ *         "snippet": {
+ *           "text": "…the release notes are ready",
+ *           "highlights": [{ "start": 5, "end": 12 }]   // offsets into text
+ *         }
+ *       }
+ *     ],
+ *     "hasMore": false,
+ *     "cursors": { "before": "..." }
+ *   }
+ * }
+ *
  * Success Response Format:
  * {
  *   "success": true,
@@ -92,20 +481,102 @@ export default router;
  * 1. Send Message:
  * POST /api/chat/messages
  * {
- *   "receiverId": "user_id",
+ *   "receiverId": "user_id",         // or "conversationId": "conversation_id"
  *   "content": "Hello!",
- *   "messageType": "text"
+ *   "messageType": "text",
+ *   "clientMessageId": "c0a8012e-7f3b-4b1e-9d2a-5e6f7a8b9c0d"  // optional
  * }
  *
  * 2. Get Conversation:
- * GET /api/chat/conversations/user_id?page=1&limit=50
+ * GET /api/chat/conversations/conversation_id?limit=50
+ * GET /api/chat/conversations/conversation_id?before=<cursors.before>&limit=50
  *
  * 3. Mark as Read:
  * PUT /api/chat/messages/message_id/read
  *
  * 4. Delete Message:
  * DELETE /api/chat/messages/message_id
+ * DELETE /api/chat/messages/message_id?scope=everyone
  *
  * 5. Get Unread Count:
  * GET /api/chat/messages/unread/count
+ *
+ * 6. List Conversations (inbox):
+ * GET /api/chat/conversations
+ *
+ * 7. Create Group:
+ * POST /api/chat/conversations
+ * {
+ *   "title": "Project X",
+ *   "memberIds": ["user_id_1", "user_id_2"]
+ * }
+ *
+ * 8. Edit Message:
+ * PATCH /api/chat/messages/message_id
+ * { "content": "Fixed typo" }
+ *
+ * 9. React to a Message:
+ * POST /api/chat/messages/message_id/reactions
+ * { "emoji": "👍" }
+ * DELETE /api/chat/messages/message_id/reactions/%F0%9F%91%8D
+ *
+ * 10. Reply and view a Thread:
+ * POST /api/chat/messages
+ * { "conversationId": "conversation_id", "content": "Agreed", "replyTo": "message_id" }
+ * GET /api/chat/messages/message_id/thread?after=<cursors.after>
+ *
+ * 11. Search Messages:
+ * GET /api/chat/search?q=release%20notes&type=text&from=2024-01-01
+ *
+ * 12. Pin Messages:
+ * PUT /api/chat/messages/message_id/pin
+ * DELETE /api/chat/messages/message_id/pin
+ * GET /api/chat/conversations/conversation_id/pins
+ *
+ * 13. Star Messages (private):
+ * PUT /api/chat/messages/message_id/star
+ * DELETE /api/chat/messages/message_id/star
+ * GET /api/chat/messages/starred?before=<cursors.before>
+ *
+ * 14. Forward Messages:
+ * POST /api/chat/messages/forward
+ * {
+ *   "messageIds": ["message_id_1", "message_id_2"],
+ *   "conversationIds": ["conversation_id_1", "conversation_id_2"]
+ * }
+ *
+ * 15. Schedule a Message for 9am in the recipient's timezone:
+ * POST /api/chat/scheduled
+ * {
+ *   "conversationId": "conversation_id",
+ *   "content": "Good morning!",
+ *   "localTime": "2024-05-01T09:00",
+ *   "timeZone": "Asia/Kolkata"
+ * }
+ * PATCH /api/chat/scheduled/job_id
+ * { "localTime": "2024-05-01T10:00" }
+ * DELETE /api/chat/scheduled/job_id
+ *
+ * 16. Turn on Disappearing Messages:
+ * PUT /api/chat/conversations/conversation_id/disappearing
+ * { "ttl": "1d" }
+ *
+ * 17. Keep a Draft:
+ * PUT /api/chat/conversations/conversation_id/draft
+ * { "content": "Half written mess", "sessionId": "tab_id" }
+ * GET /api/chat/conversations/conversation_id/draft
+ *
+ * 18. Run a Poll:
+ * POST /api/chat/messages
+ * {
+ *   "conversationId": "conversation_id",
+ *   "messageType": "poll",
+ *   "poll": { "question": "Lunch?", "options": ["Pizza", "Sushi"] }
+ * }
+ * PUT /api/chat/messages/message_id/poll/vote
+ * { "optionIds": ["option_id"] }
+ * POST /api/chat/messages/message_id/poll/close
+ *
+ * 19. Export a Conversation:
+ * GET /api/chat/conversations/conversation_id/export?format=html&from=2024-01-01
  */
@@ -1,7 +1,13 @@
-import express, { Request, Response } from "express";
+import express, { NextFunction, Request, Response } from "express";
 import multer, { FileFilterCallback } from "multer";
-import cloudinary from "../utils/cloudinary";
 import { logger } from "../utils/logger";
+import { auth } from "../middlewares/auth.middleware";
+import { chatConfig } from "../config/chat";
+import { sendVoiceNote } from "../controllers/voice.controller";
+import { importChat } from "../controllers/import.controller";
+import { sendAttachment } from "../controllers/attachment.controller";
+import { ATTACHMENT_TYPES } from "../utils/fileType";
+import { storage as fileStorage } from "../storage";
 
 const router = express.Router();
 
@@ -43,32 +49,21 @@ router.post(
         });
       }
 
-      // Convert buffer to base64
-      const fileStr = `data:${req.file.mimetype};base64,${req.file.buffer.toString("base64")}`;
-
-      // Upload to Cloudinary with optimized settings
-      const uploadResponse = await cloudinary.uploader.upload(fileStr, {
+      const stored = await fileStorage.save(req.file.buffer, {
         folder: "avatars",
-        resource_type: "auto",
-        allowed_formats: ["jpg", "png", "jpeg"],
-        quality: "auto",
-        fetch_format: "auto",
-        width: 500,
-        height: 500,
-        crop: "fill",
-        transformation: [
-          { width: 500, height: 500, crop: "fill", gravity: "face" },
-        ],
+        mimeType: req.file.mimetype,
+        extension: ATTACHMENT_TYPES[req.file.mimetype].extension,
+        crop: { width: 500, height: 500 },
       });
 
-      logger.info("File uploaded to Cloudinary:", {
-        publicId: uploadResponse.public_id,
-        url: uploadResponse.secure_url,
+      logger.info(`Avatar uploaded to ${fileStorage.name} storage:`, {
+        key: stored.key,
+        url: stored.url,
       });
 
       return res.status(200).json({
         success: true,
-        url: uploadResponse.secure_url,
+        url: stored.url,
       });
     } catch (error) {
       logger.error("Upload error:", error);
@@ -81,4 +76,159 @@ router.post(
   }
 );
 
+// Voice notes are checked by content in the controller, the declared type
+// only turns away files that are obviously not audio
+const voiceNoteUpload = multer({
+  storage,
+  limits: {
+    fileSize: chatConfig.maxVoiceNoteBytes,
+    files: 1,
+  },
+  fileFilter: (
+    _req: Request,
+    file: any, // Using any since Express.Multer type is not available
+    cb: FileFilterCallback
+  ) => {
+    if (file.mimetype.startsWith("audio/")) {
+      cb(null, true);
+    } else {
+      cb(new Error("Only audio recordings are allowed"));
+    }
+  },
+}).single("audio");
+
+type UploadError = { code?: string; message: string };
+
+// Answer upload errors with a client error instead of the generic handler
+const receiveFile =
+  (
+    upload: (
+      req: Request,
+      res: Response,
+      done: (error?: UploadError) => void
+    ) => void,
+    tooLargeMessage: string
+  ) =>
+  (req: Request, res: Response, next: NextFunction) => {
+    upload(req, res, (error) => {
+      if (!error) {
+        return next();
+      }
+
+      const tooLarge = error.code === "LIMIT_FILE_SIZE";
+      res.status(tooLarge ? 413 : 400).json({
+        success: false,
+        message: tooLarge ? tooLargeMessage : error.message,
+      });
+    });
+  };
+
+const receiveVoiceNote = receiveFile(
+  voiceNoteUpload,
+  `Recording cannot exceed ${chatConfig.maxVoiceNoteBytes / (1024 * 1024)}MB`
+);
+
+/**
+ * @route   POST /api/upload/voice-note
+ * @desc    Send a voice note, a PCM WAV recording of limited length
+ * @access  Private
+ * @body    multipart/form-data {
+ *            audio: File,
+ *            conversationId?: string,
+ *            receiverId?: string,
+ *            replyTo?: string,
+ *            clientMessageId?: string
+ *          }
+ */
+router.post("/voice-note", auth, receiveVoiceNote, sendVoiceNote);
+
+// The size limit of each kind of file is checked in the controller, the
+// upload is only capped at the largest of them
+const maxAttachmentBytes = Math.max(
+  ...Object.values(chatConfig.maxAttachmentBytes)
+);
+
+const attachmentUpload = multer({
+  storage,
+  limits: {
+    fileSize: maxAttachmentBytes,
+    files: 1,
+  },
+  fileFilter: (
+    _req: Request,
+    file: any, // Using any since Express.Multer type is not available
+    cb: FileFilterCallback
+  ) => {
+    if (Object.prototype.hasOwnProperty.call(ATTACHMENT_TYPES, file.mimetype)) {
+      cb(null, true);
+    } else {
+      cb(new Error("Only images, documents and archives are allowed"));
+    }
+  },
+}).single("file");
+
+const receiveAttachment = receiveFile(
+  attachmentUpload,
+  `File cannot exceed ${maxAttachmentBytes / (1024 * 1024)}MB`
+);
+
+/**
+ * @route   POST /api/upload/attachment
+ * @desc    Send an image, document or archive as a message
+ * @access  Private
+ * @body    multipart/form-data {
+ *            file: File,
+ *            conversationId?: string,
+ *            receiverId?: string,
+ *            caption?: string,
+ *            replyTo?: string,
+ *            clientMessageId?: string
+ *          }
+ */
+router.post("/attachment", auth, receiveAttachment, sendAttachment);
+
+// Exports are text, the declared type only turns away binary files
+const chatImportUpload = multer({
+  storage,
+  limits: {
+    fileSize: chatConfig.maxImportBytes,
+    files: 1,
+  },
+  fileFilter: (
+    _req: Request,
+    file: any, // Using any since Express.Multer type is not available
+    cb: FileFilterCallback
+  ) => {
+    if (
+      file.mimetype.startsWith("text/") ||
+      file.mimetype === "application/json"
+    ) {
+      cb(null, true);
+    } else {
+      cb(new Error("Only text and JSON exports are allowed"));
+    }
+  },
+}).single("file");
+
+const receiveChatImport = receiveFile(
+  chatImportUpload,
+  `Export cannot exceed ${chatConfig.maxImportBytes / (1024 * 1024)}MB`
+);
+
+/**
+ * @route   POST /api/upload/import
+ * @desc    Import a WhatsApp text export or a JSON export of this app into
+ *          a conversation, or preview the import with dryRun
+ * @access  Private (owners and admins in groups)
+ * @body    multipart/form-data {
+ *            file: File,
+ *            conversationId: string,
+ *            dryRun?: "true",
+ *            participants?: JSON string mapping names in the file to user IDs,
+ *            dateOrder?: "dmy" | "mdy",
+ *            timeZone?: string (default: UTC)
+ *          }
+ */
+router.post("/import", auth, receiveChatImport, importChat);
+
 export default router;
@@ -0,0 +1,47 @@
+/**
+ * @file cloudinary.ts
+ * @description Storage driver uploading to Cloudinary
+ */
+
+import { getCloudinary } from "../utils/cloudinary";
+import { StorageDriver } from "./index";
+
+/**
+ * Cloudinary keeps images, audio and video ("video") and everything else
+ * ("raw") apart, the key records which one a file went to
+ */
+const resourceType = (mimeType: string): "image" | "video" | "raw" => {
+  if (mimeType.startsWith("image/")) {
+    return "image";
+  }
+  if (mimeType.startsWith("audio/") || mimeType.startsWith("video/")) {
+    return "video";
+  }
+  return "raw";
+};
+
+export const cloudinaryDriver: StorageDriver = {
+  name: "cloudinary",
+
+  save: async (buffer, { folder, mimeType, crop }) => {
+    const type = resourceType(mimeType);
+    const upload = await getCloudinary().uploader.upload(
+      `data:${mimeType};base64,${buffer.toString("base64")}`,
+      {
+        folder,
+        resource_type: type,
+        // Faces are kept in view when cropping, e.g. for avatars
+        ...(crop && {
+          transformation: [{ ...crop, crop: "fill", gravity: "face" }],
+        }),
+      }
+    );
+
+    return { url: upload.secure_url, key: `${type}:${upload.public_id}` };
+  },
+
+  remove: async (key) => {
+    const [type, publicId] = key.split(/:(.*)/);
+    await getCloudinary().uploader.destroy(publicId, { resource_type: type });
+  },
+};
@@ -0,0 +1,37 @@
+/**
+ * @file index.ts
+ * @description Storage of uploaded files
+ *
+ * Controllers save files through the active driver, see storageConfig, and
+ * only keep the URL it returns, so switching between local disk and
+ * Cloudinary needs no change anywhere else.
+ */
+
+import { StorageDriverName, storageConfig } from "../config/storage";
+import { localDriver } from "./local";
+import { cloudinaryDriver } from "./cloudinary";
+
+/**
+ * Where a file goes and what it is
+ * The stored name is generated by the driver, never taken from the upload.
+ */
+export interface SaveOptions {
+  folder: string;
+  mimeType: string;
+  extension: string;
+  crop?: { width: number; height: number }; // Images, where supported
+}
+
+export interface StoredFile {
+  url: string;
+  key: string; // Identifies the file to the driver that stored it
+}
+
+export interface StorageDriver {
+  name: StorageDriverName;
+  save: (buffer: Buffer, options: SaveOptions) => Promise<StoredFile>;
+  remove: (key: string) => Promise<void>;
+}
+
+export const storage: StorageDriver =
+  storageConfig.driver === "cloudinary" ? cloudinaryDriver : localDriver;
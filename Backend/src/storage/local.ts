@@ -0,0 +1,49 @@
+/**
+ * @file local.ts
+ * @description Storage driver writing to the server's disk
+ *
+ * Files are served by the app itself under storageConfig.localRoute, which
+ * suits development and single server setups. Files are stored as uploaded,
+ * unless an image is to be cropped.
+ */
+
+import { randomUUID } from "crypto";
+import { mkdir, unlink, writeFile } from "fs/promises";
+import path from "path";
+import { storageConfig } from "../config/storage";
+import { cropImage } from "../utils/image";
+import { StorageDriver } from "./index";
+
+/**
+ * Resolve a key inside the storage directory, refusing keys that would
+ * point outside of it
+ */
+const resolveKey = (key: string): string => {
+  const filePath = path.resolve(storageConfig.localDir, key);
+  if (!filePath.startsWith(storageConfig.localDir + path.sep)) {
+    throw new Error(`Invalid storage key: ${key}`);
+  }
+  return filePath;
+};
+
+export const localDriver: StorageDriver = {
+  name: "local",
+
+  save: async (buffer, { folder, extension, crop }) => {
+    const key = `${folder}/${randomUUID()}${extension}`;
+    const filePath = resolveKey(key);
+
+    await mkdir(path.dirname(filePath), { recursive: true });
+    await writeFile(filePath, crop ? await cropImage(buffer, crop) : buffer);
+
+    return { url: `${storageConfig.localPublicUrl}/${key}`, key };
+  },
+
+  remove: async (key) => {
+    await unlink(resolveKey(key)).catch((error) => {
+      if (error.code !== "ENOENT") {
+        throw error;
+      }
+    });
+  },
+};
@@ -0,0 +1,264 @@
+/**
+ * @file chatImport.ts
+ * @description Parsing of chat histories exported from other apps
+ *
+ * Two sources are understood: the text export of WhatsApp, in both the
+ * Android ("31/12/20, 21:15 - Alice: Hi") and iOS ("[31/12/20, 21:15:03]
+ * Alice: Hi") layouts, and the JSON export of this app. Parsing never
+ * fails as a whole, lines that cannot be read are reported with a reason.
+ */
+
+import { zonedTimeToUtc } from "./timezone";
+
+/**
+ * Order of day and month in WhatsApp dates, which follows the phone's locale
+ */
+export type DateOrder = "dmy" | "mdy";
+
+export const isDateOrder = (order: unknown): order is DateOrder =>
+  order === "dmy" || order === "mdy";
+
+export interface ImportedMessage {
+  line: number;
+  author: string;
+  content: string;
+  messageType: "text" | "image" | "file";
+  attachments: string[];
+  sentAt: Date;
+}
+
+/**
+ * A line of a text export, or an entry of a JSON export, that was skipped
+ */
+export interface ImportIssue {
+  line: number;
+  text: string;
+  reason: string;
+}
+
+export interface ParsedImport {
+  source: "whatsapp" | "json";
+  dateOrder?: DateOrder;
+  messages: ImportedMessage[];
+  issues: ImportIssue[];
+}
+
+export interface ImportOptions {
+  dateOrder?: DateOrder;
+  timeZone: string;
+}
+
+/**
+ * Longest part of a skipped line repeated in the report
+ */
+const ISSUE_TEXT_LENGTH = 200;
+
+export const importIssue = (
+  line: number,
+  text: string,
+  reason: string
+): ImportIssue => ({
+  line,
+  text: text.slice(0, ISSUE_TEXT_LENGTH),
+  reason,
+});
+
+/**
+ * Start of a WhatsApp message: date, time and the rest of the line
+ * The time may use a 12 hour clock, the iOS layout wraps both in brackets.
+ */
+const WHATSAPP_LINE =
+  /^\[?(\d{1,4})[./-](\d{1,2})[./-](\d{2,4}),?\s+(\d{1,2})[:.](\d{2})(?:[:.](\d{2}))?(?:\s*([ap])\.?\s*m\.?)?\]?\s*(?:-\s+)?(.*)$/i;
+
+/**
+ * Invisible direction marks and odd spaces WhatsApp puts into its exports
+ */
+const normalizeLine = (line: string): string =>
+  line.replace(/[\u200e\u200f\ufeff]/g, "").replace(/[\u00a0\u202f]/g, " ");
+
+const pad = (value: number): string => String(value).padStart(2, "0");
+
+/**
+ * Pick the order of day and month. A part above 12 can only be the day, the
+ * order most dates agree on wins, otherwise the caller's choice applies,
+ * day first by default.
+ */
+const detectDateOrder = (
+  dates: [number, number][],
+  preferred?: DateOrder
+): DateOrder => {
+  const dayFirst = dates.filter(([first]) => first > 12).length;
+  const monthFirst = dates.filter(([, second]) => second > 12).length;
+
+  if (dayFirst !== monthFirst) {
+    return dayFirst > monthFirst ? "dmy" : "mdy";
+  }
+  return preferred ?? "dmy";
+};
+
+/**
+ * Parse a WhatsApp text export
+ * Lines without a timestamp continue the message before them, timestamped
+ * lines without an author are notices such as "Alice added Bob" and are
+ * reported as skipped.
+ */
+export const parseWhatsAppExport = (
+  text: string,
+  { dateOrder, timeZone }: ImportOptions
+): ParsedImport => {
+  const lines = text.split(/\r?\n/).map(normalizeLine);
+  const matches = lines.map((line) => WHATSAPP_LINE.exec(line));
+
+  const order = detectDateOrder(
+    matches
+      .filter((match): match is RegExpExecArray => !!match)
+      .filter((match) => match[1].length <= 2)
+      .map((match) => [Number(match[1]), Number(match[2])]),
+    dateOrder
+  );
+
+  const messages: ImportedMessage[] = [];
+  const issues: ImportIssue[] = [];
+  let current: ImportedMessage | null = null;
+
+  lines.forEach((line, index) => {
+    const lineNumber = index + 1;
+    const match = matches[index];
+
+    if (!match) {
+      if (current) {
+        current.content += `\n${line}`;
+      } else if (line.trim()) {
+        issues.push(importIssue(lineNumber, line, "Not part of a message"));
+      }
+      return;
+    }
+
+    current = null;
+    const [, a, b, c, hours, minutes, seconds = "0", meridiem, rest] = match;
+
+    const [year, month, day] =
+      a.length === 4
+        ? [Number(a), Number(b), Number(c)]
+        : [
+            Number(c.length === 2 ? `20${c}` : c),
+            Number(order === "dmy" ? b : a),
+            Number(order === "dmy" ? a : b),
+          ];
+
+    let hour = Number(hours);
+    if (meridiem) {
+      hour = (hour % 12) + (meridiem.toLowerCase() === "p" ? 12 : 0);
+    }
+
+    const sentAt = zonedTimeToUtc(
+      `${year}-${pad(month)}-${pad(day)}T${pad(hour)}:${minutes}:${pad(Number(seconds))}`,
+      timeZone
+    );
+    if (!sentAt) {
+      issues.push(importIssue(lineNumber, line, "Invalid date or time"));
+      return;
+    }
+
+    const separator = rest.indexOf(": ");
+    if (separator <= 0) {
+      issues.push(importIssue(lineNumber, line, "Notice without a sender"));
+      return;
+    }
+
+    current = {
+      line: lineNumber,
+      author: rest.slice(0, separator).trim(),
+      content: rest.slice(separator + 2),
+      messageType: "text",
+      attachments: [],
+      sentAt,
+    };
+    messages.push(current);
+  });
+
+  // Continuation lines may leave trailing blank lines behind
+  messages.forEach((message) => {
+    message.content = message.content.trimEnd();
+  });
+
+  return { source: "whatsapp", dateOrder: order, messages, issues };
+};
+
+/**
+ * Parse a JSON export of this app, null when the text is not one
+ * Only messages with plain content and attachments are taken over, polls,
+ * voice notes and notices are reported as skipped.
+ */
+export const parseJsonExport = (text: string): ParsedImport | null => {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    return null;
+  }
+
+  const entries = (data as { messages?: unknown } | null)?.messages;
+  if (!Array.isArray(entries)) {
+    return null;
+  }
+
+  const messages: ImportedMessage[] = [];
+  const issues: ImportIssue[] = [];
+
+  entries.forEach((entry, index) => {
+    const line = index + 1;
+    const record = (entry ?? {}) as Record<string, unknown>;
+    const author = (record.sender as { username?: unknown } | undefined)
+      ?.username;
+    const sentAt = new Date(String(record.createdAt));
+    const messageType = record.messageType ?? "text";
+    // Only web links are taken over, like the transcript's clickable links
+    const attachments = Array.isArray(record.attachments)
+      ? record.attachments.filter(
+          (url): url is string =>
+            typeof url === "string" && /^https?:\/\//i.test(url)
+        )
+      : [];
+    const summary = JSON.stringify(entry) ?? "";
+
+    if (typeof author !== "string" || !author) {
+      issues.push(importIssue(line, summary, "Missing sender"));
+    } else if (typeof record.content !== "string") {
+      issues.push(importIssue(line, summary, "Missing content"));
+    } else if (isNaN(sentAt.getTime())) {
+      issues.push(importIssue(line, summary, "Invalid date or time"));
+    } else if (record.deleted) {
+      issues.push(importIssue(line, summary, "Deleted message"));
+    } else if (
+      messageType !== "text" &&
+      messageType !== "image" &&
+      messageType !== "file"
+    ) {
+      issues.push(
+        importIssue(line, summary, `Unsupported ${messageType} message`)
+      );
+    } else {
+      messages.push({
+        line,
+        author,
+        content: record.content,
+        messageType,
+        attachments,
+        sentAt,
+      });
+    }
+  });
+
+  return { source: "json", messages, issues };
+};
+
+/**
+ * Parse an export, telling the source apart by its content
+ */
+export const parseChatImport = (
+  text: string,
+  options: ImportOptions
+): ParsedImport =>
+  (text.trimStart().startsWith("{") && parseJsonExport(text)) ||
+  parseWhatsAppExport(text, options);
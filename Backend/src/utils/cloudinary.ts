@@ -1,55 +1,35 @@
 import { v2 as cloudinary } from "cloudinary";
-import { logger } from "./logger";
 
-// Configuration
-cloudinary.config({
-  cloud_name: process.env.CLOUDINARY_NAME,
-  api_key: process.env.CLOUDINARY_API_KEY,
-  api_secret: process.env.CLOUDINARY_API_SECRET,
-});
-
-// Add error handling for configuration
-if (
-  !process.env.CLOUDINARY_NAME ||
-  !process.env.CLOUDINARY_API_KEY ||
-  !process.env.CLOUDINARY_API_SECRET
-) {
-  logger.error("Missing Cloudinary configuration");
-  throw new Error("Missing required Cloudinary configuration");
-}
-
-export default cloudinary;
-
-(async function () {
-  // Upload an image
-  const uploadResult = await cloudinary.uploader
-    .upload(
-      "https://res.cloudinary.com/demo/image/upload/getting-started/shoes.jpg",
-      {
-        public_id: "shoes",
-      }
-    )
-    .catch((error) => {
-      console.log(error);
+/**
+ * Whether Cloudinary credentials are present in the environment
+ */
+export const isCloudinaryConfigured = (): boolean =>
+  !!(
+    process.env.CLOUDINARY_NAME &&
+    process.env.CLOUDINARY_API_KEY &&
+    process.env.CLOUDINARY_API_SECRET
+  );
+
+let configured = false;
+
+/**
+ * Get the Cloudinary client, configured on first use
+ * Importing this module has no side effects, nothing talks to Cloudinary
+ * until a file is stored there.
+ */
+export const getCloudinary = (): typeof cloudinary => {
+  if (!configured) {
+    if (!isCloudinaryConfigured()) {
+      throw new Error("Missing required Cloudinary configuration");
+    }
+
+    cloudinary.config({
+      cloud_name: process.env.CLOUDINARY_NAME,
+      api_key: process.env.CLOUDINARY_API_KEY,
+      api_secret: process.env.CLOUDINARY_API_SECRET,
     });
+    configured = true;
+  }
 
-  console.log(uploadResult);
-
-  // Optimize delivery by resizing and applying auto-format and auto-quality
-  const optimizeUrl = cloudinary.url("shoes", {
-    fetch_format: "auto",
-    quality: "auto",
-  });
-
-  console.log(optimizeUrl);
-
-  // Transform the image: auto-crop to square aspect_ratio
-  const autoCropUrl = cloudinary.url("shoes", {
-    crop: "auto",
-    gravity: "auto",
-    width: 500,
-    height: 500,
-  });
-
-  console.log(autoCropUrl);
-})();
+  return cloudinary;
+};
@@ -0,0 +1,270 @@
+/**
+ * @file export.ts
+ * @description Formatting of conversation exports
+ *
+ * An export is written piece by piece while messages are read from the
+ * database: an opening, one piece per message and a closing. Each format
+ * produces a complete file on its own, the HTML transcript needs no
+ * stylesheet or script from anywhere else.
+ */
+
+import { Types } from "mongoose";
+import { IMessage } from "../models/Message";
+
+export const EXPORT_FORMATS = {
+  json: { contentType: "application/json; charset=utf-8", extension: "json" },
+  txt: { contentType: "text/plain; charset=utf-8", extension: "txt" },
+  html: { contentType: "text/html; charset=utf-8", extension: "html" },
+};
+
+export type ExportFormat = keyof typeof EXPORT_FORMATS;
+
+export const isExportFormat = (format: unknown): format is ExportFormat =>
+  typeof format === "string" && Object.keys(EXPORT_FORMATS).includes(format);
+
+/**
+ * What an export covers, written at its top
+ */
+export interface ExportHeader {
+  conversationId: string;
+  title: string;
+  members: string[];
+  exportedBy: string;
+  exportedAt: Date;
+  from?: Date;
+  to?: Date;
+}
+
+/**
+ * A message as it appears in an export
+ */
+export interface ExportRecord {
+  id: string;
+  sender: { id: string; username: string };
+  content: string;
+  messageType: IMessage["messageType"];
+  createdAt: Date;
+  editedAt?: Date;
+  deleted: boolean;
+  imported?: boolean;
+  replyTo?: string;
+  forwardedFrom?: { message: string; sender: string };
+  attachments: string[];
+  audio?: { duration: number };
+  file?: { name: string; size: number; mimeType: string };
+  poll?: {
+    question: string;
+    options: { text: string; votes: number }[];
+    closedAt?: Date;
+  };
+  reactions: { emoji: string; count: number }[];
+}
+
+type Populated = { _id: Types.ObjectId; username?: string } | null;
+
+/**
+ * Convert a message with populated senders into its export record
+ */
+export const toExportRecord = (message: IMessage): ExportRecord => {
+  const sender = message.sender as unknown as Populated;
+  const replyTo = message.replyTo as unknown as Populated;
+  const forwardedSender = message.forwardedFrom?.sender as unknown as Populated;
+
+  return {
+    id: message._id.toString(),
+    sender: {
+      id: sender?._id.toString() ?? "",
+      username: sender?.username ?? "Deleted user",
+    },
+    content: message.content,
+    messageType: message.messageType,
+    createdAt: message.createdAt,
+    editedAt: message.isEdited ? message.editedAt : undefined,
+    deleted: message.isDeletedForEveryone,
+    imported: message.isImported || undefined,
+    replyTo: replyTo?._id.toString(),
+    forwardedFrom: message.forwardedFrom && {
+      message: message.forwardedFrom.message.toString(),
+      sender: forwardedSender?.username ?? "Deleted user",
+    },
+    attachments: message.attachments ?? [],
+    audio: message.audio && { duration: message.audio.duration },
+    file: message.file && {
+      name: message.file.name,
+      size: message.file.size,
+      mimeType: message.file.mimeType,
+    },
+    poll: message.poll && {
+      question: message.poll.question,
+      options: message.poll.options.map((option) => ({
+        text: option.text,
+        votes: option.voteCount,
+      })),
+      closedAt: message.poll.closedAt,
+    },
+    reactions: message.reactions.map((reaction) => ({
+      emoji: reaction.emoji,
+      count: reaction.users.length,
+    })),
+  };
+};
+
+export interface ExportWriter {
+  start: () => string;
+  message: (record: ExportRecord, index: number) => string;
+  end: (count: number) => string;
+}
+
+/**
+ * A timestamp readable in any timezone, e.g. "2024-05-01 09:00:00 UTC"
+ */
+const formatTime = (date: Date): string =>
+  `${date.toISOString().slice(0, 19).replace("T", " ")} UTC`;
+
+const describeRange = ({ from, to }: ExportHeader): string =>
+  from || to
+    ? `${from ? formatTime(from) : "start"} to ${to ? formatTime(to) : "now"}`
+    : "All messages";
+
+const jsonWriter = (header: ExportHeader): ExportWriter => ({
+  start: () =>
+    `{"conversation":${JSON.stringify({
+      id: header.conversationId,
+      title: header.title,
+      members: header.members,
+    })},"exportedBy":${JSON.stringify(header.exportedBy)},` +
+    `"exportedAt":${JSON.stringify(header.exportedAt)},` +
+    `"range":${JSON.stringify({ from: header.from, to: header.to })},` +
+    `"messages":[\n`,
+  message: (record, index) => `${index ? ",\n" : ""}${JSON.stringify(record)}`,
+  end: (count) => `\n],"messageCount":${count}}\n`,
+});
+
+/**
+ * Lines of a message after the first, indented under it
+ */
+const textDetails = (record: ExportRecord): string[] => [
+  ...(record.poll?.options.map(
+    (option) => `- ${option.text} (${option.votes})`
+  ) ?? []),
+  ...record.attachments.map((url) => `[attachment] ${url}`),
+  ...(record.reactions.length
+    ? [record.reactions.map((r) => `${r.emoji} ${r.count}`).join("  ")]
+    : []),
+];
+
+const textWriter = (header: ExportHeader): ExportWriter => ({
+  start: () =>
+    [
+      `Conversation: ${header.title}`,
+      `Members: ${header.members.join(", ")}`,
+      `Range: ${describeRange(header)}`,
+      `Exported by ${header.exportedBy} at ${formatTime(header.exportedAt)}`,
+      "",
+      "",
+    ].join("\n"),
+  message: (record) => {
+    const labels = [
+      record.forwardedFrom && `forwarded from ${record.forwardedFrom.sender}`,
+      record.editedAt && "edited",
+      record.messageType === "poll" && "poll",
+      record.audio && `voice message, ${Math.round(record.audio.duration)}s`,
+    ].filter(Boolean);
+    const [first, ...rest] = record.content.split("\n");
+    const author =
+      record.messageType === "system" ? "*" : `${record.sender.username}:`;
+
+    return (
+      [
+        `[${formatTime(record.createdAt)}] ${author} ${first}` +
+          (labels.length ? ` (${labels.join(", ")})` : ""),
+        ...[...rest, ...textDetails(record)].map((line) => `    ${line}`),
+      ].join("\n") + "\n"
+    );
+  },
+  end: (count) => `\n${count} messages\n`,
+});
+
+const escapeHtml = (text: string): string =>
+  text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+
+const HTML_STYLE = `
+body{font-family:system-ui,sans-serif;max-width:48rem;margin:2rem auto;padding:0 1rem;color:#111827}
+header{border-bottom:1px solid #e5e7eb;margin-bottom:1rem;padding-bottom:.5rem}
+h1{font-size:1.25rem;margin:0 0 .25rem}
+.meta,.time,.labels{color:#6b7280;font-size:.75rem}
+.message{margin:.75rem 0}
+.author{font-weight:600}
+.content{white-space:pre-wrap;word-wrap:break-word;margin:.125rem 0}
+.deleted .content{font-style:italic;color:#6b7280}
+.system{text-align:center;color:#6b7280;font-size:.875rem}
+ul{margin:.25rem 0;padding-left:1.25rem}
+footer{border-top:1px solid #e5e7eb;margin-top:1rem;padding-top:.5rem}`;
+
+const htmlWriter = (header: ExportHeader): ExportWriter => ({
+  start: () =>
+    `<!DOCTYPE html>\n<html lang="en">\n<head>\n<meta charset="utf-8">\n` +
+    `<title>${escapeHtml(header.title)}</title>\n` +
+    `<style>${HTML_STYLE}\n</style>\n</head>\n<body>\n<header>\n` +
+    `<h1>${escapeHtml(header.title)}</h1>\n` +
+    `<div class="meta">Members: ${escapeHtml(header.members.join(", "))}</div>\n` +
+    `<div class="meta">${escapeHtml(describeRange(header))}</div>\n` +
+    `<div class="meta">Exported by ${escapeHtml(header.exportedBy)} at ` +
+    `${escapeHtml(formatTime(header.exportedAt))}</div>\n</header>\n<main>\n`,
+  message: (record) => {
+    const time = `<span class="time">${escapeHtml(formatTime(record.createdAt))}</span>`;
+    if (record.messageType === "system") {
+      return `<p class="system">${escapeHtml(record.content)} ${time}</p>\n`;
+    }
+
+    const labels = [
+      record.forwardedFrom && `Forwarded from ${record.forwardedFrom.sender}`,
+      record.editedAt && "Edited",
+      record.audio && `Voice message, ${Math.round(record.audio.duration)}s`,
+    ].filter((label): label is string => !!label);
+
+    // Only web links are clickable, other URLs are shown as text
+    const attachments = record.attachments.map((url) =>
+      /^https?:\/\//i.test(url)
+        ? `<li><a href="${escapeHtml(url)}">${escapeHtml(url)}</a></li>`
+        : `<li>${escapeHtml(url)}</li>`
+    );
+    const options =
+      record.poll?.options.map(
+        (option) =>
+          `<li>${escapeHtml(option.text)} (${option.votes} votes)</li>`
+      ) ?? [];
+    const reactions = record.reactions
+      .map((r) => `${escapeHtml(r.emoji)} ${r.count}`)
+      .join(" ");
+
+    return (
+      `<article class="message${record.deleted ? " deleted" : ""}">\n` +
+      `<span class="author">${escapeHtml(record.sender.username)}</span> ${time}\n` +
+      (labels.length
+        ? `<div class="labels">${escapeHtml(labels.join(" · "))}</div>\n`
+        : "") +
+      `<p class="content">${escapeHtml(record.content)}</p>\n` +
+      (options.length ? `<ul>${options.join("")}</ul>\n` : "") +
+      (attachments.length ? `<ul>${attachments.join("")}</ul>\n` : "") +
+      (reactions ? `<div class="labels">${reactions}</div>\n` : "") +
+      `</article>\n`
+    );
+  },
+  end: (count) =>
+    `</main>\n<footer class="meta">${count} messages</footer>\n</body>\n</html>\n`,
+});
+
+/**
+ * Get the writer of an export format
+ */
+export const createExportWriter = (
+  format: ExportFormat,
+  header: ExportHeader
+): ExportWriter =>
+  ({ json: jsonWriter, txt: textWriter, html: htmlWriter })[format](header);
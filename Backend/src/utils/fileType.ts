@@ -0,0 +1,130 @@
+/**
+ * @file fileType.ts
+ * @description Recognize the types of files attached to messages
+ *
+ * Browsers declare a type from the file name, so a declared type is only
+ * accepted when the first bytes of the file agree with it. Office documents
+ * in the newer formats are ZIP archives and are checked as such.
+ */
+
+export type AttachmentKind = "image" | "document" | "archive";
+
+export interface AttachmentType {
+  kind: AttachmentKind;
+  extension: string;
+  matches: (buffer: Buffer) => boolean;
+}
+
+const startsWith =
+  (...bytes: number[]) =>
+  (buffer: Buffer): boolean =>
+    buffer.length >= bytes.length &&
+    bytes.every((byte, index) => buffer[index] === byte);
+
+const isZip = startsWith(0x50, 0x4b, 0x03, 0x04);
+const isOle = startsWith(0xd0, 0xcf, 0x11, 0xe0, 0xa1, 0xb1, 0x1a, 0xe1);
+
+/**
+ * Text files have no signature, but never contain NUL bytes
+ */
+const isText = (buffer: Buffer): boolean =>
+  !buffer.subarray(0, 8192).includes(0);
+
+const ZIP_DOCUMENT = { kind: "document", matches: isZip } as const;
+const OLE_DOCUMENT = { kind: "document", matches: isOle } as const;
+
+/**
+ * Accepted attachment types by MIME type
+ */
+export const ATTACHMENT_TYPES: Record<string, AttachmentType> = {
+  "image/jpeg": {
+    kind: "image",
+    extension: ".jpg",
+    matches: startsWith(0xff, 0xd8, 0xff),
+  },
+  "image/png": {
+    kind: "image",
+    extension: ".png",
+    matches: startsWith(0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a),
+  },
+  "image/gif": {
+    kind: "image",
+    extension: ".gif",
+    matches: startsWith(0x47, 0x49, 0x46, 0x38),
+  },
+  "image/webp": {
+    kind: "image",
+    extension: ".webp",
+    matches: (buffer) =>
+      startsWith(0x52, 0x49, 0x46, 0x46)(buffer) &&
+      buffer.toString("ascii", 8, 12) === "WEBP",
+  },
+  "application/pdf": {
+    kind: "document",
+    extension: ".pdf",
+    matches: startsWith(0x25, 0x50, 0x44, 0x46),
+  },
+  "text/plain": { kind: "document", extension: ".txt", matches: isText },
+  "text/csv": { kind: "document", extension: ".csv", matches: isText },
+  "application/msword": { ...OLE_DOCUMENT, extension: ".doc" },
+  "application/vnd.ms-excel": { ...OLE_DOCUMENT, extension: ".xls" },
+  "application/vnd.ms-powerpoint": { ...OLE_DOCUMENT, extension: ".ppt" },
+  "application/vnd.openxmlformats-officedocument.wordprocessingml.document": {
+    ...ZIP_DOCUMENT,
+    extension: ".docx",
+  },
+  "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet": {
+    ...ZIP_DOCUMENT,
+    extension: ".xlsx",
+  },
+  "application/vnd.openxmlformats-officedocument.presentationml.presentation": {
+    ...ZIP_DOCUMENT,
+    extension: ".pptx",
+  },
+  "application/zip": { kind: "archive", extension: ".zip", matches: isZip },
+  "application/x-zip-compressed": {
+    kind: "archive",
+    extension: ".zip",
+    matches: isZip,
+  },
+  "application/gzip": {
+    kind: "archive",
+    extension: ".gz",
+    matches: startsWith(0x1f, 0x8b),
+  },
+  "application/x-7z-compressed": {
+    kind: "archive",
+    extension: ".7z",
+    matches: startsWith(0x37, 0x7a, 0xbc, 0xaf, 0x27, 0x1c),
+  },
+  "application/x-tar": {
+    kind: "archive",
+    extension: ".tar",
+    matches: (buffer) => buffer.toString("ascii", 257, 262) === "ustar",
+  },
+};
+
+/**
+ * Get the type of an upload, null when the type is not accepted or the
+ * content does not match the declared type
+ */
+export const detectAttachmentType = (
+  buffer: Buffer,
+  mimeType: string
+): AttachmentType | null => {
+  const type = Object.prototype.hasOwnProperty.call(ATTACHMENT_TYPES, mimeType)
+    ? ATTACHMENT_TYPES[mimeType]
+    : null;
+  return type && type.matches(buffer) ? type : null;
+};
+
+/**
+ * File name safe to show and to send in headers: no directories, control
+ * characters or excessive length
+ */
+export const sanitizeFileName = (name: string): string => {
+  const base = (name.split(/[/\\]/).pop() ?? "")
+    .replace(/[\u0000-\u001f\u007f"]/g, "")
+    .trim();
+  return (base || "file").slice(-200);
+};
@@ -0,0 +1,120 @@
+/**
+ * @file image.ts
+ * @description Processing of images attached to messages
+ *
+ * Every image is re-encoded once on upload: the copy that is kept has no
+ * EXIF data, so camera details and GPS positions never reach other members,
+ * and its pixels are turned upright since the orientation tag goes with the
+ * metadata. Clients get smaller variants to show in the chat and a tiny
+ * blurred placeholder to show while those load.
+ */
+
+import sharp from "sharp";
+
+/**
+ * Variants made of every image, by the largest width they are shown at
+ */
+export const IMAGE_VARIANTS = [
+  { name: "thumbnail", width: 320 },
+  { name: "preview", width: 1280 },
+] as const;
+
+export type ImageVariantName = (typeof IMAGE_VARIANTS)[number]["name"];
+
+/**
+ * Images larger than this are refused before being decoded
+ */
+const MAX_INPUT_PIXELS = 50_000_000;
+
+/**
+ * Longest side of the blurred placeholder, small enough to embed in messages
+ */
+const PLACEHOLDER_SIZE = 16;
+
+export interface ProcessedVariant {
+  name: ImageVariantName;
+  buffer: Buffer;
+  width: number;
+  height: number;
+}
+
+export interface ProcessedImage {
+  original: Buffer; // Same format as the upload, without metadata
+  width: number;
+  height: number;
+  placeholder: string; // Data URL
+  variants: ProcessedVariant[];
+}
+
+/**
+ * Process an uploaded image, null when it cannot be decoded
+ * Animated GIFs keep their animation in the original, variants show the
+ * first frame.
+ */
+export const processImage = async (
+  buffer: Buffer,
+  mimeType: string
+): Promise<ProcessedImage | null> => {
+  const animated = mimeType === "image/gif";
+  const options = { limitInputPixels: MAX_INPUT_PIXELS, animated };
+
+  try {
+    // Output carries no metadata unless asked to, rotate() applies the
+    // orientation the metadata described
+    const original = await sharp(buffer, options).rotate().toBuffer();
+
+    // Without the animated option only the first frame is read
+    const upright = sharp(original, { limitInputPixels: MAX_INPUT_PIXELS });
+    const { width = 0, height = 0 } = await upright.metadata();
+
+    const variants = await Promise.all(
+      IMAGE_VARIANTS.map(async ({ name, width }) => {
+        const variant = await upright
+          .clone()
+          .resize({ width, withoutEnlargement: true })
+          .webp({ quality: 80 })
+          .toBuffer({ resolveWithObject: true });
+        return {
+          name,
+          buffer: variant.data,
+          width: variant.info.width,
+          height: variant.info.height,
+        };
+      })
+    );
+
+    const placeholder = await upright
+      .clone()
+      .resize({
+        width: PLACEHOLDER_SIZE,
+        height: PLACEHOLDER_SIZE,
+        fit: "inside",
+      })
+      .blur()
+      .webp({ quality: 50 })
+      .toBuffer();
+
+    return {
+      original,
+      width,
+      height,
+      placeholder: `data:image/webp;base64,${placeholder.toString("base64")}`,
+      variants,
+    };
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Crop an image to the given size, keeping its most prominent part in view
+ * Used where the storage driver cannot crop, metadata is dropped as well.
+ */
+export const cropImage = (
+  buffer: Buffer,
+  size: { width: number; height: number }
+): Promise<Buffer> =>
+  sharp(buffer, { limitInputPixels: MAX_INPUT_PIXELS })
+    .rotate()
+    .resize({ ...size, fit: "cover", position: "attention" })
+    .toBuffer();
@@ -0,0 +1,81 @@
+/**
+ * @file markdown.ts
+ * @description Sanitizing of message markdown
+ *
+ * Messages support a markdown subset: bold, italic, strikethrough, inline
+ * code, code blocks, links and lists. No consumer of the API may receive
+ * raw HTML, so anything that would open a tag is escaped as &lt; rather than
+ * removed: markdown renders it as the "<" that was typed, and text such as
+ * List<String> is kept. Links to unsafe schemes such as javascript: or data:
+ * are taken out. Code is left untouched, it is shown as text.
+ */
+
+/**
+ * Link schemes a message may point to
+ */
+const SAFE_URL_SCHEMES = ["http:", "https:", "mailto:"];
+
+/**
+ * Fenced code blocks and inline code spans
+ */
+const CODE_PATTERN = /(```[\s\S]*?(?:```|$)|`[^`\n]+`)/g;
+
+/**
+ * A "<" that would start an HTML tag, comment or declaration, other than
+ * one opening a URL or email autolink
+ */
+const HTML_OPEN_PATTERN =
+  /<(?=[a-z/!?])(?![a-z][a-z\d+.-]*:[^\s<>]*>)(?![^\s<>@]+@[^\s<>]+>)/gi;
+
+/**
+ * True for relative links and links with an allowed scheme
+ */
+export const isSafeUrl = (url: string): boolean => {
+  // Browsers ignore control characters and whitespace inside a scheme
+  const normalized = Array.from(url)
+    .filter((char) => char > " ")
+    .join("")
+    .toLowerCase();
+  const scheme = /^([a-z][a-z\d+.-]*:)/.exec(normalized);
+  return !scheme || SAFE_URL_SCHEMES.includes(scheme[1]);
+};
+
+/**
+ * Clean the markdown outside of code
+ * Unsafe links keep only their text and HTML is escaped.
+ */
+const sanitizeText = (text: string): string =>
+  text
+    // Inline links: [text](url "title")
+    .replace(
+      /\[([^\]]*)\]\(\s*<?((?:[^\s()<>]|\([^\s()]*\))*)>?(?:\s+[^)]*)?\)/g,
+      (link, label, url) => (isSafeUrl(url) ? link : label)
+    )
+    // Autolinks: <scheme:...>
+    .replace(/<([a-z][a-z\d+.-]*:[^\s<>]*)>/gi, (link, url) =>
+      isSafeUrl(url) ? link : url
+    )
+    // Reference definitions: [label]: url
+    .replace(
+      /^( {0,3}\[[^\]]+\]:\s*)(\S+)(.*)$/gm,
+      (definition, _start, url) =>
+        isSafeUrl(url.replace(/^<|>$/g, "")) ? definition : ""
+    )
+    // HTML: <tag>, </tag>, <!-- comment -->, <!DOCTYPE>
+    .replace(HTML_OPEN_PATTERN, "&lt;");
+
+/**
+ * Sanitize the markdown of a message
+ */
+export const sanitizeMarkdown = (content: string): string =>
+  content
+    .split(CODE_PATTERN)
+    // Split with a capture group puts the code at odd indexes
+    .map((part, index) => (index % 2 === 1 ? part : sanitizeText(part)))
+    .join("");
+
+/**
+ * True when text is left once the content is sanitized
+ */
+export const hasMarkdownContent = (content: unknown): content is string =>
+  typeof content === "string" && sanitizeMarkdown(content).trim() !== "";
@@ -0,0 +1,81 @@
+/**
+ * @file pagination.ts
+ * @description Cursor helpers for stable pagination over time-ordered documents
+ *
+ * Cursors encode the (timestamp, _id) pair of a document, where the timestamp
+ * is createdAt by default or updatedAt when paging through changes. Unlike
+ * skip/limit, paging from a cursor is not affected by documents inserted
+ * between requests.
+ */
+
+import mongoose, { Types } from "mongoose";
+
+export type CursorField = "createdAt" | "updatedAt";
+
+export interface Cursor {
+  time: Date;
+  id: Types.ObjectId;
+}
+
+/**
+ * Encode a document position as an opaque URL-safe cursor
+ */
+export const encodeCursor = (
+  doc: { createdAt: Date; updatedAt?: Date; _id: unknown },
+  field: CursorField = "createdAt"
+): string => {
+  const time = doc[field] ?? doc.createdAt;
+  return Buffer.from(`${time.getTime()}:${String(doc._id)}`).toString(
+    "base64url"
+  );
+};
+
+/**
+ * Decode a cursor, returns null when the value is not a valid cursor
+ */
+export const decodeCursor = (value: unknown): Cursor | null => {
+  if (typeof value !== "string" || !value) {
+    return null;
+  }
+
+  const [time, id] = Buffer.from(value, "base64url").toString().split(":");
+  const date = new Date(Number(time));
+
+  if (isNaN(date.getTime()) || !mongoose.isValidObjectId(id)) {
+    return null;
+  }
+
+  return { time: date, id: new Types.ObjectId(id) };
+};
+
+/**
+ * Filter for documents strictly before or after a cursor position
+ */
+export const cursorFilter = (
+  cursor: Cursor,
+  direction: "before" | "after",
+  field: CursorField = "createdAt"
+): Record<string, unknown> => {
+  const op = direction === "before" ? "$lt" : "$gt";
+  return {
+    $or: [
+      { [field]: { [op]: cursor.time } },
+      { [field]: cursor.time, _id: { [op]: cursor.id } },
+    ],
+  };
+};
+
+/**
+ * Parse a page size query param, clamped to [1, max]
+ */
+export const parseLimit = (
+  value: unknown,
+  defaultLimit = 50,
+  max = 100
+): number => {
+  const limit = parseInt(String(value), 10);
+  if (isNaN(limit) || limit < 1) {
+    return defaultLimit;
+  }
+  return Math.min(limit, max);
+};
@@ -0,0 +1,98 @@
+/**
+ * @file search.ts
+ * @description Helpers for presenting full-text search results
+ *
+ * MongoDB's text search tells which documents match, but not where. These
+ * helpers locate the query terms in a message so clients can show a short
+ * snippet with the matching words highlighted.
+ */
+
+export interface Highlight {
+  start: number;
+  end: number;
+}
+
+export interface Snippet {
+  text: string;
+  highlights: Highlight[]; // Offsets into `text`, end exclusive
+}
+
+const SNIPPET_LENGTH = 160;
+
+/**
+ * Extract the words of a text search query
+ * Quoted phrases are kept together and negated terms ("-word") are dropped,
+ * mirroring how MongoDB interprets the $search string.
+ */
+export const parseSearchTerms = (query: string): string[] => {
+  const terms: string[] = [];
+  const pattern = /(-?)"([^"]+)"|(-?)(\S+)/g;
+  let match: RegExpExecArray | null;
+
+  while ((match = pattern.exec(query))) {
+    const negated = match[1] || match[3];
+    const term = (match[2] ?? match[4]).trim().toLowerCase();
+    if (!negated && term) {
+      terms.push(term);
+    }
+  }
+
+  return [...new Set(terms)];
+};
+
+/**
+ * Find every occurrence of the terms in a text, merged and in order
+ */
+const findHighlights = (text: string, terms: string[]): Highlight[] => {
+  const lower = text.toLowerCase();
+  const ranges: Highlight[] = [];
+
+  terms.forEach((term) => {
+    let index = lower.indexOf(term);
+    while (index !== -1) {
+      ranges.push({ start: index, end: index + term.length });
+      index = lower.indexOf(term, index + term.length);
+    }
+  });
+
+  ranges.sort((a, b) => a.start - b.start);
+
+  return ranges.reduce<Highlight[]>((merged, range) => {
+    const last = merged[merged.length - 1];
+    if (last && range.start <= last.end) {
+      last.end = Math.max(last.end, range.end);
+    } else {
+      merged.push({ ...range });
+    }
+    return merged;
+  }, []);
+};
+
+/**
+ * Build a snippet of the text around the first match of the terms
+ * Text search matches stemmed words, so a message may match without
+ * containing a term verbatim; the snippet then starts at the beginning.
+ */
+export const buildSnippet = (text: string, terms: string[]): Snippet => {
+  const highlights = findHighlights(text, terms);
+
+  if (text.length <= SNIPPET_LENGTH) {
+    return { text, highlights };
+  }
+
+  const first = highlights[0]?.start ?? 0;
+  let start = Math.max(0, first - Math.floor(SNIPPET_LENGTH / 4));
+  const end = Math.min(text.length, start + SNIPPET_LENGTH);
+  start = Math.max(0, end - SNIPPET_LENGTH);
+
+  const prefix = start > 0 ? "…" : "";
+  const suffix = end < text.length ? "…" : "";
+  const offset = prefix.length - start;
+
+  return {
+    text: `${prefix}${text.slice(start, end)}${suffix}`,
+    highlights: highlights
+      .filter((h) => h.start >= start && h.end <= end)
+      .map((h) => ({ start: h.start + offset, end: h.end + offset })),
+  };
+};
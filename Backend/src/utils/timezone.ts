@@ -0,0 +1,95 @@
+/**
+ * @file timezone.ts
+ * @description Convert wall-clock times in an IANA timezone to instants
+ *
+ * Scheduling "9:00 in Asia/Kolkata" needs the UTC offset of that zone on that
+ * date, including daylight saving time. Node's Intl data knows the offsets,
+ * so no timezone library is required.
+ */
+
+const LOCAL_TIME_PATTERN =
+  /^(\d{4})-(\d{2})-(\d{2})T(\d{2}):(\d{2})(?::(\d{2}))?$/;
+
+/**
+ * Check that a value is a timezone name known to Intl, e.g. "Europe/Berlin"
+ */
+export const isValidTimeZone = (timeZone: unknown): timeZone is string => {
+  if (typeof timeZone !== "string" || !timeZone) {
+    return false;
+  }
+
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * Offset of a timezone from UTC at an instant, in milliseconds
+ */
+const getOffsetMs = (date: Date, timeZone: string): number => {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone,
+    hourCycle: "h23",
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+    second: "2-digit",
+  }).formatToParts(date);
+
+  const get = (type: Intl.DateTimeFormatPartTypes): number =>
+    Number(parts.find((part) => part.type === type)?.value);
+
+  const wallClock = Date.UTC(
+    get("year"),
+    get("month") - 1,
+    get("day"),
+    get("hour"),
+    get("minute"),
+    get("second")
+  );
+
+  return wallClock - Math.floor(date.getTime() / 1000) * 1000;
+};
+
+/**
+ * Convert a local time such as "2024-05-01T09:00" in a timezone to a Date
+ * Returns null for malformed or impossible times. A time skipped by a
+ * daylight saving change resolves to a nearby valid instant.
+ */
+export const zonedTimeToUtc = (
+  localTime: string,
+  timeZone: string
+): Date | null => {
+  const match = LOCAL_TIME_PATTERN.exec(localTime);
+  if (!match || !isValidTimeZone(timeZone)) {
+    return null;
+  }
+
+  const [year, month, day, hour, minute, second] = match
+    .slice(1)
+    .map((part) => Number(part ?? 0));
+  const wallClock = Date.UTC(year, month - 1, day, hour, minute, second);
+
+  // Date.UTC rolls over out of range parts, e.g. February 30th
+  const check = new Date(wallClock);
+  if (
+    check.getUTCMonth() !== month - 1 ||
+    check.getUTCDate() !== day ||
+    check.getUTCHours() !== hour ||
+    check.getUTCMinutes() !== minute
+  ) {
+    return null;
+  }
+
+  // The offset depends on the instant, a second pass settles it when the
+  // first guess lands on the other side of a daylight saving change
+  let utc = wallClock - getOffsetMs(new Date(wallClock), timeZone);
+  utc = wallClock - getOffsetMs(new Date(utc), timeZone);
+
+  return new Date(utc);
+};
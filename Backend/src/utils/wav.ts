@@ -0,0 +1,118 @@
+/**
+ * @file wav.ts
+ * @description Reading of uploaded WAV recordings
+ *
+ * Voice notes are uploaded as uncompressed PCM WAV files, which can be
+ * measured without a decoder. The file's own bytes decide whether it is a
+ * WAV file, the content type declared by the browser is not trusted.
+ */
+
+export interface WavInfo {
+  duration: number; // Seconds
+  sampleRate: number;
+  channels: number;
+  waveform: number[]; // Peak level of each bar, 0 to 100
+}
+
+const WAVEFORM_BARS = 48;
+const PCM_FORMAT = 1;
+
+/**
+ * Read a PCM sample, scaled to -1..1
+ */
+const readSample = (buffer: Buffer, offset: number, bits: number): number => {
+  switch (bits) {
+    case 8:
+      return (buffer.readUInt8(offset) - 128) / 128; // 8 bit WAV is unsigned
+    case 16:
+      return buffer.readInt16LE(offset) / 32768;
+    case 24:
+      return buffer.readIntLE(offset, 3) / 8388608;
+    default:
+      return buffer.readInt32LE(offset) / 2147483648;
+  }
+};
+
+/**
+ * Parse a PCM WAV file, null when the bytes are not one
+ * The waveform is the loudest sample of each of a fixed number of bars,
+ * so clients can draw it without downloading the audio.
+ */
+export const parseWav = (buffer: Buffer): WavInfo | null => {
+  if (
+    buffer.length < 12 ||
+    buffer.toString("ascii", 0, 4) !== "RIFF" ||
+    buffer.toString("ascii", 8, 12) !== "WAVE"
+  ) {
+    return null;
+  }
+
+  let format: { channels: number; sampleRate: number; bits: number } | null =
+    null;
+  let data: { start: number; size: number } | null = null;
+
+  // Chunks are an ID, a little endian size and a body padded to even length
+  let offset = 12;
+  while (offset + 8 <= buffer.length && !data) {
+    const id = buffer.toString("ascii", offset, offset + 4);
+    const size = buffer.readUInt32LE(offset + 4);
+    const start = offset + 8;
+
+    if (id === "fmt " && size >= 16 && start + 16 <= buffer.length) {
+      if (buffer.readUInt16LE(start) !== PCM_FORMAT) {
+        return null;
+      }
+      format = {
+        channels: buffer.readUInt16LE(start + 2),
+        sampleRate: buffer.readUInt32LE(start + 4),
+        bits: buffer.readUInt16LE(start + 14),
+      };
+    } else if (id === "data") {
+      // Recorders that stream may leave the size unset, use what was sent
+      data = { start, size: Math.min(size, buffer.length - start) };
+    }
+
+    offset = start + size + (size % 2);
+  }
+
+  if (
+    !format ||
+    !data ||
+    !format.channels ||
+    !format.sampleRate ||
+    ![8, 16, 24, 32].includes(format.bits)
+  ) {
+    return null;
+  }
+
+  const bytesPerSample = format.bits / 8;
+  const frameSize = bytesPerSample * format.channels;
+  const frames = Math.floor(data.size / frameSize);
+  if (!frames) {
+    return null;
+  }
+
+  // Only the first channel is sampled, a voice note sounds alike on all
+  const waveform: number[] = [];
+  const framesPerBar = Math.max(1, Math.floor(frames / WAVEFORM_BARS));
+  for (let bar = 0; bar * framesPerBar < frames && bar < WAVEFORM_BARS; bar++) {
+    let peak = 0;
+    const end = Math.min(frames, (bar + 1) * framesPerBar);
+    for (let frame = bar * framesPerBar; frame < end; frame++) {
+      const sample = readSample(
+        buffer,
+        data.start + frame * frameSize,
+        format.bits
+      );
+      peak = Math.max(peak, Math.abs(sample));
+    }
+    waveform.push(Math.min(100, Math.round(peak * 100)));
+  }
+
+  return {
+    duration: frames / format.sampleRate,
+    sampleRate: format.sampleRate,
+    channels: format.channels,
+    waveform,
+  };
+};
@@ -0,0 +1,80 @@
+"use client";
+
+import { ChangeEvent, useRef, useState } from "react";
+import { Paperclip } from "lucide-react";
+import { Button } from "@/components/ui/button";
+
+// Types the server accepts, it checks every file's content again
+const ACCEPTED_TYPES = [
+  "image/jpeg",
+  "image/png",
+  "image/gif",
+  "image/webp",
+  "application/pdf",
+  "text/plain",
+  "text/csv",
+  ".doc",
+  ".docx",
+  ".xls",
+  ".xlsx",
+  ".ppt",
+  ".pptx",
+  ".zip",
+  ".gz",
+  ".7z",
+  ".tar",
+].join(",");
+
+interface AttachmentButtonProps {
+  disabled?: boolean;
+  onSelected: (file: File) => Promise<void>;
+}
+
+export default function AttachmentButton({
+  disabled,
+  onSelected,
+}: AttachmentButtonProps) {
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [isSending, setIsSending] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleChange = async (e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    // Allow picking the same file again after a failure
+    e.target.value = "";
+    if (!file) return;
+
+    setError(null);
+    setIsSending(true);
+    try {
+      await onSelected(file);
+    } catch (err) {
+      console.error("Error sending attachment:", err);
+      setError("Failed to send file");
+    } finally {
+      setIsSending(false);
+    }
+  };
+
+  return (
+    <>
+      <input
+        ref={inputRef}
+        type="file"
+        accept={ACCEPTED_TYPES}
+        className="hidden"
+        onChange={handleChange}
+      />
+      <Button
+        variant="ghost"
+        size="icon"
+        onClick={() => inputRef.current?.click()}
+        disabled={disabled || isSending}
+        aria-label="Attach file"
+        title={error ?? undefined}
+      >
+        <Paperclip className={`h-4 w-4 ${error ? "text-red-500" : ""}`} />
+      </Button>
+    </>
+  );
+}
@@ -0,0 +1,94 @@
+"use client";
+
+import { useState } from "react";
+import { FileArchive, FileText } from "lucide-react";
+import { MessageFile } from "@/types/Chat";
+
+const ARCHIVE_TYPES = [
+  "application/zip",
+  "application/x-zip-compressed",
+  "application/gzip",
+  "application/x-7z-compressed",
+  "application/x-tar",
+];
+
+const formatFileSize = (bytes: number) => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
+
+interface AttachmentPreviewProps {
+  url: string;
+  file?: MessageFile;
+  isImage: boolean;
+}
+
+export default function AttachmentPreview({
+  url,
+  file,
+  isImage,
+}: AttachmentPreviewProps) {
+  const name = file?.name ?? "Attachment";
+  const [loaded, setLoaded] = useState(false);
+
+  if (isImage) {
+    // The bubble shows a resized variant, the link opens the original
+    const variants = file?.variants ?? [];
+    const thumbnail = variants.find((variant) => variant.name === "thumbnail");
+
+    return (
+      <a href={url} target="_blank" rel="noopener noreferrer">
+        {/* Uploaded images come from any storage host in unknown sizes */}
+        {/* eslint-disable-next-line @next/next/no-img-element */}
+        <img
+          src={thumbnail?.url ?? url}
+          srcSet={
+            variants.length
+              ? variants
+                  .map((variant) => `${variant.url} ${variant.width}w`)
+                  .join(", ")
+              : undefined
+          }
+          sizes="320px"
+          width={file?.width}
+          height={file?.height}
+          loading="lazy"
+          decoding="async"
+          onLoad={() => setLoaded(true)}
+          alt={name}
+          className="h-auto max-h-64 w-auto max-w-full rounded bg-cover bg-center"
+          // Removed once loaded, it would show through transparent images
+          style={
+            file?.placeholder && !loaded
+              ? { backgroundImage: `url("${file.placeholder}")` }
+              : undefined
+          }
+        />
+      </a>
+    );
+  }
+
+  const Icon =
+    file && ARCHIVE_TYPES.includes(file.mimeType) ? FileArchive : FileText;
+
+  return (
+    <a
+      href={url}
+      download={name}
+      target="_blank"
+      rel="noopener noreferrer"
+      className="flex min-w-[200px] items-center gap-2 rounded border border-black/10 p-2 hover:bg-black/5"
+    >
+      <Icon className="h-6 w-6 shrink-0" />
+      <span className="flex min-w-0 flex-col">
+        <span className="truncate text-sm font-medium">{name}</span>
+        {file && (
+          <span className="text-xs opacity-70">
+            {formatFileSize(file.size)}
+          </span>
+        )}
+      </span>
+    </a>
+  );
+}
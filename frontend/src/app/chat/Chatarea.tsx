@@ -1,28 +1,31 @@
 "use client";
 import { useEffect, useState, useRef, useCallback } from "react";
 import { ScrollArea } from "@/components/ui/scroll-area";
+import { Timer } from "lucide-react";
 import MessageInput from "./Messageinput";
+import MessageBubble from "./MessageBubble";
+import PinnedMessages from "./PinnedMessages";
+import ForwardDialog from "./ForwardDialog";
+import PollDialog from "./PollDialog";
+import ScheduledMessages from "./ScheduledMessages";
+import ExportMenu from "./ExportMenu";
 import { Socket, io } from "socket.io-client";
 import { useRouter } from "next/navigation";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
-
-
-interface Message {
-  _id: string;
-  content: string;
-  sender: {
-    _id: string;
-    username: string;
-    avatar?: string;
-  };
-  receiver: {
-    _id: string;
-    username: string;
-    avatar?: string;
-  };
-  createdAt: string;
-  status: "sent" | "delivered" | "read";
-}
+import { api } from "@/service/api";
+import {
+  ChatMessage,
+  Conversation,
+  MessageReaction,
+  NewPoll,
+  Poll,
+  ScheduledMessage,
+} from "@/types/Chat";
+import {
+  getConversationAvatar,
+  getConversationName,
+  getOtherMember,
+} from "@/lib/conversation";
 
 interface User {
   _id: string;
@@ -33,28 +36,361 @@ interface User {
 }
 
 interface ChatAreaProps {
-  selectedUser: User | null;
+  conversation: Conversation | null;
   currentUser: User | null;
+  onActivity?: () => void;
+}
+
+/**
+ * Mark the messages of a page that the current user starred
+ */
+const withStars = (messages: ChatMessage[], starred: string[] = []) => {
+  const ids = new Set(starred);
+  return messages.map(m => ({ ...m, isStarred: ids.has(m._id) }));
+};
+
+/**
+ * Add the current user's own picks to the polls of a page
+ */
+const withPollVotes = (
+  messages: ChatMessage[],
+  pollVotes: { _id: string; options: string[] }[] = []
+) => {
+  const votes = new Map(pollVotes.map(v => [v._id, v.options]));
+  return messages.map(m =>
+    m.messageType === "poll" ? { ...m, myVotes: votes.get(m._id) ?? [] } : m
+  );
+};
+
+// Disappearing messages timers offered, in seconds
+const MESSAGE_TTL_OPTIONS = {
+  off: null,
+  "1h": 60 * 60,
+  "1d": 24 * 60 * 60,
+  "7d": 7 * 24 * 60 * 60,
+} as const;
+
+type MessageTtl = keyof typeof MESSAGE_TTL_OPTIONS;
+
+const TTL_LABELS: Record<MessageTtl, string> = {
+  off: "Off",
+  "1h": "1 hour",
+  "1d": "1 day",
+  "7d": "7 days",
+};
+
+// How often messages past their expiry are dropped locally, in case the
+// messagesExpired event was missed while offline
+const EXPIRY_CHECK_INTERVAL = 30 * 1000;
+
+interface OutgoingMessage {
+  conversationId: string;
+  content: string;
+  replyTo?: string;
+  clientMessageId: string;
 }
 
-export default function ChatArea({ selectedUser, currentUser }: ChatAreaProps) {
-  const [messages, setMessages] = useState<Message[]>([]);
+export default function ChatArea({
+  conversation,
+  currentUser,
+  onActivity,
+}: ChatAreaProps) {
+  const [messages, setMessages] = useState<ChatMessage[]>([]);
   const [socket, setSocket] = useState<Socket | null>(null);
   const [error, setError] = useState<string | null>(null);
   const [isLoading, setIsLoading] = useState(false);
+  const [olderCursor, setOlderCursor] = useState<string | null>(null);
+  const [hasOlder, setHasOlder] = useState(false);
+  const [isLoadingOlder, setIsLoadingOlder] = useState(false);
+  const [replyingTo, setReplyingTo] = useState<ChatMessage | null>(null);
+  const [forwarding, setForwarding] = useState<ChatMessage | null>(null);
+  const [isCreatingPoll, setIsCreatingPoll] = useState(false);
+  const [reloadKey, setReloadKey] = useState(0);
+  const [pinnedMessages, setPinnedMessages] = useState<ChatMessage[]>([]);
+  const [messageTtl, setMessageTtl] = useState<number | null>(null);
+  const [scheduledMessages, setScheduledMessages] = useState<
+    ScheduledMessage[]
+  >([]);
+  const [composerDraft, setComposerDraft] = useState<{
+    content: string;
+  } | null>(null);
   const scrollRef = useRef<HTMLDivElement>(null);
+  const skipAutoScrollRef = useRef(false);
+  const conversationIdRef = useRef<string | undefined>(undefined);
+  const onActivityRef = useRef(onActivity);
+  // Latest server timestamp seen, where a sync resumes after a reconnect
+  const lastSeenAtRef = useRef<string | null>(null);
+  // Sends not yet confirmed by the server, resent after a reconnect
+  const pendingSendsRef = useRef(new Map<string, OutgoingMessage>());
+  // Names this tab in draft updates, so it can ignore its own echoes
+  const sessionIdRef = useRef<string | null>(null);
+  // Draft text waiting for the debounce before it is saved
+  const pendingDraftRef = useRef<{
+    conversationId: string;
+    content: string;
+    timeout: ReturnType<typeof setTimeout>;
+  } | null>(null);
   const router = useRouter();
 
+  conversationIdRef.current = conversation?._id;
+  onActivityRef.current = onActivity;
+
+  const noteSeen = useCallback((timestamp?: string) => {
+    if (
+      timestamp &&
+      (!lastSeenAtRef.current ||
+        new Date(timestamp) > new Date(lastSeenAtRef.current))
+    ) {
+      lastSeenAtRef.current = timestamp;
+    }
+  }, []);
+
   // Memoize message handler
-  const handleNewMessage = useCallback((message: Message) => {
-    setMessages(prev => {
-      // Check if message already exists to prevent duplicates
-      const exists = prev.some(m => m._id === message._id);
-      if (exists) return prev;
-      return [...prev, message];
-    });
+  const handleNewMessage = useCallback((message: ChatMessage) => {
+    if (message.conversation === conversationIdRef.current) {
+      setMessages(prev => {
+        // Check if message already exists to prevent duplicates
+        const exists = prev.some(
+          m =>
+            m._id === message._id ||
+            (!!message.clientMessageId &&
+              m.clientMessageId === message.clientMessageId)
+        );
+        if (exists) return prev;
+        return [...prev, message];
+      });
+      api.markConversationAsRead(message.conversation).catch(() => {});
+    }
+    // A scheduled message that was just sent is no longer pending
+    if (message.clientMessageId?.startsWith("scheduled:")) {
+      const jobId = message.clientMessageId.slice("scheduled:".length);
+      setScheduledMessages(prev => prev.filter(m => m._id !== jobId));
+    }
+    onActivityRef.current?.();
+  }, []);
+
+  // Replace an edited message in place
+  const handleMessageEdited = useCallback((message: ChatMessage) => {
+    setMessages(prev =>
+      prev.map(m => (m._id === message._id ? { ...m, ...message } : m))
+    );
+  }, []);
+
+  // Keep reactions in sync with the server's authoritative list
+  const handleReactionChanged = useCallback(
+    (data: { messageId: string; reactions: MessageReaction[] }) => {
+      setMessages(prev =>
+        prev.map(m =>
+          m._id === data.messageId ? { ...m, reactions: data.reactions } : m
+        )
+      );
+    },
+    []
+  );
+
+  const handlePollUpdated = useCallback(
+    (data: { messageId: string; poll: Poll }) => {
+      setMessages(prev =>
+        prev.map(m =>
+          m._id === data.messageId ? { ...m, poll: data.poll } : m
+        )
+      );
+    },
+    []
+  );
+
+  // Replace a message deleted for everyone, and quotes of it, by its tombstone
+  const handleMessageDeleted = useCallback(
+    (data: { messageId: string; content: string; deletedAt: string }) => {
+      const tombstone = {
+        content: data.content,
+        isDeletedForEveryone: true,
+      };
+      setMessages(prev =>
+        prev.map(m => {
+          if (m._id === data.messageId) {
+            return {
+              ...m,
+              ...tombstone,
+              deletedAt: data.deletedAt,
+              isEdited: false,
+              reactions: [],
+            };
+          }
+          if (m.replyTo?._id === data.messageId) {
+            return { ...m, replyTo: { ...m.replyTo, ...tombstone } };
+          }
+          return m;
+        })
+      );
+    },
+    []
+  );
+
+  // Keep the pinned list and the pin marker on messages in sync
+  const handleMessagePinned = useCallback(
+    (data: {
+      conversationId: string;
+      pinnedAt: string;
+      message: ChatMessage;
+    }) => {
+      if (data.conversationId !== conversationIdRef.current) return;
+      const pinned = { ...data.message, pinnedAt: data.pinnedAt };
+      setPinnedMessages(prev => [
+        ...prev.filter(m => m._id !== pinned._id),
+        pinned,
+      ]);
+      setMessages(prev =>
+        prev.map(m =>
+          m._id === pinned._id ? { ...m, pinnedAt: data.pinnedAt } : m
+        )
+      );
+    },
+    []
+  );
+
+  // Drop messages whose disappearing timer ran out
+  const handleMessagesExpired = useCallback(
+    (data: { conversationId: string; messageIds: string[] }) => {
+      const expired = new Set(data.messageIds);
+      setMessages(prev => prev.filter(m => !expired.has(m._id)));
+      setPinnedMessages(prev => prev.filter(m => !expired.has(m._id)));
+    },
+    []
+  );
+
+  const handleConversationUpdated = useCallback(
+    (updated: Conversation) => {
+      if (updated._id === conversationIdRef.current) {
+        setMessageTtl(updated.messageTtl ?? null);
+      }
+    },
+    []
+  );
+
+  const getSessionId = () => {
+    if (!sessionIdRef.current) {
+      sessionIdRef.current = crypto.randomUUID();
+    }
+    return sessionIdRef.current;
+  };
+
+  // Save the waiting draft now instead of after the debounce
+  const flushDraft = useCallback(() => {
+    const pending = pendingDraftRef.current;
+    if (!pending) return;
+
+    clearTimeout(pending.timeout);
+    pendingDraftRef.current = null;
+    api
+      .saveDraft(pending.conversationId, pending.content, getSessionId())
+      .catch(() => {});
   }, []);
 
+  const handleDraftChange = (content: string) => {
+    if (!conversation) return;
+
+    clearTimeout(pendingDraftRef.current?.timeout);
+    pendingDraftRef.current = {
+      conversationId: conversation._id,
+      content,
+      timeout: setTimeout(flushDraft, 800),
+    };
+  };
+
+  // Another tab or device of this user changed a draft
+  const handleDraftUpdated = useCallback(
+    (data: { conversationId: string; content: string; sessionId?: string }) => {
+      if (
+        data.sessionId !== sessionIdRef.current &&
+        data.conversationId === conversationIdRef.current
+      ) {
+        setComposerDraft({ content: data.content });
+      }
+    },
+    []
+  );
+
+  const handleMessageUnpinned = useCallback((data: { messageId: string }) => {
+    setPinnedMessages(prev => prev.filter(m => m._id !== data.messageId));
+    setMessages(prev =>
+      prev.map(m =>
+        m._id === data.messageId ? { ...m, pinnedAt: undefined } : m
+      )
+    );
+  }, []);
+
+  // Swap an optimistic message for the stored one once the server confirms
+  // it, retries are confirmed with the same server _id
+  const handleMessageSent = useCallback(
+    (data: {
+      messageId: string;
+      clientMessageId?: string;
+      createdAt: string;
+    }) => {
+      if (!data.clientMessageId) return;
+      pendingSendsRef.current.delete(data.clientMessageId);
+      setMessages(prev =>
+        prev.map(m =>
+          m.clientMessageId === data.clientMessageId
+            ? {
+                ...m,
+                _id: data.messageId,
+                createdAt: data.createdAt,
+                pending: false,
+              }
+            : m
+        )
+      );
+    },
+    []
+  );
+
+  // A receiver's device acknowledged one of our messages
+  const handleMessageDelivered = useCallback((data: { messageId: string }) => {
+    setMessages(prev =>
+      prev.map(m =>
+        m._id === data.messageId && m.status === "sent"
+          ? { ...m, status: "delivered" }
+          : m
+      )
+    );
+  }, []);
+
+  // Merge messages replayed by a sync: new ones are added, changed ones
+  // replaced and ones deleted for the current user removed
+  const handleSyncedMessages = useCallback(
+    (synced: ChatMessage[], deletedIds: string[]) => {
+      const deleted = new Set(deletedIds);
+      setMessages(prev => {
+        const next = prev.filter(m => !deleted.has(m._id));
+        synced
+          .filter(m => m.conversation === conversationIdRef.current)
+          .forEach(message => {
+            const index = next.findIndex(
+              m =>
+                m._id === message._id ||
+                (!!message.clientMessageId &&
+                  m.clientMessageId === message.clientMessageId)
+            );
+            if (index === -1) {
+              next.push(message);
+            } else {
+              next[index] = { ...next[index], ...message, pending: false };
+            }
+          });
+        return next.sort(
+          (a, b) =>
+            new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime()
+        );
+      });
+      if (synced.length || deletedIds.length) {
+        onActivityRef.current?.();
+      }
+    },
+    []
+  );
+
   // Socket initialization
   useEffect(() => {
     const token = localStorage.getItem("token");
@@ -73,9 +409,105 @@ export default function ChatArea({ selectedUser, currentUser }: ChatAreaProps) {
     newSocket.on("connect", () => {
       console.log("Connected to socket server");
       setError(null);
+
+      // Catch up on whatever happened while the connection was down
+      if (lastSeenAtRef.current) {
+        newSocket.emit("sync", { since: lastSeenAtRef.current });
+      }
+
+      // Resend unconfirmed messages, the server ignores ones it already stored
+      pendingSendsRef.current.forEach(outgoing =>
+        newSocket.emit("sendMessage", outgoing)
+      );
     });
 
-    newSocket.on("messageReceived", handleNewMessage);
+    // Acknowledge received messages in small batches, which is what marks
+    // them delivered for their sender
+    let pendingAcks: string[] = [];
+    let ackTimeout: ReturnType<typeof setTimeout> | undefined;
+    const acknowledge = (messageIds: string[]) => {
+      pendingAcks.push(...messageIds);
+      clearTimeout(ackTimeout);
+      ackTimeout = setTimeout(() => {
+        newSocket.emit("acknowledgeDelivery", { messageIds: pendingAcks });
+        pendingAcks = [];
+      }, 100);
+    };
+
+    const handleMessageReceived = (message: ChatMessage) => {
+      acknowledge([message._id]);
+      noteSeen(message.updatedAt ?? message.createdAt);
+      handleNewMessage(message);
+    };
+
+    // Sync pages arrive oldest change first, so progress is kept per page and
+    // an interrupted sync resumes where it stopped
+    const handleSyncBatch = (batch: {
+      messages: ChatMessage[];
+      deleted: { messageId: string }[];
+      hasMore: boolean;
+      cursor: string | null;
+      truncated: boolean;
+      syncedAt: string;
+    }) => {
+      if (batch.truncated) {
+        // Too much was missed to replay, reload the open conversation instead
+        setReloadKey(key => key + 1);
+      }
+
+      acknowledge(
+        batch.messages
+          .filter(m => m.sender._id !== currentUser?._id)
+          .map(m => m._id)
+      );
+      handleSyncedMessages(
+        batch.messages,
+        batch.deleted.map(d => d.messageId)
+      );
+      batch.messages.forEach(m => noteSeen(m.updatedAt ?? m.createdAt));
+
+      if (batch.hasMore && batch.cursor) {
+        newSocket.emit("sync", { cursor: batch.cursor });
+      } else {
+        noteSeen(batch.syncedAt);
+      }
+    };
+
+    const handleEdited = (message: ChatMessage) => {
+      noteSeen(message.updatedAt ?? message.editedAt);
+      handleMessageEdited(message);
+    };
+
+    const handleDeleted = (data: {
+      messageId: string;
+      content: string;
+      deletedAt: string;
+    }) => {
+      noteSeen(data.deletedAt);
+      handleMessageDeleted(data);
+      // Messages deleted for everyone lose their pin
+      handleMessageUnpinned(data);
+    };
+
+    newSocket.on("messageReceived", handleMessageReceived);
+    newSocket.on("messageSent", handleMessageSent);
+    newSocket.on("messageDelivered", handleMessageDelivered);
+    newSocket.on("messageEdited", handleEdited);
+    newSocket.on("messageDeleted", handleDeleted);
+    newSocket.on("syncBatch", handleSyncBatch);
+    newSocket.on("messagePinned", handleMessagePinned);
+    newSocket.on("messageUnpinned", handleMessageUnpinned);
+    newSocket.on("reactionAdded", handleReactionChanged);
+    newSocket.on("reactionRemoved", handleReactionChanged);
+    newSocket.on("pollUpdated", handlePollUpdated);
+    newSocket.on("messagesExpired", handleMessagesExpired);
+    newSocket.on("conversationUpdated", handleConversationUpdated);
+    newSocket.on("draftUpdated", handleDraftUpdated);
+
+    // Action failures are reported by the server without closing the chat
+    newSocket.on("error", (message: string) => {
+      console.error("Socket error:", message);
+    });
 
     newSocket.on("connect_error", (err) => {
       console.error("Socket connection error:", err);
@@ -85,20 +517,71 @@ export default function ChatArea({ selectedUser, currentUser }: ChatAreaProps) {
     setSocket(newSocket);
 
     return () => {
-      newSocket.off("messageReceived", handleNewMessage);
+      clearTimeout(ackTimeout);
+      newSocket.off("messageReceived", handleMessageReceived);
+      newSocket.off("messageSent", handleMessageSent);
+      newSocket.off("messageDelivered", handleMessageDelivered);
+      newSocket.off("messageEdited", handleEdited);
+      newSocket.off("messageDeleted", handleDeleted);
+      newSocket.off("syncBatch", handleSyncBatch);
+      newSocket.off("messagePinned", handleMessagePinned);
+      newSocket.off("messageUnpinned", handleMessageUnpinned);
+      newSocket.off("reactionAdded", handleReactionChanged);
+      newSocket.off("reactionRemoved", handleReactionChanged);
+      newSocket.off("pollUpdated", handlePollUpdated);
+      newSocket.off("messagesExpired", handleMessagesExpired);
+      newSocket.off("conversationUpdated", handleConversationUpdated);
+      newSocket.off("draftUpdated", handleDraftUpdated);
       newSocket.disconnect();
     };
-  }, [currentUser?._id, router, handleNewMessage]);
+  }, [
+    currentUser?._id,
+    router,
+    noteSeen,
+    handleNewMessage,
+    handleMessageSent,
+    handleMessageDelivered,
+    handleMessageEdited,
+    handleMessageDeleted,
+    handleReactionChanged,
+    handlePollUpdated,
+    handleSyncedMessages,
+    handleMessagePinned,
+    handleMessageUnpinned,
+    handleMessagesExpired,
+    handleConversationUpdated,
+    handleDraftUpdated,
+  ]);
+
+  useEffect(() => {
+    setMessageTtl(conversation?.messageTtl ?? null);
+  }, [conversation?._id, conversation?.messageTtl]);
+
+  // Drop expired messages the server has not told us about yet
+  useEffect(() => {
+    const interval = setInterval(() => {
+      const now = Date.now();
+      setMessages(prev => {
+        const next = prev.filter(
+          m => !m.expiresAt || new Date(m.expiresAt).getTime() > now
+        );
+        return next.length === prev.length ? prev : next;
+      });
+    }, EXPIRY_CHECK_INTERVAL);
 
-  // Fetch messages when user is selected
+    return () => clearInterval(interval);
+  }, []);
+
+  // Fetch messages when a conversation is selected
   useEffect(() => {
     const fetchMessages = async () => {
-      if (!selectedUser?._id || !currentUser?._id) return;
+      if (!conversation?._id || !currentUser?._id) return;
 
+      setReplyingTo(null);
       setIsLoading(true);
       try {
         const response = await fetch(
-          `${process.env.NEXT_PUBLIC_API_URL}/api/v1/chat/conversations/${selectedUser._id}`,
+          `${process.env.NEXT_PUBLIC_API_URL}/api/v1/chat/conversations/${conversation._id}`,
           {
             headers: {
               Authorization: `Bearer ${localStorage.getItem("token")}`,
@@ -110,7 +593,20 @@ export default function ChatArea({ selectedUser, currentUser }: ChatAreaProps) {
 
         const data = await response.json();
         if (data.success) {
-          setMessages(data.data);
+          setMessages(
+            withPollVotes(
+              withStars(data.data.messages, data.data.starred),
+              data.data.pollVotes
+            )
+          );
+          data.data.messages.forEach((m: ChatMessage) =>
+            noteSeen(m.updatedAt ?? m.createdAt)
+          );
+          setOlderCursor(data.data.cursors.before);
+          setHasOlder(data.data.hasMore);
+
+          await api.markConversationAsRead(conversation._id);
+          onActivityRef.current?.();
         } else {
           setError(data.message || "Failed to load messages");
         }
@@ -123,51 +619,379 @@ export default function ChatArea({ selectedUser, currentUser }: ChatAreaProps) {
     };
 
     fetchMessages();
-  }, [selectedUser?._id, currentUser?._id]);
+  }, [conversation?._id, currentUser?._id, reloadKey, noteSeen]);
+
+  // Fetch the pinned messages of the selected conversation
+  useEffect(() => {
+    if (!conversation?._id) return;
+
+    setPinnedMessages([]);
+    api
+      .getPinnedMessages(conversation._id)
+      .then(response => {
+        if (response.success) {
+          setPinnedMessages(response.data.messages);
+        }
+      })
+      .catch(() => {});
+  }, [conversation?._id, reloadKey]);
+
+  // Fetch the messages the current user scheduled in this conversation
+  useEffect(() => {
+    if (!conversation?._id) return;
+
+    setScheduledMessages([]);
+    api
+      .getScheduledMessages(conversation._id)
+      .then(response => {
+        if (response.success) {
+          setScheduledMessages(response.data);
+        }
+      })
+      .catch(() => {});
+  }, [conversation?._id, reloadKey]);
+
+  // Restore the draft of the selected conversation, a draft still waiting to
+  // be saved is saved before switching away
+  useEffect(() => {
+    if (!conversation?._id) return;
+
+    const conversationId = conversation._id;
+    setComposerDraft({ content: "" });
+    api
+      .getDraft(conversationId)
+      .then(response => {
+        // Don't overwrite what was typed while the draft loaded
+        if (
+          response.success &&
+          conversationIdRef.current === conversationId &&
+          pendingDraftRef.current?.conversationId !== conversationId
+        ) {
+          setComposerDraft({ content: response.data?.content ?? "" });
+        }
+      })
+      .catch(() => {});
+
+    return flushDraft;
+  }, [conversation?._id, flushDraft]);
+
+  // Load the page of messages before the oldest one shown
+  const loadOlderMessages = async () => {
+    if (!conversation?._id || !olderCursor || isLoadingOlder) return;
+
+    setIsLoadingOlder(true);
+    try {
+      const response = await fetch(
+        `${process.env.NEXT_PUBLIC_API_URL}/api/v1/chat/conversations/${conversation._id}?before=${encodeURIComponent(olderCursor)}`,
+        {
+          headers: {
+            Authorization: `Bearer ${localStorage.getItem("token")}`,
+          },
+        }
+      );
+
+      if (!response.ok) throw new Error(`HTTP error! status: ${response.status}`);
+
+      const data = await response.json();
+      if (data.success) {
+        skipAutoScrollRef.current = true;
+        setMessages(prev => [
+          ...withPollVotes(
+            withStars(data.data.messages, data.data.starred),
+            data.data.pollVotes
+          ),
+          ...prev,
+        ]);
+        setOlderCursor(data.data.cursors.before);
+        setHasOlder(data.data.hasMore);
+      }
+    } catch (err) {
+      console.error("Error fetching older messages:", err);
+    } finally {
+      setIsLoadingOlder(false);
+    }
+  };
 
   // Auto-scroll to latest message
   useEffect(() => {
+    if (skipAutoScrollRef.current) {
+      skipAutoScrollRef.current = false;
+      return;
+    }
     if (messages.length) {
       scrollRef.current?.scrollIntoView({ behavior: "smooth" });
     }
   }, [messages]);
 
   const handleSendMessage = async (content: string) => {
-    if (!socket || !selectedUser || !content.trim()) return;
+    if (!socket || !conversation || !content.trim()) return;
+
+    // The server drops the stored draft once the message is stored
+    clearTimeout(pendingDraftRef.current?.timeout);
+    pendingDraftRef.current = null;
 
     try {
-      // Create a temporary message
-      const tempMessage: Message = {
-        _id: Date.now().toString(), // temporary ID
+      // Create a temporary message, its client ID makes resending safe
+      const clientMessageId = crypto.randomUUID();
+      const tempMessage: ChatMessage = {
+        _id: clientMessageId, // temporary ID
+        clientMessageId,
+        conversation: conversation._id,
         content: content.trim(),
         sender: {
           _id: currentUser!._id,
           username: currentUser!.username,
           avatar: currentUser?.avatar
         },
-        receiver: {
-          _id: selectedUser._id,
-          username: selectedUser.username,
-          avatar: selectedUser.avatar
-        },
         createdAt: new Date().toISOString(),
-        status: "sent"
+        status: "sent",
+        replyTo: replyingTo && {
+          _id: replyingTo._id,
+          content: replyingTo.content,
+          messageType: "text",
+          createdAt: replyingTo.createdAt,
+          sender: {
+            _id: replyingTo.sender._id,
+            username: replyingTo.sender.username,
+          },
+        },
+        pending: true
       };
 
       // Add message to local state immediately
       setMessages(prev => [...prev, tempMessage]);
 
       // Emit the message
-      socket.emit("sendMessage", {
-        receiverId: selectedUser._id,
+      const outgoing: OutgoingMessage = {
+        conversationId: conversation._id,
         content: content.trim(),
-      });
+        replyTo: replyingTo?._id,
+        clientMessageId,
+      };
+      pendingSendsRef.current.set(clientMessageId, outgoing);
+      socket.emit("sendMessage", outgoing);
+      setReplyingTo(null);
+      onActivity?.();
     } catch (err) {
       console.error("Error sending message:", err);
       setError("Failed to send message");
     }
   };
 
+  // Stars are private, so they go through the REST API without any broadcast
+  const handleToggleStar = async (message: ChatMessage) => {
+    try {
+      if (message.isStarred) {
+        await api.unstarMessage(message._id);
+      } else {
+        await api.starMessage(message._id);
+      }
+      setMessages(prev =>
+        prev.map(m =>
+          m._id === message._id ? { ...m, isStarred: !message.isStarred } : m
+        )
+      );
+    } catch (err) {
+      console.error("Error updating star:", err);
+    }
+  };
+
+  const handleTogglePin = (message: ChatMessage) => {
+    socket?.emit(message.pinnedAt ? "unpinMessage" : "pinMessage", {
+      messageId: message._id,
+    });
+  };
+
+  const handleUnpin = (messageId: string) => {
+    socket?.emit("unpinMessage", { messageId });
+  };
+
+  // The server does not echo forwarded copies back to their sender, so
+  // copies into the open conversation are added here
+  const handleForwarded = (copies: ChatMessage[]) => {
+    copies.forEach(handleNewMessage);
+  };
+
+  const handleCreatePoll = async (poll: NewPoll) => {
+    if (!conversation) return;
+
+    const response = await api.sendPoll(conversation._id, poll);
+    if (response.success) {
+      handleNewMessage({ ...response.data, myVotes: [] });
+    }
+  };
+
+  const handleSendAttachment = async (file: File, caption?: string) => {
+    if (!conversation) return;
+
+    // A caption empties the composer, the server drops its draft
+    if (caption) {
+      clearTimeout(pendingDraftRef.current?.timeout);
+      pendingDraftRef.current = null;
+    }
+
+    const response = await api.sendAttachment({
+      conversationId: conversation._id,
+      file,
+      caption,
+      clientMessageId: crypto.randomUUID(),
+      replyTo: replyingTo?._id,
+    });
+    if (response.success) {
+      handleNewMessage(response.data);
+      setReplyingTo(null);
+    }
+  };
+
+  const handleSendVoiceNote = async (recording: Blob) => {
+    if (!conversation) return;
+
+    const response = await api.sendVoiceNote({
+      conversationId: conversation._id,
+      recording,
+      clientMessageId: crypto.randomUUID(),
+      replyTo: replyingTo?._id,
+    });
+    if (response.success) {
+      handleNewMessage(response.data);
+      setReplyingTo(null);
+    }
+  };
+
+  const handleVote = async (messageId: string, optionIds: string[]) => {
+    try {
+      const response = await api.votePoll(messageId, optionIds);
+      if (response.success) {
+        setMessages(prev =>
+          prev.map(m =>
+            m._id === messageId
+              ? { ...m, poll: response.data.poll, myVotes: optionIds }
+              : m
+          )
+        );
+      }
+    } catch (err) {
+      console.error("Error voting in poll:", err);
+    }
+  };
+
+  const handleClosePoll = async (messageId: string) => {
+    try {
+      const response = await api.closePoll(messageId);
+      if (response.success) {
+        handlePollUpdated(response.data);
+      }
+    } catch (err) {
+      console.error("Error closing poll:", err);
+    }
+  };
+
+  const getMemberName = (userId: string) =>
+    conversation?.members.find(m => m.user._id === userId)?.user.username;
+
+  const handleChangeTtl = async (ttl: MessageTtl) => {
+    if (!conversation) return;
+
+    try {
+      const response = await api.setDisappearingMessages(conversation._id, ttl);
+      if (response.success) {
+        setMessageTtl(response.data.messageTtl ?? null);
+      }
+    } catch (err) {
+      console.error("Error updating disappearing messages:", err);
+    }
+  };
+
+  const handleScheduleMessage = async (
+    content: string,
+    localTime: string,
+    timeZone: string
+  ) => {
+    if (!conversation) return;
+
+    try {
+      const response = await api.scheduleMessage({
+        conversationId: conversation._id,
+        content,
+        localTime,
+        timeZone,
+      });
+      if (response.success) {
+        setScheduledMessages(prev =>
+          [...prev, response.data].sort((a, b) =>
+            a.sendAt.localeCompare(b.sendAt)
+          )
+        );
+      }
+    } catch (err) {
+      console.error("Error scheduling message:", err);
+    }
+  };
+
+  const handleUpdateScheduled = async (
+    jobId: string,
+    content: string,
+    localTime: string
+  ) => {
+    try {
+      const response = await api.updateScheduledMessage(jobId, {
+        content,
+        localTime,
+      });
+      if (response.success) {
+        setScheduledMessages(prev =>
+          prev
+            .map(m => (m._id === jobId ? response.data : m))
+            .sort((a, b) => a.sendAt.localeCompare(b.sendAt))
+        );
+      }
+    } catch (err) {
+      console.error("Error updating scheduled message:", err);
+    }
+  };
+
+  const handleCancelScheduled = async (jobId: string) => {
+    try {
+      await api.cancelScheduledMessage(jobId);
+      setScheduledMessages(prev => prev.filter(m => m._id !== jobId));
+    } catch (err) {
+      console.error("Error cancelling scheduled message:", err);
+    }
+  };
+
+  const handleReply = (message: ChatMessage) => {
+    setReplyingTo(message);
+  };
+
+  const handleEditMessage = (messageId: string, content: string) => {
+    socket?.emit("editMessage", { messageId, content });
+  };
+
+  const handleDeleteMessage = async (messageId: string, forEveryone: boolean) => {
+    try {
+      await api.deleteMessage(messageId, forEveryone);
+      // Deleting for everyone is confirmed through the messageDeleted event
+      if (!forEveryone) {
+        setMessages(prev => prev.filter(m => m._id !== messageId));
+      }
+      onActivity?.();
+    } catch (err) {
+      console.error("Error deleting message:", err);
+    }
+  };
+
+  // Toggle the current user's reaction with an emoji
+  const handleToggleReaction = (messageId: string, emoji: string) => {
+    const message = messages.find(m => m._id === messageId);
+    const reacted = message?.reactions?.some(
+      r => r.emoji === emoji && r.users.includes(currentUser?._id ?? "")
+    );
+    socket?.emit(reacted ? "removeReaction" : "addReaction", {
+      messageId,
+      emoji,
+    });
+  };
+
   // Add loading and error states
   if (isLoading) {
     return <div className="flex-1 flex items-center justify-center">Loading...</div>;
@@ -177,32 +1001,73 @@ export default function ChatArea({ selectedUser, currentUser }: ChatAreaProps) {
     return <div className="flex-1 flex items-center justify-center text-red-500">{error}</div>;
   }
 
-  if (!selectedUser) {
+  if (!conversation) {
     return (
       <div className="flex-1 flex items-center justify-center bg-gray-50">
-        <p className="text-gray-500">Select a user to start chatting</p>
+        <p className="text-gray-500">Select a conversation to start chatting</p>
       </div>
     );
   }
 
+  const conversationName = getConversationName(conversation, currentUser?._id);
+  const currentTtl =
+    (Object.keys(MESSAGE_TTL_OPTIONS) as MessageTtl[]).find(
+      ttl => MESSAGE_TTL_OPTIONS[ttl] === messageTtl
+    ) ?? "off";
+  const otherMember =
+    conversation.type === "direct"
+      ? getOtherMember(conversation, currentUser?._id)
+      : undefined;
+
   return (
     <div className="flex-1 flex flex-col bg-white">
       {/* Chat Header */}
       <div className="p-4 border-b flex items-center gap-3">
         <Avatar>
-          <AvatarImage src={selectedUser.avatar} alt={selectedUser.username} />
+          <AvatarImage
+            src={getConversationAvatar(conversation, currentUser?._id)}
+            alt={conversationName}
+          />
           <AvatarFallback>
-            {selectedUser.username[0].toUpperCase()}
+            {conversationName[0].toUpperCase()}
           </AvatarFallback>
         </Avatar>
-        <div>
-          <h3 className="font-medium">{selectedUser.username}</h3>
+        <div className="flex-1">
+          <h3 className="font-medium">{conversationName}</h3>
           <p className="text-sm text-muted-foreground">
-            {selectedUser.isOnline ? "Online" : "Offline"}
+            {otherMember
+              ? otherMember.isOnline ? "Online" : "Offline"
+              : `${conversation.members.length} members`}
           </p>
         </div>
+        <label
+          className="flex items-center gap-1 text-sm text-gray-500"
+          title="Disappearing messages"
+        >
+          <Timer className="h-4 w-4" />
+          <select
+            aria-label="Disappearing messages"
+            className="bg-transparent"
+            value={currentTtl}
+            onChange={e => handleChangeTtl(e.target.value as MessageTtl)}
+          >
+            {(Object.keys(TTL_LABELS) as MessageTtl[]).map(ttl => (
+              <option key={ttl} value={ttl}>
+                {TTL_LABELS[ttl]}
+              </option>
+            ))}
+          </select>
+        </label>
+        <ExportMenu conversationId={conversation._id} />
       </div>
 
+      <PinnedMessages messages={pinnedMessages} onUnpin={handleUnpin} />
+      <ScheduledMessages
+        messages={scheduledMessages}
+        onUpdate={handleUpdateScheduled}
+        onCancel={handleCancelScheduled}
+      />
+
       {/* Messages Area */}
       <ScrollArea className="flex-1 p-4">
         {messages.length === 0 ? (
@@ -211,27 +1076,50 @@ export default function ChatArea({ selectedUser, currentUser }: ChatAreaProps) {
           </div>
         ) : (
           <div className="space-y-4">
-            {messages.map((message) => (
-              <div
-                key={message._id}
-                className={`flex ${message.sender._id === currentUser?._id
-                  ? "justify-end"
-                  : "justify-start"
-                  }`}
-              >
-                <div
-                  className={`max-w-[70%] break-words rounded-lg p-3 ${message.sender._id === currentUser?._id
-                    ? "bg-blue-500 text-white"
-                    : "bg-gray-100 text-gray-900"
-                    }`}
+            {hasOlder && (
+              <div className="flex justify-center">
+                <button
+                  className="text-sm text-blue-500 hover:underline disabled:opacity-50"
+                  onClick={loadOlderMessages}
+                  disabled={isLoadingOlder}
                 >
-                  <p>{message.content}</p>
-                  <span className="text-xs opacity-70">
-                    {new Date(message.createdAt).toLocaleTimeString()}
-                  </span>
-                </div>
+                  {isLoadingOlder ? "Loading..." : "Load older messages"}
+                </button>
               </div>
-            ))}
+            )}
+            {messages.map((message) => {
+              if (message.messageType === "system") {
+                return (
+                  <p
+                    key={message._id}
+                    className="text-center text-xs text-gray-500"
+                  >
+                    {message.content}
+                  </p>
+                );
+              }
+
+              const isOwn = message.sender._id === currentUser?._id;
+              return (
+                <MessageBubble
+                  key={message._id}
+                  message={message}
+                  isOwn={isOwn}
+                  showSender={conversation.type === "group" && !isOwn}
+                  currentUserId={currentUser?._id}
+                  onEdit={handleEditMessage}
+                  onReply={handleReply}
+                  onDelete={handleDeleteMessage}
+                  onTogglePin={handleTogglePin}
+                  onToggleStar={handleToggleStar}
+                  onForward={setForwarding}
+                  onVote={handleVote}
+                  onClosePoll={handleClosePoll}
+                  getMemberName={getMemberName}
+                  onToggleReaction={handleToggleReaction}
+                />
+              );
+            })}
             <div ref={scrollRef} />
           </div>
         )}
@@ -241,9 +1129,33 @@ export default function ChatArea({ selectedUser, currentUser }: ChatAreaProps) {
       <div className="p-4 border-t">
         <MessageInput
           onSendMessage={handleSendMessage}
-          disabled={!selectedUser}
+          disabled={!conversation}
+          replyingTo={replyingTo}
+          onCancelReply={() => setReplyingTo(null)}
+          onScheduleMessage={handleScheduleMessage}
+          draft={composerDraft}
+          onDraftChange={handleDraftChange}
+          onCreatePoll={() => setIsCreatingPoll(true)}
+          onSendVoiceNote={handleSendVoiceNote}
+          onSendAttachment={handleSendAttachment}
         />
       </div>
+
+      {isCreatingPoll && (
+        <PollDialog
+          onClose={() => setIsCreatingPoll(false)}
+          onCreate={handleCreatePoll}
+        />
+      )}
+
+      {forwarding && (
+        <ForwardDialog
+          message={forwarding}
+          currentUserId={currentUser?._id}
+          onClose={() => setForwarding(null)}
+          onForwarded={handleForwarded}
+        />
+      )}
     </div>
   );
 }
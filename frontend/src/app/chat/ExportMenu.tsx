@@ -0,0 +1,112 @@
+"use client";
+
+import { useState } from "react";
+import { Download } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  Popover,
+  PopoverContent,
+  PopoverTrigger,
+} from "@/components/ui/popover";
+import { api } from "@/service/api";
+import { ExportFormat } from "@/types/Chat";
+
+const FORMAT_LABELS: Record<ExportFormat, string> = {
+  html: "Web page (HTML)",
+  txt: "Plain text",
+  json: "JSON",
+};
+
+// Start of a picked day in the user's timezone, optionally days later
+const startOfDay = (date: string, days = 0) => {
+  const day = new Date(`${date}T00:00`);
+  day.setDate(day.getDate() + days);
+  return day.toISOString();
+};
+
+interface ExportMenuProps {
+  conversationId: string;
+}
+
+export default function ExportMenu({ conversationId }: ExportMenuProps) {
+  const [format, setFormat] = useState<ExportFormat>("html");
+  const [from, setFrom] = useState("");
+  const [to, setTo] = useState("");
+  const [isExporting, setIsExporting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleExport = async () => {
+    setIsExporting(true);
+    setError(null);
+    try {
+      // The end day is included, so the range stops when the next day starts
+      const { file, filename } = await api.exportConversation(conversationId, {
+        format,
+        from: from ? startOfDay(from) : undefined,
+        to: to ? startOfDay(to, 1) : undefined,
+      });
+
+      const url = URL.createObjectURL(file);
+      const link = document.createElement("a");
+      link.href = url;
+      link.download = filename;
+      link.click();
+      setTimeout(() => URL.revokeObjectURL(url), 0);
+    } catch {
+      setError("Failed to export conversation");
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button variant="ghost" size="icon" aria-label="Export conversation">
+          <Download className="h-4 w-4" />
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-64 flex flex-col gap-2">
+        <span className="text-sm font-medium">Export conversation</span>
+        <select
+          aria-label="Export format"
+          className="rounded border px-2 py-1 text-sm"
+          value={format}
+          onChange={(e) => setFormat(e.target.value as ExportFormat)}
+        >
+          {(Object.keys(FORMAT_LABELS) as ExportFormat[]).map((key) => (
+            <option key={key} value={key}>
+              {FORMAT_LABELS[key]}
+            </option>
+          ))}
+        </select>
+        <label className="text-xs text-gray-500" htmlFor="export-from">
+          From
+        </label>
+        <input
+          id="export-from"
+          type="date"
+          className="rounded border px-2 py-1 text-sm"
+          value={from}
+          max={to || undefined}
+          onChange={(e) => setFrom(e.target.value)}
+        />
+        <label className="text-xs text-gray-500" htmlFor="export-to">
+          To
+        </label>
+        <input
+          id="export-to"
+          type="date"
+          className="rounded border px-2 py-1 text-sm"
+          value={to}
+          min={from || undefined}
+          onChange={(e) => setTo(e.target.value)}
+        />
+        {error && <p className="text-xs text-red-500">{error}</p>}
+        <Button size="sm" onClick={handleExport} disabled={isExporting}>
+          {isExporting ? "Exporting..." : "Download"}
+        </Button>
+      </PopoverContent>
+    </Popover>
+  );
+}
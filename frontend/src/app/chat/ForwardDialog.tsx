@@ -0,0 +1,108 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { api } from "@/service/api";
+import { ChatMessage, Conversation } from "@/types/Chat";
+import { getConversationName } from "@/lib/conversation";
+
+interface ForwardDialogProps {
+  message: ChatMessage;
+  currentUserId?: string;
+  onClose: () => void;
+  onForwarded: (copies: ChatMessage[]) => void;
+}
+
+export default function ForwardDialog({
+  message,
+  currentUserId,
+  onClose,
+  onForwarded,
+}: ForwardDialogProps) {
+  const [conversations, setConversations] = useState<Conversation[]>([]);
+  const [selected, setSelected] = useState<string[]>([]);
+  const [isSending, setIsSending] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const fetchConversations = async () => {
+      try {
+        const response = await api.getConversations();
+        if (response.success) {
+          setConversations(response.data);
+        }
+      } catch (err) {
+        console.error("Error fetching conversations:", err);
+        setError("Failed to load conversations");
+      }
+    };
+
+    fetchConversations();
+  }, []);
+
+  const toggle = (conversationId: string) => {
+    setSelected((prev) =>
+      prev.includes(conversationId)
+        ? prev.filter((id) => id !== conversationId)
+        : [...prev, conversationId]
+    );
+  };
+
+  const forward = async () => {
+    setIsSending(true);
+    try {
+      const response = await api.forwardMessages([message._id], selected);
+      if (response.success) {
+        onForwarded(response.data);
+        onClose();
+      }
+    } catch (err) {
+      console.error("Error forwarding message:", err);
+      setError("Failed to forward message");
+    } finally {
+      setIsSending(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/30">
+      <div className="w-80 rounded-lg bg-white p-4 shadow-lg">
+        <div className="mb-2 flex items-center justify-between">
+          <h3 className="font-medium">Forward message</h3>
+          <button
+            className="text-gray-400 hover:text-gray-600"
+            onClick={onClose}
+            aria-label="Close"
+          >
+            <X className="h-4 w-4" />
+          </button>
+        </div>
+        <p className="mb-3 truncate text-sm text-gray-500">{message.content}</p>
+        {error && <p className="mb-2 text-sm text-red-500">{error}</p>}
+        <div className="max-h-64 overflow-y-auto">
+          {conversations.map((conversation) => (
+            <label
+              key={conversation._id}
+              className="flex items-center gap-2 rounded px-2 py-1.5 text-sm hover:bg-gray-100"
+            >
+              <input
+                type="checkbox"
+                checked={selected.includes(conversation._id)}
+                onChange={() => toggle(conversation._id)}
+              />
+              {getConversationName(conversation, currentUserId)}
+            </label>
+          ))}
+        </div>
+        <Button
+          className="mt-3 w-full"
+          onClick={forward}
+          disabled={selected.length === 0 || isSending}
+        >
+          {isSending ? "Forwarding..." : "Forward"}
+        </Button>
+      </div>
+    </div>
+  );
+}
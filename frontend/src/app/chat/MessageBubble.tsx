@@ -0,0 +1,375 @@
+"use client";
+
+import { useState, KeyboardEvent } from "react";
+import {
+  Check,
+  CheckCheck,
+  Clock,
+  Forward,
+  Pencil,
+  Pin,
+  PinOff,
+  Reply,
+  SmilePlus,
+  Star,
+  Trash2,
+} from "lucide-react";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Popover,
+  PopoverContent,
+  PopoverTrigger,
+} from "@/components/ui/popover";
+import { ChatMessage } from "@/types/Chat";
+import MessageMarkdown from "./MessageMarkdown";
+import PollCard from "./PollCard";
+import VoiceNotePlayer from "./VoiceNotePlayer";
+import AttachmentPreview from "./AttachmentPreview";
+
+/**
+ * Delivery state of an own message: pending, sent, delivered or read
+ */
+function StatusIcon({ message }: { message: ChatMessage }) {
+  if (message.pending) {
+    return <Clock className="h-3 w-3" aria-label="Sending" />;
+  }
+  if (message.status === "read") {
+    return <CheckCheck className="h-3 w-3 text-sky-200" aria-label="Read" />;
+  }
+  if (message.status === "delivered") {
+    return <CheckCheck className="h-3 w-3" aria-label="Delivered" />;
+  }
+  return <Check className="h-3 w-3" aria-label="Sent" />;
+}
+
+const QUICK_REACTIONS = ["👍", "❤️", "😂", "😮", "😢", "🙏"];
+
+interface MessageBubbleProps {
+  message: ChatMessage;
+  isOwn: boolean;
+  showSender?: boolean;
+  currentUserId?: string;
+  onEdit?: (messageId: string, content: string) => void;
+  onReply?: (message: ChatMessage) => void;
+  onToggleReaction?: (messageId: string, emoji: string) => void;
+  onDelete?: (messageId: string, forEveryone: boolean) => void;
+  onTogglePin?: (message: ChatMessage) => void;
+  onToggleStar?: (message: ChatMessage) => void;
+  onForward?: (message: ChatMessage) => void;
+  onVote?: (messageId: string, optionIds: string[]) => void;
+  onClosePoll?: (messageId: string) => void;
+  getMemberName?: (userId: string) => string | undefined;
+}
+
+export default function MessageBubble({
+  message,
+  isOwn,
+  showSender,
+  currentUserId,
+  onEdit,
+  onReply,
+  onToggleReaction,
+  onDelete,
+  onTogglePin,
+  onToggleStar,
+  onForward,
+  onVote,
+  onClosePoll,
+  getMemberName,
+}: MessageBubbleProps) {
+  const [isEditing, setIsEditing] = useState(false);
+  const [isPickerOpen, setIsPickerOpen] = useState(false);
+  const [isDeleteMenuOpen, setIsDeleteMenuOpen] = useState(false);
+  const [draft, setDraft] = useState(message.content);
+
+  const isDeleted = !!message.isDeletedForEveryone;
+  const isActive = !message.pending && !isDeleted;
+  const isPoll = message.messageType === "poll" && !!message.poll;
+  const canEdit =
+    isOwn && isActive && !isPoll && message.messageType !== "audio" && !!onEdit;
+  const canReact = isActive && !!onToggleReaction;
+  const canReply = isActive && !!onReply;
+  const canDelete = !message.pending && !!onDelete;
+  const canPin = isActive && !!onTogglePin;
+  const canStar = isActive && !!onToggleStar;
+  const canForward = isActive && !isPoll && !!onForward;
+  const reactions = message.reactions ?? [];
+
+  const toggleReaction = (emoji: string) => {
+    onToggleReaction?.(message._id, emoji);
+    setIsPickerOpen(false);
+  };
+
+  const startEditing = () => {
+    setDraft(message.content);
+    setIsEditing(true);
+  };
+
+  const saveEdit = () => {
+    const content = draft.trim();
+    if (content && content !== message.content) {
+      onEdit?.(message._id, content);
+    }
+    setIsEditing(false);
+  };
+
+  const handleKeyDown = (e: KeyboardEvent<HTMLTextAreaElement>) => {
+    if (e.key === "Enter" && !e.shiftKey) {
+      e.preventDefault();
+      saveEdit();
+    } else if (e.key === "Escape") {
+      setIsEditing(false);
+    }
+  };
+
+  const reactionPicker = (
+    <Popover open={isPickerOpen} onOpenChange={setIsPickerOpen}>
+      <PopoverTrigger asChild>
+        <button
+          className="self-center mx-2 opacity-0 group-hover:opacity-100 text-gray-400 hover:text-gray-600"
+          aria-label="Add reaction"
+        >
+          <SmilePlus className="h-4 w-4" />
+        </button>
+      </PopoverTrigger>
+      <PopoverContent className="w-auto p-2 flex gap-1">
+        {QUICK_REACTIONS.map((emoji) => (
+          <button
+            key={emoji}
+            className="text-xl rounded p-1 hover:bg-gray-100"
+            onClick={() => toggleReaction(emoji)}
+          >
+            {emoji}
+          </button>
+        ))}
+      </PopoverContent>
+    </Popover>
+  );
+
+  const replyButton = (
+    <button
+      className="self-center mx-2 opacity-0 group-hover:opacity-100 text-gray-400 hover:text-gray-600"
+      onClick={() => onReply?.(message)}
+      aria-label="Reply to message"
+    >
+      <Reply className="h-4 w-4" />
+    </button>
+  );
+
+  const pinButton = (
+    <button
+      className="self-center mx-2 opacity-0 group-hover:opacity-100 text-gray-400 hover:text-gray-600"
+      onClick={() => onTogglePin?.(message)}
+      aria-label={message.pinnedAt ? "Unpin message" : "Pin message"}
+    >
+      {message.pinnedAt ? (
+        <PinOff className="h-4 w-4" />
+      ) : (
+        <Pin className="h-4 w-4" />
+      )}
+    </button>
+  );
+
+  const starButton = (
+    <button
+      className="self-center mx-2 opacity-0 group-hover:opacity-100 text-gray-400 hover:text-gray-600"
+      onClick={() => onToggleStar?.(message)}
+      aria-label={message.isStarred ? "Unstar message" : "Star message"}
+    >
+      <Star
+        className={`h-4 w-4 ${message.isStarred ? "fill-yellow-400 text-yellow-400" : ""}`}
+      />
+    </button>
+  );
+
+  const forwardButton = (
+    <button
+      className="self-center mx-2 opacity-0 group-hover:opacity-100 text-gray-400 hover:text-gray-600"
+      onClick={() => onForward?.(message)}
+      aria-label="Forward message"
+    >
+      <Forward className="h-4 w-4" />
+    </button>
+  );
+
+  const deleteMessage = (forEveryone: boolean) => {
+    onDelete?.(message._id, forEveryone);
+    setIsDeleteMenuOpen(false);
+  };
+
+  const deleteMenu = (
+    <Popover open={isDeleteMenuOpen} onOpenChange={setIsDeleteMenuOpen}>
+      <PopoverTrigger asChild>
+        <button
+          className="self-center mx-2 opacity-0 group-hover:opacity-100 text-gray-400 hover:text-gray-600"
+          aria-label="Delete message"
+        >
+          <Trash2 className="h-4 w-4" />
+        </button>
+      </PopoverTrigger>
+      <PopoverContent className="w-48 p-1 flex flex-col">
+        <button
+          className="text-left text-sm rounded px-2 py-1.5 hover:bg-gray-100"
+          onClick={() => deleteMessage(false)}
+        >
+          Delete for me
+        </button>
+        {isOwn && !isDeleted && (
+          <button
+            className="text-left text-sm rounded px-2 py-1.5 text-red-600 hover:bg-gray-100"
+            onClick={() => deleteMessage(true)}
+          >
+            Delete for everyone
+          </button>
+        )}
+      </PopoverContent>
+    </Popover>
+  );
+
+  return (
+    <div className={`group flex ${isOwn ? "justify-end" : "justify-start"}`}>
+      {canEdit && !isEditing && (
+        <button
+          className="self-center mr-2 opacity-0 group-hover:opacity-100 text-gray-400 hover:text-gray-600"
+          onClick={startEditing}
+          aria-label="Edit message"
+        >
+          <Pencil className="h-4 w-4" />
+        </button>
+      )}
+      {canDelete && isOwn && !isEditing && deleteMenu}
+      {canPin && isOwn && !isEditing && pinButton}
+      {canStar && isOwn && !isEditing && starButton}
+      {canForward && isOwn && !isEditing && forwardButton}
+      {canReply && isOwn && !isEditing && replyButton}
+      {canReact && isOwn && !isEditing && reactionPicker}
+      <div
+        className={`flex flex-col max-w-[70%] ${isOwn ? "items-end" : "items-start"}`}
+      >
+        <div
+          className={`break-words rounded-lg p-3 ${
+            isOwn ? "bg-blue-500 text-white" : "bg-gray-100 text-gray-900"
+          }`}
+        >
+          {showSender && (
+            <p className="text-xs font-medium opacity-70">
+              {message.sender.username}
+            </p>
+          )}
+          {message.forwardedFrom && (
+            <p className="flex items-center gap-1 text-xs italic opacity-70">
+              <Forward className="h-3 w-3" />
+              Forwarded from {message.forwardedFrom.sender.username}
+            </p>
+          )}
+          {message.replyTo && (
+            <div
+              className={`mb-1 border-l-4 rounded px-2 py-1 text-sm ${
+                isOwn
+                  ? "border-white/70 bg-white/20"
+                  : "border-blue-400 bg-white"
+              }`}
+            >
+              <p className="text-xs font-medium opacity-80">
+                {message.replyTo.sender?.username}
+              </p>
+              <p
+                className={`truncate opacity-80 ${
+                  message.replyTo.isDeletedForEveryone ? "italic" : ""
+                }`}
+              >
+                {message.replyTo.content}
+              </p>
+            </div>
+          )}
+          {isEditing ? (
+            <div className="space-y-1">
+              <Textarea
+                value={draft}
+                onChange={(e) => setDraft(e.target.value)}
+                onKeyDown={handleKeyDown}
+                className="min-h-[60px] text-gray-900 bg-white"
+                autoFocus
+              />
+              <p className="text-xs opacity-70">Enter to save, Esc to cancel</p>
+            </div>
+          ) : isDeleted ? (
+            <p className="italic opacity-70">{message.content}</p>
+          ) : message.messageType === "audio" &&
+            message.audio &&
+            message.attachments?.[0] ? (
+            <VoiceNotePlayer
+              src={message.attachments[0]}
+              duration={message.audio.duration}
+              waveform={message.audio.waveform}
+            />
+          ) : (message.messageType === "image" ||
+              message.messageType === "file") &&
+            message.attachments?.[0] ? (
+            <div className="flex flex-col gap-1">
+              <AttachmentPreview
+                url={message.attachments[0]}
+                file={message.file}
+                isImage={message.messageType === "image"}
+              />
+              {/* Without a caption the content is the file name */}
+              {message.content !== message.file?.name && (
+                <MessageMarkdown content={message.content} />
+              )}
+            </div>
+          ) : isPoll ? (
+            <PollCard
+              message={message}
+              isOwn={isOwn}
+              onVote={onVote}
+              onClose={onClosePoll}
+              getMemberName={getMemberName}
+            />
+          ) : (
+            <MessageMarkdown content={message.content} />
+          )}
+          <span className="flex items-center gap-1 text-xs opacity-70">
+            {new Date(message.createdAt).toLocaleTimeString()}
+            {message.isEdited && " · edited"}
+            {message.isImported && " · imported"}
+            {message.pinnedAt && (
+              <Pin className="h-3 w-3" aria-label="Pinned" />
+            )}
+            {message.isStarred && (
+              <Star className="h-3 w-3 fill-current" aria-label="Starred" />
+            )}
+            {isOwn && <StatusIcon message={message} />}
+          </span>
+        </div>
+        {reactions.length > 0 && (
+          <div className="flex flex-wrap gap-1 mt-1">
+            {reactions.map((reaction) => {
+              const reacted =
+                !!currentUserId && reaction.users.includes(currentUserId);
+              return (
+                <button
+                  key={reaction.emoji}
+                  className={`text-xs rounded-full border px-2 py-0.5 ${
+                    reacted
+                      ? "bg-blue-50 border-blue-300 text-blue-700"
+                      : "bg-white border-gray-200 text-gray-700"
+                  }`}
+                  onClick={() => toggleReaction(reaction.emoji)}
+                  disabled={!canReact}
+                >
+                  {reaction.emoji} {reaction.users.length}
+                </button>
+              );
+            })}
+          </div>
+        )}
+      </div>
+      {canReact && !isOwn && reactionPicker}
+      {canReply && !isOwn && replyButton}
+      {canPin && !isOwn && pinButton}
+      {canStar && !isOwn && starButton}
+      {canForward && !isOwn && forwardButton}
+      {canDelete && !isOwn && deleteMenu}
+    </div>
+  );
+}
@@ -0,0 +1,74 @@
+"use client";
+
+import ReactMarkdown, { Components } from "react-markdown";
+import remarkGfm from "remark-gfm";
+import rehypeHighlight from "rehype-highlight";
+import "highlight.js/styles/github.css";
+
+// The markdown subset messages support, other elements are reduced to their
+// text; spans carry the syntax highlighting
+const ALLOWED_ELEMENTS = [
+  "p",
+  "br",
+  "strong",
+  "em",
+  "del",
+  "code",
+  "pre",
+  "a",
+  "ul",
+  "ol",
+  "li",
+  "span",
+];
+
+const components: Components = {
+  p: ({ children }) => (
+    <p className="whitespace-pre-wrap break-words">{children}</p>
+  ),
+  a: ({ href, children }) => (
+    <a
+      href={href}
+      target="_blank"
+      rel="noopener noreferrer nofollow"
+      className="underline break-all"
+    >
+      {children}
+    </a>
+  ),
+  ul: ({ children }) => <ul className="list-disc pl-5">{children}</ul>,
+  ol: ({ children }) => <ol className="list-decimal pl-5">{children}</ol>,
+  pre: ({ children }) => (
+    <pre className="my-1 overflow-x-auto rounded bg-white text-xs text-gray-900">
+      {children}
+    </pre>
+  ),
+  code: ({ className, children }) => (
+    <code
+      className={className ?? "rounded bg-black/10 px-1 font-mono text-[0.9em]"}
+    >
+      {children}
+    </code>
+  ),
+};
+
+interface MessageMarkdownProps {
+  content: string;
+}
+
+export default function MessageMarkdown({ content }: MessageMarkdownProps) {
+  return (
+    <div className="space-y-1">
+      <ReactMarkdown
+        remarkPlugins={[remarkGfm]}
+        rehypePlugins={[rehypeHighlight]}
+        components={components}
+        allowedElements={ALLOWED_ELEMENTS}
+        unwrapDisallowed
+        skipHtml
+      >
+        {content}
+      </ReactMarkdown>
+    </div>
+  );
+}
@@ -1,43 +1,139 @@
 "use client";
 
-import { useState, KeyboardEvent } from "react";
+import { useEffect, useState, KeyboardEvent } from "react";
 import { Button } from "@/components/ui/button";
 import { Textarea } from "@/components/ui/textarea";
-import { Bold, Italic, Smile, Send } from "lucide-react";
+import {
+  BarChart3,
+  Bold,
+  Clock,
+  Code,
+  Eye,
+  EyeOff,
+  Italic,
+  Smile,
+  Send,
+  Strikethrough,
+  X,
+} from "lucide-react";
 import {
   Popover,
   PopoverContent,
   PopoverTrigger,
 } from "@/components/ui/popover";
+import { ChatMessage } from "@/types/Chat";
+import MessageMarkdown from "./MessageMarkdown";
+import VoiceRecorder from "./VoiceRecorder";
+import AttachmentButton from "./AttachmentButton";
+import {
+  getLocalTimeZone,
+  getTimeZones,
+  toLocalInputValue,
+} from "@/lib/datetime";
+
+// Markdown markers the toolbar wraps the selection in
+const FORMAT_MARKERS = {
+  bold: "**",
+  italic: "_",
+  strikethrough: "~~",
+  code: "`",
+};
 
 interface MessageInputProps {
   onSendMessage: (content: string) => void;
   disabled?: boolean;
+  replyingTo?: ChatMessage | null;
+  onCancelReply?: () => void;
+  onScheduleMessage?: (
+    content: string,
+    localTime: string,
+    timeZone: string
+  ) => void;
+  // Text to put in the composer, e.g. a restored draft; a new object
+  // replaces the text even when the content is the same
+  draft?: { content: string } | null;
+  onDraftChange?: (content: string) => void;
+  onCreatePoll?: () => void;
+  onSendVoiceNote?: (recording: Blob) => Promise<void>;
+  onSendAttachment?: (file: File, caption?: string) => Promise<void>;
 }
 
 export default function MessageInput({
   onSendMessage,
   disabled,
+  replyingTo,
+  onCancelReply,
+  onScheduleMessage,
+  draft,
+  onDraftChange,
+  onCreatePoll,
+  onSendVoiceNote,
+  onSendAttachment,
 }: MessageInputProps) {
   const [message, setMessage] = useState("");
   const [isComposing, setIsComposing] = useState(false);
+  const [isScheduleOpen, setIsScheduleOpen] = useState(false);
+  const [scheduleTime, setScheduleTime] = useState("");
+  const [timeZone, setTimeZone] = useState(getLocalTimeZone);
+  const [isPreview, setIsPreview] = useState(false);
+
+  useEffect(() => {
+    if (draft) {
+      setMessage(draft.content);
+    }
+  }, [draft]);
+
+  // Edits made by the user, as opposed to restored drafts
+  const updateMessage = (value: string) => {
+    setMessage(value);
+    onDraftChange?.(value);
+  };
+
+  const openSchedule = (open: boolean) => {
+    // Suggest an hour from now
+    if (open && !scheduleTime) {
+      setScheduleTime(toLocalInputValue(new Date(Date.now() + 60 * 60 * 1000)));
+    }
+    setIsScheduleOpen(open);
+  };
+
+  const handleSchedule = () => {
+    const trimmedMessage = message.trim();
+    if (trimmedMessage && scheduleTime && !disabled) {
+      onScheduleMessage?.(trimmedMessage, scheduleTime, timeZone);
+      // The text now lives in the scheduled message, drop the draft
+      updateMessage("");
+      setScheduleTime("");
+      setIsScheduleOpen(false);
+    }
+  };
 
   const handleSend = () => {
     const trimmedMessage = message.trim();
     if (trimmedMessage && !disabled) {
       onSendMessage(trimmedMessage);
       setMessage("");
+      setIsPreview(false);
     }
   };
 
+  // The typed text goes along as the file's caption
+  const handleAttach = async (file: File) => {
+    await onSendAttachment?.(file, message.trim() || undefined);
+    setMessage("");
+    setIsPreview(false);
+  };
+
   const handleKeyPress = (e: KeyboardEvent<HTMLTextAreaElement>) => {
     if (e.key === "Enter" && !e.shiftKey && !isComposing) {
       e.preventDefault();
       handleSend();
+    } else if (e.key === "Escape" && replyingTo) {
+      onCancelReply?.();
     }
   };
 
-  const handleFormat = (format: "bold" | "italic") => {
+  const handleFormat = (format: keyof typeof FORMAT_MARKERS) => {
     const textarea = document.getElementById(
       "message-input"
     ) as HTMLTextAreaElement;
@@ -47,21 +143,40 @@ export default function MessageInput({
     const beforeText = message.substring(0, start);
     const afterText = message.substring(end);
 
-    const formatChar = format === "bold" ? "**" : "_";
+    const formatChar = FORMAT_MARKERS[format];
     const formattedText = `${beforeText}${formatChar}${selectedText}${formatChar}${afterText}`;
 
-    setMessage(formattedText);
+    updateMessage(formattedText);
     textarea.focus();
   };
 
   return (
     <div className="p-4 border-t bg-white">
+      {replyingTo && (
+        <div className="flex items-start gap-2 mb-2 border-l-4 border-blue-400 bg-gray-50 rounded px-3 py-2">
+          <div className="flex-1 min-w-0">
+            <p className="text-xs font-medium text-blue-600">
+              Replying to {replyingTo.sender.username}
+            </p>
+            <p className="text-sm text-gray-600 truncate">
+              {replyingTo.content}
+            </p>
+          </div>
+          <button
+            className="text-gray-400 hover:text-gray-600"
+            onClick={onCancelReply}
+            aria-label="Cancel reply"
+          >
+            <X className="h-4 w-4" />
+          </button>
+        </div>
+      )}
       <div className="flex items-center mb-2">
         <Button
           variant="ghost"
           size="icon"
           onClick={() => handleFormat("bold")}
-          disabled={disabled}
+          disabled={disabled || isPreview}
         >
           <Bold className="h-4 w-4" />
         </Button>
@@ -69,10 +184,39 @@ export default function MessageInput({
           variant="ghost"
           size="icon"
           onClick={() => handleFormat("italic")}
-          disabled={disabled}
+          disabled={disabled || isPreview}
         >
           <Italic className="h-4 w-4" />
         </Button>
+        <Button
+          variant="ghost"
+          size="icon"
+          onClick={() => handleFormat("strikethrough")}
+          disabled={disabled || isPreview}
+        >
+          <Strikethrough className="h-4 w-4" />
+        </Button>
+        <Button
+          variant="ghost"
+          size="icon"
+          onClick={() => handleFormat("code")}
+          disabled={disabled || isPreview}
+        >
+          <Code className="h-4 w-4" />
+        </Button>
+        <Button
+          variant="ghost"
+          size="icon"
+          onClick={() => setIsPreview((preview) => !preview)}
+          disabled={disabled}
+          aria-label={isPreview ? "Edit message" : "Preview message"}
+        >
+          {isPreview ? (
+            <EyeOff className="h-4 w-4" />
+          ) : (
+            <Eye className="h-4 w-4" />
+          )}
+        </Button>
         <Popover>
           <PopoverTrigger asChild>
             <Button variant="ghost" size="icon" disabled={disabled}>
@@ -85,7 +229,7 @@ export default function MessageInput({
                 <button
                   key={emoji}
                   className="text-2xl hover:bg-gray-100 rounded p-1"
-                  onClick={() => setMessage((prev) => prev + emoji)}
+                  onClick={() => updateMessage(message + emoji)}
                   disabled={disabled}
                 >
                   {emoji}
@@ -94,23 +238,95 @@ export default function MessageInput({
             </div>
           </PopoverContent>
         </Popover>
+        {onCreatePoll && (
+          <Button
+            variant="ghost"
+            size="icon"
+            onClick={onCreatePoll}
+            disabled={disabled}
+            aria-label="Create poll"
+          >
+            <BarChart3 className="h-4 w-4" />
+          </Button>
+        )}
+        {onScheduleMessage && (
+          <Popover open={isScheduleOpen} onOpenChange={openSchedule}>
+            <PopoverTrigger asChild>
+              <Button
+                variant="ghost"
+                size="icon"
+                disabled={disabled}
+                aria-label="Schedule message"
+              >
+                <Clock className="h-4 w-4" />
+              </Button>
+            </PopoverTrigger>
+            <PopoverContent className="w-64 flex flex-col gap-2">
+              <label className="text-sm font-medium" htmlFor="schedule-time">
+                Send at
+              </label>
+              <input
+                id="schedule-time"
+                type="datetime-local"
+                className="rounded border px-2 py-1 text-sm"
+                value={scheduleTime}
+                onChange={(e) => setScheduleTime(e.target.value)}
+              />
+              <select
+                aria-label="Timezone"
+                className="rounded border px-2 py-1 text-sm"
+                value={timeZone}
+                onChange={(e) => setTimeZone(e.target.value)}
+              >
+                {getTimeZones().map((zone) => (
+                  <option key={zone} value={zone}>
+                    {zone.replace(/_/g, " ")}
+                  </option>
+                ))}
+              </select>
+              <Button
+                size="sm"
+                onClick={handleSchedule}
+                disabled={!message.trim() || !scheduleTime || disabled}
+              >
+                Schedule
+              </Button>
+            </PopoverContent>
+          </Popover>
+        )}
       </div>
       <div className="flex items-center gap-2">
-        <Textarea
-          id="message-input"
-          placeholder={
-            disabled
-              ? "Select a user to start chatting"
-              : "Type your message..."
-          }
-          value={message}
-          onChange={(e) => setMessage(e.target.value)}
-          onKeyDown={handleKeyPress}
-          onCompositionStart={() => setIsComposing(true)}
-          onCompositionEnd={() => setIsComposing(false)}
-          className="flex-1 min-h-[80px] max-h-[160px]"
-          disabled={disabled}
-        />
+        {isPreview ? (
+          <div className="flex-1 min-h-[80px] max-h-[160px] overflow-y-auto rounded-md border px-3 py-2 text-sm">
+            {message.trim() ? (
+              <MessageMarkdown content={message} />
+            ) : (
+              <p className="text-gray-400">Nothing to preview</p>
+            )}
+          </div>
+        ) : (
+          <Textarea
+            id="message-input"
+            placeholder={
+              disabled
+                ? "Select a user to start chatting"
+                : "Type your message..."
+            }
+            value={message}
+            onChange={(e) => updateMessage(e.target.value)}
+            onKeyDown={handleKeyPress}
+            onCompositionStart={() => setIsComposing(true)}
+            onCompositionEnd={() => setIsComposing(false)}
+            className="flex-1 min-h-[80px] max-h-[160px]"
+            disabled={disabled}
+          />
+        )}
+        {onSendAttachment && (
+          <AttachmentButton disabled={disabled} onSelected={handleAttach} />
+        )}
+        {onSendVoiceNote && (
+          <VoiceRecorder disabled={disabled} onRecorded={onSendVoiceNote} />
+        )}
         <Button
           onClick={handleSend}
           disabled={!message.trim() || disabled}
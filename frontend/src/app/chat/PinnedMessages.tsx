@@ -0,0 +1,65 @@
+"use client";
+
+import { useState } from "react";
+import { ChevronDown, ChevronUp, Pin, PinOff } from "lucide-react";
+import { ChatMessage } from "@/types/Chat";
+
+interface PinnedMessagesProps {
+  messages: ChatMessage[];
+  onUnpin: (messageId: string) => void;
+}
+
+export default function PinnedMessages({
+  messages,
+  onUnpin,
+}: PinnedMessagesProps) {
+  const [isExpanded, setIsExpanded] = useState(false);
+
+  if (messages.length === 0) return null;
+
+  // Collapsed, the most recently pinned message is shown
+  const visible = isExpanded ? messages : messages.slice(-1);
+
+  return (
+    <div className="border-b bg-gray-50 px-4 py-2 text-sm">
+      <div className="flex items-center justify-between">
+        <span className="flex items-center gap-1 text-xs font-medium text-gray-500">
+          <Pin className="h-3 w-3" />
+          {messages.length} pinned
+        </span>
+        {messages.length > 1 && (
+          <button
+            className="text-gray-400 hover:text-gray-600"
+            onClick={() => setIsExpanded((expanded) => !expanded)}
+            aria-label={
+              isExpanded
+                ? "Collapse pinned messages"
+                : "Show all pinned messages"
+            }
+          >
+            {isExpanded ? (
+              <ChevronUp className="h-4 w-4" />
+            ) : (
+              <ChevronDown className="h-4 w-4" />
+            )}
+          </button>
+        )}
+      </div>
+      {visible.map((message) => (
+        <div key={message._id} className="group flex items-center gap-2 py-1">
+          <p className="flex-1 min-w-0 truncate">
+            <span className="font-medium">{message.sender.username}: </span>
+            {message.content}
+          </p>
+          <button
+            className="opacity-0 group-hover:opacity-100 text-gray-400 hover:text-gray-600"
+            onClick={() => onUnpin(message._id)}
+            aria-label="Unpin message"
+          >
+            <PinOff className="h-4 w-4" />
+          </button>
+        </div>
+      ))}
+    </div>
+  );
+}
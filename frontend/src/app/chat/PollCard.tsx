@@ -0,0 +1,124 @@
+"use client";
+
+import { useState } from "react";
+import { BarChart3, Check, Lock } from "lucide-react";
+import { ChatMessage } from "@/types/Chat";
+
+interface PollCardProps {
+  message: ChatMessage;
+  isOwn: boolean;
+  onVote?: (messageId: string, optionIds: string[]) => void;
+  onClose?: (messageId: string) => void;
+  getMemberName?: (userId: string) => string | undefined;
+}
+
+export default function PollCard({
+  message,
+  isOwn,
+  onVote,
+  onClose,
+  getMemberName,
+}: PollCardProps) {
+  const poll = message.poll!;
+  const myVotes = message.myVotes ?? [];
+  // Picks of a multiple choice poll are submitted together
+  const [selected, setSelected] = useState<string[] | null>(null);
+
+  const isClosed =
+    !!poll.closedAt ||
+    (!!poll.closesAt && new Date(poll.closesAt).getTime() <= Date.now());
+  const canVote = !isClosed && !message.pending && !!onVote;
+  const picks = selected ?? myVotes;
+
+  const pick = (optionId: string) => {
+    if (!canVote) return;
+
+    if (!poll.multipleChoice) {
+      // Picking the current answer again withdraws the vote
+      onVote?.(message._id, myVotes.includes(optionId) ? [] : [optionId]);
+      return;
+    }
+
+    setSelected(
+      picks.includes(optionId)
+        ? picks.filter((id) => id !== optionId)
+        : [...picks, optionId]
+    );
+  };
+
+  const submit = () => {
+    if (selected) {
+      onVote?.(message._id, selected);
+      setSelected(null);
+    }
+  };
+
+  const total = poll.options.reduce((sum, o) => sum + o.voteCount, 0);
+
+  return (
+    <div className="min-w-[220px] space-y-2">
+      <p className="flex items-center gap-1 font-medium">
+        <BarChart3 className="h-4 w-4 shrink-0" />
+        {poll.question}
+      </p>
+      <p className="text-xs opacity-70">
+        {poll.multipleChoice ? "Select one or more" : "Select one"}
+        {poll.anonymous && " · Anonymous"}
+      </p>
+      {poll.options.map((option) => {
+        const share = total ? Math.round((option.voteCount / total) * 100) : 0;
+        const isPicked = picks.includes(option._id);
+        return (
+          <button
+            key={option._id}
+            className="relative block w-full overflow-hidden rounded border border-black/10 px-2 py-1 text-left text-sm disabled:cursor-default"
+            onClick={() => pick(option._id)}
+            disabled={!canVote}
+            title={
+              poll.anonymous
+                ? undefined
+                : option.voters
+                    .map((id) => getMemberName?.(id) ?? "Former member")
+                    .join(", ")
+            }
+          >
+            <span
+              className="absolute inset-y-0 left-0 bg-current opacity-10"
+              style={{ width: `${share}%` }}
+            />
+            <span className="relative flex items-center justify-between gap-2">
+              <span className="flex items-center gap-1">
+                {isPicked && <Check className="h-3 w-3" aria-label="Picked" />}
+                {option.text}
+              </span>
+              <span className="text-xs opacity-70">{option.voteCount}</span>
+            </span>
+          </button>
+        );
+      })}
+      <div className="flex items-center justify-between text-xs opacity-70">
+        <span>
+          {poll.voterCount} {poll.voterCount === 1 ? "vote" : "votes"}
+          {isClosed
+            ? " · Closed"
+            : poll.closesAt &&
+              ` · Closes ${new Date(poll.closesAt).toLocaleString()}`}
+        </span>
+        {selected && (
+          <button className="underline" onClick={submit}>
+            Vote
+          </button>
+        )}
+        {isOwn && !isClosed && !selected && onClose && (
+          <button
+            className="flex items-center gap-1 underline"
+            onClick={() => onClose(message._id)}
+          >
+            <Lock className="h-3 w-3" />
+            Close poll
+          </button>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,134 @@
+"use client";
+
+import { useState } from "react";
+import { Plus, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { NewPoll } from "@/types/Chat";
+
+const MAX_OPTIONS = 12;
+
+interface PollDialogProps {
+  onClose: () => void;
+  onCreate: (poll: NewPoll) => Promise<void>;
+}
+
+export default function PollDialog({ onClose, onCreate }: PollDialogProps) {
+  const [question, setQuestion] = useState("");
+  const [options, setOptions] = useState(["", ""]);
+  const [multipleChoice, setMultipleChoice] = useState(false);
+  const [anonymous, setAnonymous] = useState(false);
+  const [closesAt, setClosesAt] = useState("");
+  const [isSending, setIsSending] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const answers = options.map((option) => option.trim()).filter(Boolean);
+  const canCreate = !!question.trim() && answers.length >= 2 && !isSending;
+
+  const updateOption = (index: number, value: string) => {
+    setOptions((prev) => prev.map((o, i) => (i === index ? value : o)));
+  };
+
+  const create = async () => {
+    setIsSending(true);
+    try {
+      await onCreate({
+        question: question.trim(),
+        options: answers,
+        multipleChoice,
+        anonymous,
+        closesAt: closesAt ? new Date(closesAt).toISOString() : undefined,
+      });
+      onClose();
+    } catch (err) {
+      console.error("Error creating poll:", err);
+      setError("Failed to create poll");
+    } finally {
+      setIsSending(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/30">
+      <div className="w-80 rounded-lg bg-white p-4 shadow-lg">
+        <div className="mb-2 flex items-center justify-between">
+          <h3 className="font-medium">New poll</h3>
+          <button
+            className="text-gray-400 hover:text-gray-600"
+            onClick={onClose}
+            aria-label="Close"
+          >
+            <X className="h-4 w-4" />
+          </button>
+        </div>
+        {error && <p className="mb-2 text-sm text-red-500">{error}</p>}
+        <div className="space-y-2 text-sm">
+          <Input
+            placeholder="Question"
+            value={question}
+            onChange={(e) => setQuestion(e.target.value)}
+            maxLength={300}
+          />
+          {options.map((option, index) => (
+            <div key={index} className="flex items-center gap-1">
+              <Input
+                placeholder={`Option ${index + 1}`}
+                value={option}
+                onChange={(e) => updateOption(index, e.target.value)}
+                maxLength={100}
+              />
+              {options.length > 2 && (
+                <button
+                  className="text-gray-400 hover:text-gray-600"
+                  onClick={() =>
+                    setOptions((prev) => prev.filter((_, i) => i !== index))
+                  }
+                  aria-label="Remove option"
+                >
+                  <X className="h-4 w-4" />
+                </button>
+              )}
+            </div>
+          ))}
+          {options.length < MAX_OPTIONS && (
+            <button
+              className="flex items-center gap-1 text-gray-500 hover:text-gray-700"
+              onClick={() => setOptions((prev) => [...prev, ""])}
+            >
+              <Plus className="h-4 w-4" />
+              Add option
+            </button>
+          )}
+          <label className="flex items-center gap-2">
+            <input
+              type="checkbox"
+              checked={multipleChoice}
+              onChange={(e) => setMultipleChoice(e.target.checked)}
+            />
+            Allow multiple answers
+          </label>
+          <label className="flex items-center gap-2">
+            <input
+              type="checkbox"
+              checked={anonymous}
+              onChange={(e) => setAnonymous(e.target.checked)}
+            />
+            Anonymous voting
+          </label>
+          <label className="block text-xs text-gray-500">
+            Closes at (optional)
+            <input
+              type="datetime-local"
+              className="mt-1 w-full rounded border px-2 py-1 text-sm text-gray-900"
+              value={closesAt}
+              onChange={(e) => setClosesAt(e.target.value)}
+            />
+          </label>
+        </div>
+        <Button className="mt-3 w-full" onClick={create} disabled={!canCreate}>
+          {isSending ? "Creating..." : "Create poll"}
+        </Button>
+      </div>
+    </div>
+  );
+}
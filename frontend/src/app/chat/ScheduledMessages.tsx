@@ -0,0 +1,117 @@
+"use client";
+
+import { useState } from "react";
+import { Check, ChevronDown, ChevronUp, Clock, Pencil, X } from "lucide-react";
+import { ScheduledMessage } from "@/types/Chat";
+import { toZonedInputValue } from "@/lib/datetime";
+
+interface ScheduledMessagesProps {
+  messages: ScheduledMessage[];
+  onUpdate: (jobId: string, content: string, localTime: string) => void;
+  onCancel: (jobId: string) => void;
+}
+
+export default function ScheduledMessages({
+  messages,
+  onUpdate,
+  onCancel,
+}: ScheduledMessagesProps) {
+  const [isExpanded, setIsExpanded] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draft, setDraft] = useState("");
+  const [draftTime, setDraftTime] = useState("");
+
+  if (messages.length === 0) return null;
+
+  const startEditing = (message: ScheduledMessage) => {
+    setEditingId(message._id);
+    setDraft(message.content);
+    setDraftTime(toZonedInputValue(new Date(message.sendAt), message.timeZone));
+  };
+
+  const saveEdit = () => {
+    if (editingId && draft.trim() && draftTime) {
+      onUpdate(editingId, draft.trim(), draftTime);
+    }
+    setEditingId(null);
+  };
+
+  // Collapsed, only the next message to be sent is shown
+  const visible = isExpanded ? messages : messages.slice(0, 1);
+
+  return (
+    <div className="border-b bg-gray-50 px-4 py-2 text-sm">
+      <div className="flex items-center justify-between">
+        <span className="flex items-center gap-1 text-xs font-medium text-gray-500">
+          <Clock className="h-3 w-3" />
+          {messages.length} scheduled
+        </span>
+        {messages.length > 1 && (
+          <button
+            className="text-gray-400 hover:text-gray-600"
+            onClick={() => setIsExpanded((expanded) => !expanded)}
+            aria-label={
+              isExpanded
+                ? "Collapse scheduled messages"
+                : "Show all scheduled messages"
+            }
+          >
+            {isExpanded ? (
+              <ChevronUp className="h-4 w-4" />
+            ) : (
+              <ChevronDown className="h-4 w-4" />
+            )}
+          </button>
+        )}
+      </div>
+      {visible.map((message) =>
+        editingId === message._id ? (
+          <div key={message._id} className="flex items-center gap-2 py-1">
+            <input
+              className="flex-1 min-w-0 rounded border px-2 py-1"
+              value={draft}
+              onChange={(e) => setDraft(e.target.value)}
+            />
+            <input
+              type="datetime-local"
+              className="rounded border px-2 py-1"
+              value={draftTime}
+              onChange={(e) => setDraftTime(e.target.value)}
+            />
+            <button
+              className="text-gray-400 hover:text-gray-600"
+              onClick={saveEdit}
+              aria-label="Save scheduled message"
+            >
+              <Check className="h-4 w-4" />
+            </button>
+          </div>
+        ) : (
+          <div key={message._id} className="group flex items-center gap-2 py-1">
+            <span
+              className="text-xs text-gray-500"
+              title={`${toZonedInputValue(new Date(message.sendAt), message.timeZone).replace("T", " ")} ${message.timeZone}`}
+            >
+              {new Date(message.sendAt).toLocaleString()}
+            </span>
+            <p className="flex-1 min-w-0 truncate">{message.content}</p>
+            <button
+              className="opacity-0 group-hover:opacity-100 text-gray-400 hover:text-gray-600"
+              onClick={() => startEditing(message)}
+              aria-label="Edit scheduled message"
+            >
+              <Pencil className="h-4 w-4" />
+            </button>
+            <button
+              className="opacity-0 group-hover:opacity-100 text-gray-400 hover:text-gray-600"
+              onClick={() => onCancel(message._id)}
+              aria-label="Cancel scheduled message"
+            >
+              <X className="h-4 w-4" />
+            </button>
+          </div>
+        )
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,90 @@
+"use client";
+
+import { useRef, useState, MouseEvent } from "react";
+import { Pause, Play } from "lucide-react";
+import { formatDuration } from "@/lib/wav";
+
+interface VoiceNotePlayerProps {
+  src: string;
+  duration: number;
+  waveform: number[];
+}
+
+export default function VoiceNotePlayer({
+  src,
+  duration,
+  waveform,
+}: VoiceNotePlayerProps) {
+  const audioRef = useRef<HTMLAudioElement>(null);
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [position, setPosition] = useState(0);
+
+  const progress = duration ? position / duration : 0;
+
+  const toggle = () => {
+    const audio = audioRef.current;
+    if (!audio) return;
+
+    if (audio.paused) {
+      audio.play().catch((err) => console.error("Error playing audio:", err));
+    } else {
+      audio.pause();
+    }
+  };
+
+  // Clicking the waveform jumps to that point of the recording
+  const seek = (e: MouseEvent<HTMLDivElement>) => {
+    const audio = audioRef.current;
+    if (!audio) return;
+
+    const bounds = e.currentTarget.getBoundingClientRect();
+    audio.currentTime = ((e.clientX - bounds.left) / bounds.width) * duration;
+    setPosition(audio.currentTime);
+  };
+
+  return (
+    <div className="flex min-w-[220px] items-center gap-2">
+      <audio
+        ref={audioRef}
+        src={src}
+        preload="none"
+        onPlay={() => setIsPlaying(true)}
+        onPause={() => setIsPlaying(false)}
+        onEnded={() => {
+          setIsPlaying(false);
+          setPosition(0);
+        }}
+        onTimeUpdate={(e) => setPosition(e.currentTarget.currentTime)}
+      />
+      <button
+        className="shrink-0 rounded-full p-1 hover:bg-black/10"
+        onClick={toggle}
+        aria-label={isPlaying ? "Pause voice message" : "Play voice message"}
+      >
+        {isPlaying ? (
+          <Pause className="h-4 w-4" />
+        ) : (
+          <Play className="h-4 w-4" />
+        )}
+      </button>
+      <div
+        className="flex h-8 flex-1 cursor-pointer items-center gap-px"
+        onClick={seek}
+        role="presentation"
+      >
+        {waveform.map((level, i) => (
+          <span
+            key={i}
+            className={`flex-1 rounded-full bg-current ${
+              i / waveform.length < progress ? "opacity-100" : "opacity-40"
+            }`}
+            style={{ height: `${Math.max(10, level)}%` }}
+          />
+        ))}
+      </div>
+      <span className="shrink-0 text-xs opacity-70">
+        {formatDuration(isPlaying || position ? position : duration)}
+      </span>
+    </div>
+  );
+}
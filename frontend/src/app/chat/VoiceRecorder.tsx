@@ -0,0 +1,128 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import { Mic, Send, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { formatDuration, toWav } from "@/lib/wav";
+
+// Recording stops on its own at the server's limit
+const MAX_SECONDS = 120;
+
+interface VoiceRecorderProps {
+  disabled?: boolean;
+  onRecorded: (recording: Blob) => Promise<void>;
+}
+
+export default function VoiceRecorder({
+  disabled,
+  onRecorded,
+}: VoiceRecorderProps) {
+  const [isRecording, setIsRecording] = useState(false);
+  const [isSending, setIsSending] = useState(false);
+  const [elapsed, setElapsed] = useState(0);
+  const [error, setError] = useState<string | null>(null);
+  const recorderRef = useRef<MediaRecorder | null>(null);
+  const discardRef = useRef(false);
+
+  // Release the microphone when the composer goes away mid-recording
+  useEffect(() => {
+    return () => {
+      discardRef.current = true;
+      recorderRef.current?.stop();
+    };
+  }, []);
+
+  useEffect(() => {
+    if (!isRecording) return;
+
+    const startedAt = Date.now();
+    const timer = setInterval(() => {
+      const seconds = (Date.now() - startedAt) / 1000;
+      setElapsed(seconds);
+      if (seconds >= MAX_SECONDS) {
+        recorderRef.current?.stop();
+      }
+    }, 250);
+    return () => clearInterval(timer);
+  }, [isRecording]);
+
+  const start = async () => {
+    setError(null);
+    try {
+      const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
+      const recorder = new MediaRecorder(stream);
+      const chunks: Blob[] = [];
+
+      recorder.ondataavailable = (e) => chunks.push(e.data);
+      recorder.onstop = async () => {
+        stream.getTracks().forEach((track) => track.stop());
+        recorderRef.current = null;
+        setIsRecording(false);
+        if (discardRef.current) return;
+
+        setIsSending(true);
+        try {
+          await onRecorded(
+            await toWav(new Blob(chunks, { type: recorder.mimeType }))
+          );
+        } catch (err) {
+          console.error("Error sending voice note:", err);
+          setError("Failed to send voice message");
+        } finally {
+          setIsSending(false);
+        }
+      };
+
+      discardRef.current = false;
+      recorderRef.current = recorder;
+      recorder.start();
+      setElapsed(0);
+      setIsRecording(true);
+    } catch (err) {
+      console.error("Error starting recording:", err);
+      setError("Microphone not available");
+    }
+  };
+
+  const stop = (discard: boolean) => {
+    discardRef.current = discard;
+    recorderRef.current?.stop();
+  };
+
+  if (isRecording) {
+    return (
+      <div className="flex items-center gap-2 text-sm">
+        <span className="h-2 w-2 animate-pulse rounded-full bg-red-500" />
+        <span className="w-10 tabular-nums">{formatDuration(elapsed)}</span>
+        <Button
+          variant="ghost"
+          size="icon"
+          onClick={() => stop(true)}
+          aria-label="Discard recording"
+        >
+          <X className="h-4 w-4" />
+        </Button>
+        <Button
+          size="icon"
+          onClick={() => stop(false)}
+          aria-label="Send voice message"
+        >
+          <Send className="h-4 w-4" />
+        </Button>
+      </div>
+    );
+  }
+
+  return (
+    <Button
+      variant="ghost"
+      size="icon"
+      onClick={start}
+      disabled={disabled || isSending}
+      aria-label="Record voice message"
+      title={error ?? undefined}
+    >
+      <Mic className={`h-4 w-4 ${error ? "text-red-500" : ""}`} />
+    </Button>
+  );
+}
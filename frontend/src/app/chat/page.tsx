@@ -1,9 +1,10 @@
 "use client";
-import { useState, useEffect } from "react";
+import { useState, useEffect, useCallback } from "react";
 import { useRouter } from "next/navigation";
 import Sidebar from "./sidebar";
 import ChatArea from "./Chatarea";
 import UserProfileHeader from "./UserProfileHeader";
+import { Conversation } from "@/types/Chat";
 
 interface User {
   _id: string;
@@ -14,8 +15,10 @@ interface User {
 }
 
 export default function Chat() {
-  const [selectedUser, setSelectedUser] = useState<User | null>(null);
+  const [selectedConversation, setSelectedConversation] =
+    useState<Conversation | null>(null);
   const [currentUser, setCurrentUser] = useState<User | null>(null);
+  const [inboxVersion, setInboxVersion] = useState(0);
   const router = useRouter();
 
   useEffect(() => {
@@ -36,10 +39,15 @@ export default function Chat() {
     }
   }, [router]);
 
-  const handleSelectUser = (user: User) => {
-    setSelectedUser(user);
+  const handleSelectConversation = (conversation: Conversation) => {
+    setSelectedConversation(conversation);
   };
 
+  // Refresh the inbox previews and unread counts after chat activity
+  const handleConversationActivity = useCallback(() => {
+    setInboxVersion((version) => version + 1);
+  }, []);
+
   if (!currentUser) {
     return <div>Loading...</div>;
   }
@@ -48,9 +56,18 @@ export default function Chat() {
     <div className="flex h-screen bg-gray-100">
       <div className="flex flex-col w-80">
         <UserProfileHeader currentUser={currentUser} />
-        <Sidebar onSelectUser={handleSelectUser} currentUser={currentUser} />
+        <Sidebar
+          onSelectConversation={handleSelectConversation}
+          currentUser={currentUser}
+          selectedConversationId={selectedConversation?._id}
+          refreshKey={inboxVersion}
+        />
       </div>
-      <ChatArea selectedUser={selectedUser} currentUser={currentUser} />
+      <ChatArea
+        conversation={selectedConversation}
+        currentUser={currentUser}
+        onActivity={handleConversationActivity}
+      />
     </div>
   );
 }
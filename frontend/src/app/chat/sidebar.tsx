@@ -5,56 +5,151 @@ import { ScrollArea } from "@/components/ui/scroll-area";
 import { Input } from "@/components/ui/input";
 import { Search } from "lucide-react";
 import { api } from "@/service/api";
+import { ChatUser, Conversation, SearchResult } from "@/types/Chat";
+import {
+  getConversationAvatar,
+  getConversationName,
+  getOtherMember,
+} from "@/lib/conversation";
 
-interface User {
-  _id: string;
-  username: string;
-  avatar?: string;
-  isOnline: boolean;
-  lastSeen?: string;
+/**
+ * Render a search snippet with its matching ranges emphasised
+ */
+function HighlightedSnippet({ snippet }: { snippet: SearchResult["snippet"] }) {
+  const parts: React.ReactNode[] = [];
+  let position = 0;
+
+  snippet.highlights.forEach(({ start, end }) => {
+    parts.push(snippet.text.slice(position, start));
+    parts.push(
+      <mark key={start} className="bg-yellow-200 rounded-sm">
+        {snippet.text.slice(start, end)}
+      </mark>
+    );
+    position = end;
+  });
+  parts.push(snippet.text.slice(position));
+
+  return <>{parts}</>;
 }
 
 interface SidebarProps {
-  onSelectUser: (user: User) => void;
-  currentUser: User | null;
+  onSelectConversation: (conversation: Conversation) => void;
+  currentUser: ChatUser | null;
+  selectedConversationId?: string;
+  refreshKey?: number;
 }
 
-export default function Sidebar({ onSelectUser, currentUser }: SidebarProps) {
-  const [users, setUsers] = useState<User[]>([]);
+export default function Sidebar({
+  onSelectConversation,
+  currentUser,
+  selectedConversationId,
+  refreshKey,
+}: SidebarProps) {
+  const [conversations, setConversations] = useState<Conversation[]>([]);
+  const [users, setUsers] = useState<ChatUser[]>([]);
   const [error, setError] = useState<string | null>(null);
   const [loading, setLoading] = useState(true);
   const [searchQuery, setSearchQuery] = useState("");
+  const [messageResults, setMessageResults] = useState<SearchResult[]>([]);
 
+  useEffect(() => {
+    const fetchConversations = async () => {
+      try {
+        const response = await api.getConversations();
+        if (response.success) {
+          setConversations(response.data);
+        } else {
+          setError("Failed to fetch conversations");
+        }
+      } catch (err) {
+        console.error("Error fetching conversations:", err);
+        setError("Failed to load conversations");
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchConversations();
+  }, [currentUser?._id, refreshKey]);
+
+  // Users are only needed to start new chats from the search box
   useEffect(() => {
     const fetchUsers = async () => {
       try {
         const response = await api.getAllUsers();
         if (response.success) {
-          // Filter out current user from the list
-          const filteredUsers = response.data.filter(
-            (user: User) => user._id !== currentUser?._id
+          setUsers(
+            response.data.filter((user: ChatUser) => user._id !== currentUser?._id)
           );
-          setUsers(filteredUsers);
-        } else {
-          setError("Failed to fetch users");
         }
       } catch (err) {
         console.error("Error fetching users:", err);
-        setError("Failed to load users");
-      } finally {
-        setLoading(false);
       }
     };
 
     fetchUsers();
   }, [currentUser?._id]);
 
-  const filteredUsers = users.filter((user) =>
-    user.username.toLowerCase().includes(searchQuery.toLowerCase())
+  // Search message contents once the query is long enough, debounced
+  useEffect(() => {
+    const q = searchQuery.trim();
+    if (q.length < 2) {
+      setMessageResults([]);
+      return;
+    }
+
+    const timeout = setTimeout(async () => {
+      try {
+        const response = await api.searchMessages({ q, limit: 20 });
+        if (response.success) {
+          setMessageResults(response.data.results);
+        }
+      } catch (err) {
+        console.error("Error searching messages:", err);
+      }
+    }, 300);
+
+    return () => clearTimeout(timeout);
+  }, [searchQuery]);
+
+  const handleSelectUser = async (user: ChatUser) => {
+    try {
+      const response = await api.openDirectConversation(user._id);
+      if (response.success) {
+        setSearchQuery("");
+        onSelectConversation(response.data);
+      }
+    } catch (err) {
+      console.error("Error opening conversation:", err);
+      setError("Failed to open conversation");
+    }
+  };
+
+  const query = searchQuery.toLowerCase();
+
+  const filteredConversations = conversations.filter((conversation) =>
+    getConversationName(conversation, currentUser?._id)
+      .toLowerCase()
+      .includes(query)
+  );
+
+  // People without a direct conversation yet, shown while searching
+  const directUserIds = new Set(
+    conversations
+      .filter((c) => c.type === "direct")
+      .map((c) => getOtherMember(c, currentUser?._id)?._id)
   );
+  const filteredUsers = query
+    ? users.filter(
+        (user) =>
+          !directUserIds.has(user._id) &&
+          user.username.toLowerCase().includes(query)
+      )
+    : [];
 
   if (loading) {
-    return <div className="p-4">Loading users...</div>;
+    return <div className="p-4">Loading conversations...</div>;
   }
 
   return (
@@ -63,7 +158,7 @@ export default function Sidebar({ onSelectUser, currentUser }: SidebarProps) {
         <div className="relative">
           <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400" />
           <Input
-            placeholder="Search users..."
+            placeholder="Search chats or people..."
             className="pl-10"
             value={searchQuery}
             onChange={(e) => setSearchQuery(e.target.value)}
@@ -75,34 +170,143 @@ export default function Sidebar({ onSelectUser, currentUser }: SidebarProps) {
         <div className="p-4 text-red-500">{error}</div>
       ) : (
         <ScrollArea className="flex-1">
-          {filteredUsers.length === 0 ? (
-            <div className="p-4 text-gray-500">No users found</div>
+          {filteredConversations.length === 0 &&
+          filteredUsers.length === 0 &&
+          messageResults.length === 0 ? (
+            <div className="p-4 text-gray-500">
+              {query ? "No chats or people found" : "No conversations yet"}
+            </div>
           ) : (
-            filteredUsers.map((user) => (
-              <div
-                key={user._id}
-                className="p-4 hover:bg-gray-100 cursor-pointer"
-                onClick={() => onSelectUser(user)}
-              >
-                <div className="flex items-center gap-3">
-                  <Avatar>
-                    <AvatarImage src={user.avatar} alt={user.username} />
-                    <AvatarFallback>
-                      {user.username[0].toUpperCase()}
-                    </AvatarFallback>
-                  </Avatar>
-                  <div className="flex-1">
-                    <p className="font-medium">{user.username}</p>
-                    <span
-                      className={`text-sm ${user.isOnline ? "text-green-500" : "text-gray-500"
+            <>
+              {filteredConversations.map((conversation) => {
+                const name = getConversationName(conversation, currentUser?._id);
+                const other =
+                  conversation.type === "direct"
+                    ? getOtherMember(conversation, currentUser?._id)
+                    : undefined;
+                const preview = conversation.lastMessage;
+
+                return (
+                  <div
+                    key={conversation._id}
+                    className={`p-4 hover:bg-gray-100 cursor-pointer ${
+                      conversation._id === selectedConversationId ? "bg-gray-100" : ""
+                    }`}
+                    onClick={() => onSelectConversation(conversation)}
+                  >
+                    <div className="flex items-center gap-3">
+                      <Avatar>
+                        <AvatarImage
+                          src={getConversationAvatar(conversation, currentUser?._id)}
+                          alt={name}
+                        />
+                        <AvatarFallback>{name[0].toUpperCase()}</AvatarFallback>
+                      </Avatar>
+                      <div className="flex-1 min-w-0">
+                        <div className="flex items-center justify-between gap-2">
+                          <p className="font-medium truncate">{name}</p>
+                          {preview && (
+                            <span className="text-xs text-gray-500 shrink-0">
+                              {new Date(preview.createdAt).toLocaleTimeString([], {
+                                hour: "2-digit",
+                                minute: "2-digit",
+                              })}
+                            </span>
+                          )}
+                        </div>
+                        <div className="flex items-center justify-between gap-2">
+                          <p className="text-sm text-gray-500 truncate">
+                            {preview
+                              ? `${
+                                  preview.sender?._id === currentUser?._id
+                                    ? "You"
+                                    : preview.sender?.username
+                                }: ${preview.content}`
+                              : other
+                                ? other.isOnline
+                                  ? "Online"
+                                  : "Offline"
+                                : `${conversation.members.length} members`}
+                          </p>
+                          {!!conversation.unreadCount && (
+                            <span className="text-xs bg-blue-500 text-white rounded-full px-2 py-0.5 shrink-0">
+                              {conversation.unreadCount}
+                            </span>
+                          )}
+                        </div>
+                      </div>
+                    </div>
+                  </div>
+                );
+              })}
+
+              {filteredUsers.length > 0 && (
+                <p className="px-4 pt-4 text-xs font-medium uppercase text-gray-400">
+                  People
+                </p>
+              )}
+              {filteredUsers.map((user) => (
+                <div
+                  key={user._id}
+                  className="p-4 hover:bg-gray-100 cursor-pointer"
+                  onClick={() => handleSelectUser(user)}
+                >
+                  <div className="flex items-center gap-3">
+                    <Avatar>
+                      <AvatarImage src={user.avatar} alt={user.username} />
+                      <AvatarFallback>
+                        {user.username[0].toUpperCase()}
+                      </AvatarFallback>
+                    </Avatar>
+                    <div className="flex-1">
+                      <p className="font-medium">{user.username}</p>
+                      <span
+                        className={`text-sm ${
+                          user.isOnline ? "text-green-500" : "text-gray-500"
                         }`}
-                    >
-                      {user.isOnline ? "Online" : "Offline"}
-                    </span>
+                      >
+                        {user.isOnline ? "Online" : "Offline"}
+                      </span>
+                    </div>
                   </div>
                 </div>
-              </div>
-            ))
+              ))}
+
+              {messageResults.length > 0 && (
+                <p className="px-4 pt-4 text-xs font-medium uppercase text-gray-400">
+                  Messages
+                </p>
+              )}
+              {messageResults.map(({ message, snippet }) => {
+                const conversation = conversations.find(
+                  (c) => c._id === message.conversation
+                );
+                if (!conversation) return null;
+
+                return (
+                  <div
+                    key={message._id}
+                    className="p-4 hover:bg-gray-100 cursor-pointer"
+                    onClick={() => onSelectConversation(conversation)}
+                  >
+                    <div className="flex items-center justify-between gap-2">
+                      <p className="font-medium truncate">
+                        {getConversationName(conversation, currentUser?._id)}
+                      </p>
+                      <span className="text-xs text-gray-500 shrink-0">
+                        {new Date(message.createdAt).toLocaleDateString()}
+                      </span>
+                    </div>
+                    <p className="text-sm text-gray-500 line-clamp-2">
+                      {message.sender._id === currentUser?._id
+                        ? "You"
+                        : message.sender.username}
+                      : <HighlightedSnippet snippet={snippet} />
+                    </p>
+                  </div>
+                );
+              })}
+            </>
           )}
         </ScrollArea>
       )}
@@ -0,0 +1,29 @@
+import { ChatUser, Conversation } from "@/types/Chat";
+
+// The other member of a direct conversation
+export function getOtherMember(
+  conversation: Conversation,
+  currentUserId?: string
+): ChatUser | undefined {
+  return conversation.members.find((m) => m.user._id !== currentUserId)?.user;
+}
+
+export function getConversationName(
+  conversation: Conversation,
+  currentUserId?: string
+): string {
+  if (conversation.type === "group") {
+    return conversation.title || "Untitled group";
+  }
+  return getOtherMember(conversation, currentUserId)?.username || "Unknown user";
+}
+
+export function getConversationAvatar(
+  conversation: Conversation,
+  currentUserId?: string
+): string | undefined {
+  if (conversation.type === "group") {
+    return conversation.avatar;
+  }
+  return getOtherMember(conversation, currentUserId)?.avatar;
+}
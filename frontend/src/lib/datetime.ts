@@ -0,0 +1,33 @@
+// An instant as a datetime-local input value in the browser's timezone
+export function toLocalInputValue(date: Date): string {
+  const offset = date.getTimezoneOffset() * 60 * 1000;
+  return new Date(date.getTime() - offset).toISOString().slice(0, 16);
+}
+
+// An instant as a datetime-local input value in a given timezone
+export function toZonedInputValue(date: Date, timeZone: string): string {
+  // The sv-SE locale formats as "2024-05-01 09:00"
+  return date
+    .toLocaleString("sv-SE", {
+      timeZone,
+      year: "numeric",
+      month: "2-digit",
+      day: "2-digit",
+      hour: "2-digit",
+      minute: "2-digit",
+      hourCycle: "h23",
+    })
+    .replace(" ", "T");
+}
+
+// The browser's IANA timezone, e.g. "Europe/Berlin"
+export function getLocalTimeZone(): string {
+  return Intl.DateTimeFormat().resolvedOptions().timeZone;
+}
+
+// Every IANA timezone the browser knows, the local one when not supported
+export function getTimeZones(): string[] {
+  return typeof Intl.supportedValuesOf === "function"
+    ? Intl.supportedValuesOf("timeZone")
+    : [getLocalTimeZone()];
+}
@@ -0,0 +1,57 @@
+// Voice notes are sent as 16 bit mono PCM WAV, which the server can measure
+const SAMPLE_RATE = 16000;
+
+// Encode recorded audio, in any format the browser can decode, as WAV
+export async function toWav(recording: Blob): Promise<Blob> {
+  const context = new AudioContext();
+  let decoded: AudioBuffer;
+  try {
+    decoded = await context.decodeAudioData(await recording.arrayBuffer());
+  } finally {
+    context.close();
+  }
+
+  // Rendering offline mixes down to one channel and resamples
+  const offline = new OfflineAudioContext(
+    1,
+    Math.ceil(decoded.duration * SAMPLE_RATE),
+    SAMPLE_RATE
+  );
+  const source = offline.createBufferSource();
+  source.buffer = decoded;
+  source.connect(offline.destination);
+  source.start();
+  const samples = (await offline.startRendering()).getChannelData(0);
+
+  const buffer = new ArrayBuffer(44 + samples.length * 2);
+  const view = new DataView(buffer);
+  const writeText = (offset: number, text: string) =>
+    [...text].forEach((c, i) => view.setUint8(offset + i, c.charCodeAt(0)));
+
+  writeText(0, "RIFF");
+  view.setUint32(4, 36 + samples.length * 2, true);
+  writeText(8, "WAVE");
+  writeText(12, "fmt ");
+  view.setUint32(16, 16, true); // Format chunk size
+  view.setUint16(20, 1, true); // PCM
+  view.setUint16(22, 1, true); // Mono
+  view.setUint32(24, SAMPLE_RATE, true);
+  view.setUint32(28, SAMPLE_RATE * 2, true); // Bytes per second
+  view.setUint16(32, 2, true); // Bytes per frame
+  view.setUint16(34, 16, true); // Bits per sample
+  writeText(36, "data");
+  view.setUint32(40, samples.length * 2, true);
+
+  samples.forEach((sample, i) => {
+    const clamped = Math.max(-1, Math.min(1, sample));
+    view.setInt16(44 + i * 2, clamped * 0x7fff, true);
+  });
+
+  return new Blob([buffer], { type: "audio/wav" });
+}
+
+// Minutes and seconds, e.g. "1:05"
+export function formatDuration(seconds: number): string {
+  const whole = Math.round(seconds);
+  return `${Math.floor(whole / 60)}:${String(whole % 60).padStart(2, "0")}`;
+}
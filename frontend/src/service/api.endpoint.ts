@@ -7,6 +7,10 @@ export const API_ENDPOINT = {
   USERS: "/api/v1/users",
   PROFILE: "/api/v1/users/profile",
   CHAT: "/api/v1/chat",
+  CONVERSATIONS: "/api/v1/chat/conversations",
+  MESSAGES: "/api/v1/chat/messages",
+  SEARCH: "/api/v1/chat/search",
+  SCHEDULED: "/api/v1/chat/scheduled",
   LOGOUT: "/api/v1/auth/logout",
   UPLOAD: "/api/v1/upload",
 } as const;
@@ -1,5 +1,6 @@
 import axios, { AxiosResponse } from "axios";
 import { API_URL, API_ENDPOINT } from "./api.endpoint";
+import { ChatMessage, ExportFormat, NewPoll } from "@/types/Chat";
 export const api = {
   login: async (data: { email: string; password: string }) => {
     try {
@@ -112,4 +113,594 @@ export const api = {
       throw error;
     }
   },
+  getConversations: async () => {
+    try {
+      const token = localStorage.getItem("token");
+      if (!token) {
+        throw new Error("No authentication token");
+      }
+
+      const res: AxiosResponse = await axios.get(
+        `${API_URL}${API_ENDPOINT.CONVERSATIONS}`,
+        {
+          headers: {
+            Authorization: `Bearer ${token}`,
+          },
+        }
+      );
+
+      return res.data;
+    } catch (error) {
+      console.error("Error fetching conversations:", error);
+      throw error;
+    }
+  },
+  openDirectConversation: async (userId: string) => {
+    try {
+      const token = localStorage.getItem("token");
+      if (!token) {
+        throw new Error("No authentication token");
+      }
+
+      const res: AxiosResponse = await axios.post(
+        `${API_URL}${API_ENDPOINT.CONVERSATIONS}/direct`,
+        { userId },
+        {
+          headers: {
+            Authorization: `Bearer ${token}`,
+          },
+        }
+      );
+
+      return res.data;
+    } catch (error) {
+      console.error("Error opening conversation:", error);
+      throw error;
+    }
+  },
+  markConversationAsRead: async (conversationId: string) => {
+    try {
+      const token = localStorage.getItem("token");
+      if (!token) {
+        throw new Error("No authentication token");
+      }
+
+      const res: AxiosResponse = await axios.put(
+        `${API_URL}${API_ENDPOINT.CONVERSATIONS}/${conversationId}/read`,
+        {},
+        {
+          headers: {
+            Authorization: `Bearer ${token}`,
+          },
+        }
+      );
+
+      return res.data;
+    } catch (error) {
+      console.error("Error marking conversation as read:", error);
+      throw error;
+    }
+  },
+  setDisappearingMessages: async (
+    conversationId: string,
+    ttl: "off" | "1h" | "1d" | "7d"
+  ) => {
+    try {
+      const token = localStorage.getItem("token");
+      if (!token) {
+        throw new Error("No authentication token");
+      }
+
+      const res: AxiosResponse = await axios.put(
+        `${API_URL}${API_ENDPOINT.CONVERSATIONS}/${conversationId}/disappearing`,
+        { ttl },
+        {
+          headers: {
+            Authorization: `Bearer ${token}`,
+          },
+        }
+      );
+
+      return res.data;
+    } catch (error) {
+      console.error("Error updating disappearing messages:", error);
+      throw error;
+    }
+  },
+  getDraft: async (conversationId: string) => {
+    try {
+      const token = localStorage.getItem("token");
+      if (!token) {
+        throw new Error("No authentication token");
+      }
+
+      const res: AxiosResponse = await axios.get(
+        `${API_URL}${API_ENDPOINT.CONVERSATIONS}/${conversationId}/draft`,
+        {
+          headers: {
+            Authorization: `Bearer ${token}`,
+          },
+        }
+      );
+
+      return res.data;
+    } catch (error) {
+      console.error("Error fetching draft:", error);
+      throw error;
+    }
+  },
+  saveDraft: async (
+    conversationId: string,
+    content: string,
+    sessionId: string
+  ) => {
+    try {
+      const token = localStorage.getItem("token");
+      if (!token) {
+        throw new Error("No authentication token");
+      }
+
+      const res: AxiosResponse = await axios.put(
+        `${API_URL}${API_ENDPOINT.CONVERSATIONS}/${conversationId}/draft`,
+        { content, sessionId },
+        {
+          headers: {
+            Authorization: `Bearer ${token}`,
+          },
+        }
+      );
+
+      return res.data;
+    } catch (error) {
+      console.error("Error saving draft:", error);
+      throw error;
+    }
+  },
+  getPinnedMessages: async (conversationId: string) => {
+    try {
+      const token = localStorage.getItem("token");
+      if (!token) {
+        throw new Error("No authentication token");
+      }
+
+      const res: AxiosResponse = await axios.get(
+        `${API_URL}${API_ENDPOINT.CONVERSATIONS}/${conversationId}/pins`,
+        {
+          headers: {
+            Authorization: `Bearer ${token}`,
+          },
+        }
+      );
+
+      return res.data;
+    } catch (error) {
+      console.error("Error fetching pinned messages:", error);
+      throw error;
+    }
+  },
+  exportConversation: async (
+    conversationId: string,
+    params: { format: ExportFormat; from?: string; to?: string }
+  ) => {
+    try {
+      const token = localStorage.getItem("token");
+      if (!token) {
+        throw new Error("No authentication token");
+      }
+
+      const res: AxiosResponse<Blob> = await axios.get(
+        `${API_URL}${API_ENDPOINT.CONVERSATIONS}/${conversationId}/export`,
+        {
+          params,
+          responseType: "blob",
+          headers: {
+            Authorization: `Bearer ${token}`,
+          },
+        }
+      );
+
+      const disposition: string = res.headers["content-disposition"] ?? "";
+      return {
+        file: res.data,
+        filename:
+          disposition.match(/filename="([^"]+)"/)?.[1] ??
+          `conversation.${params.format}`,
+      };
+    } catch (error) {
+      console.error("Error exporting conversation:", error);
+      throw error;
+    }
+  },
+  searchMessages: async (params: {
+    q: string;
+    conversationId?: string;
+    senderId?: string;
+    from?: string;
+    to?: string;
+    type?: ChatMessage["messageType"];
+    before?: string;
+    limit?: number;
+  }) => {
+    try {
+      const token = localStorage.getItem("token");
+      if (!token) {
+        throw new Error("No authentication token");
+      }
+
+      const res: AxiosResponse = await axios.get(
+        `${API_URL}${API_ENDPOINT.SEARCH}`,
+        {
+          params,
+          headers: {
+            Authorization: `Bearer ${token}`,
+          },
+        }
+      );
+
+      return res.data;
+    } catch (error) {
+      console.error("Error searching messages:", error);
+      throw error;
+    }
+  },
+  starMessage: async (messageId: string) => {
+    try {
+      const token = localStorage.getItem("token");
+      if (!token) {
+        throw new Error("No authentication token");
+      }
+
+      const res: AxiosResponse = await axios.put(
+        `${API_URL}${API_ENDPOINT.MESSAGES}/${messageId}/star`,
+        {},
+        {
+          headers: {
+            Authorization: `Bearer ${token}`,
+          },
+        }
+      );
+
+      return res.data;
+    } catch (error) {
+      console.error("Error starring message:", error);
+      throw error;
+    }
+  },
+  unstarMessage: async (messageId: string) => {
+    try {
+      const token = localStorage.getItem("token");
+      if (!token) {
+        throw new Error("No authentication token");
+      }
+
+      const res: AxiosResponse = await axios.delete(
+        `${API_URL}${API_ENDPOINT.MESSAGES}/${messageId}/star`,
+        {
+          headers: {
+            Authorization: `Bearer ${token}`,
+          },
+        }
+      );
+
+      return res.data;
+    } catch (error) {
+      console.error("Error unstarring message:", error);
+      throw error;
+    }
+  },
+  getStarredMessages: async (before?: string) => {
+    try {
+      const token = localStorage.getItem("token");
+      if (!token) {
+        throw new Error("No authentication token");
+      }
+
+      const res: AxiosResponse = await axios.get(
+        `${API_URL}${API_ENDPOINT.MESSAGES}/starred`,
+        {
+          params: before ? { before } : undefined,
+          headers: {
+            Authorization: `Bearer ${token}`,
+          },
+        }
+      );
+
+      return res.data;
+    } catch (error) {
+      console.error("Error fetching starred messages:", error);
+      throw error;
+    }
+  },
+  forwardMessages: async (messageIds: string[], conversationIds: string[]) => {
+    try {
+      const token = localStorage.getItem("token");
+      if (!token) {
+        throw new Error("No authentication token");
+      }
+
+      const res: AxiosResponse = await axios.post(
+        `${API_URL}${API_ENDPOINT.MESSAGES}/forward`,
+        { messageIds, conversationIds },
+        {
+          headers: {
+            Authorization: `Bearer ${token}`,
+          },
+        }
+      );
+
+      return res.data;
+    } catch (error) {
+      console.error("Error forwarding messages:", error);
+      throw error;
+    }
+  },
+  sendPoll: async (conversationId: string, poll: NewPoll) => {
+    try {
+      const token = localStorage.getItem("token");
+      if (!token) {
+        throw new Error("No authentication token");
+      }
+
+      const res: AxiosResponse = await axios.post(
+        `${API_URL}${API_ENDPOINT.MESSAGES}`,
+        { conversationId, messageType: "poll", poll },
+        {
+          headers: {
+            Authorization: `Bearer ${token}`,
+          },
+        }
+      );
+
+      return res.data;
+    } catch (error) {
+      console.error("Error sending poll:", error);
+      throw error;
+    }
+  },
+  votePoll: async (messageId: string, optionIds: string[]) => {
+    try {
+      const token = localStorage.getItem("token");
+      if (!token) {
+        throw new Error("No authentication token");
+      }
+
+      const res: AxiosResponse = await axios.put(
+        `${API_URL}${API_ENDPOINT.MESSAGES}/${messageId}/poll/vote`,
+        { optionIds },
+        {
+          headers: {
+            Authorization: `Bearer ${token}`,
+          },
+        }
+      );
+
+      return res.data;
+    } catch (error) {
+      console.error("Error voting in poll:", error);
+      throw error;
+    }
+  },
+  closePoll: async (messageId: string) => {
+    try {
+      const token = localStorage.getItem("token");
+      if (!token) {
+        throw new Error("No authentication token");
+      }
+
+      const res: AxiosResponse = await axios.post(
+        `${API_URL}${API_ENDPOINT.MESSAGES}/${messageId}/poll/close`,
+        {},
+        {
+          headers: {
+            Authorization: `Bearer ${token}`,
+          },
+        }
+      );
+
+      return res.data;
+    } catch (error) {
+      console.error("Error closing poll:", error);
+      throw error;
+    }
+  },
+  sendAttachment: async (data: {
+    conversationId: string;
+    file: File;
+    clientMessageId: string;
+    caption?: string;
+    replyTo?: string;
+  }) => {
+    try {
+      const token = localStorage.getItem("token");
+      if (!token) {
+        throw new Error("No authentication token");
+      }
+
+      const formData = new FormData();
+      formData.append("file", data.file);
+      formData.append("conversationId", data.conversationId);
+      formData.append("clientMessageId", data.clientMessageId);
+      if (data.caption) {
+        formData.append("caption", data.caption);
+      }
+      if (data.replyTo) {
+        formData.append("replyTo", data.replyTo);
+      }
+
+      const res: AxiosResponse = await axios.post(
+        `${API_URL}${API_ENDPOINT.UPLOAD}/attachment`,
+        formData,
+        {
+          headers: {
+            "Content-Type": "multipart/form-data",
+            Authorization: `Bearer ${token}`,
+          },
+        }
+      );
+
+      return res.data;
+    } catch (error) {
+      console.error("Error sending attachment:", error);
+      throw error;
+    }
+  },
+  sendVoiceNote: async (data: {
+    conversationId: string;
+    recording: Blob;
+    clientMessageId: string;
+    replyTo?: string;
+  }) => {
+    try {
+      const token = localStorage.getItem("token");
+      if (!token) {
+        throw new Error("No authentication token");
+      }
+
+      const formData = new FormData();
+      formData.append("audio", data.recording, "voice-note.wav");
+      formData.append("conversationId", data.conversationId);
+      formData.append("clientMessageId", data.clientMessageId);
+      if (data.replyTo) {
+        formData.append("replyTo", data.replyTo);
+      }
+
+      const res: AxiosResponse = await axios.post(
+        `${API_URL}${API_ENDPOINT.UPLOAD}/voice-note`,
+        formData,
+        {
+          headers: {
+            "Content-Type": "multipart/form-data",
+            Authorization: `Bearer ${token}`,
+          },
+        }
+      );
+
+      return res.data;
+    } catch (error) {
+      console.error("Error sending voice note:", error);
+      throw error;
+    }
+  },
+  scheduleMessage: async (data: {
+    conversationId: string;
+    content: string;
+    localTime: string;
+    timeZone: string;
+  }) => {
+    try {
+      const token = localStorage.getItem("token");
+      if (!token) {
+        throw new Error("No authentication token");
+      }
+
+      const res: AxiosResponse = await axios.post(
+        `${API_URL}${API_ENDPOINT.SCHEDULED}`,
+        data,
+        {
+          headers: {
+            Authorization: `Bearer ${token}`,
+          },
+        }
+      );
+
+      return res.data;
+    } catch (error) {
+      console.error("Error scheduling message:", error);
+      throw error;
+    }
+  },
+  getScheduledMessages: async (conversationId: string) => {
+    try {
+      const token = localStorage.getItem("token");
+      if (!token) {
+        throw new Error("No authentication token");
+      }
+
+      const res: AxiosResponse = await axios.get(
+        `${API_URL}${API_ENDPOINT.SCHEDULED}`,
+        {
+          params: { conversationId },
+          headers: {
+            Authorization: `Bearer ${token}`,
+          },
+        }
+      );
+
+      return res.data;
+    } catch (error) {
+      console.error("Error fetching scheduled messages:", error);
+      throw error;
+    }
+  },
+  updateScheduledMessage: async (
+    jobId: string,
+    changes: { content?: string; localTime?: string; timeZone?: string }
+  ) => {
+    try {
+      const token = localStorage.getItem("token");
+      if (!token) {
+        throw new Error("No authentication token");
+      }
+
+      const res: AxiosResponse = await axios.patch(
+        `${API_URL}${API_ENDPOINT.SCHEDULED}/${jobId}`,
+        changes,
+        {
+          headers: {
+            Authorization: `Bearer ${token}`,
+          },
+        }
+      );
+
+      return res.data;
+    } catch (error) {
+      console.error("Error updating scheduled message:", error);
+      throw error;
+    }
+  },
+  cancelScheduledMessage: async (jobId: string) => {
+    try {
+      const token = localStorage.getItem("token");
+      if (!token) {
+        throw new Error("No authentication token");
+      }
+
+      const res: AxiosResponse = await axios.delete(
+        `${API_URL}${API_ENDPOINT.SCHEDULED}/${jobId}`,
+        {
+          headers: {
+            Authorization: `Bearer ${token}`,
+          },
+        }
+      );
+
+      return res.data;
+    } catch (error) {
+      console.error("Error cancelling scheduled message:", error);
+      throw error;
+    }
+  },
+  deleteMessage: async (messageId: string, forEveryone = false) => {
+    try {
+      const token = localStorage.getItem("token");
+      if (!token) {
+        throw new Error("No authentication token");
+      }
+
+      const res: AxiosResponse = await axios.delete(
+        `${API_URL}${API_ENDPOINT.MESSAGES}/${messageId}`,
+        {
+          params: forEveryone ? { scope: "everyone" } : undefined,
+          headers: {
+            Authorization: `Bearer ${token}`,
+          },
+        }
+      );
+
+      return res.data;
+    } catch (error) {
+      console.error("Error deleting message:", error);
+      throw error;
+    }
+  },
 };
@@ -0,0 +1,168 @@
+export interface ChatUser {
+  _id: string;
+  username: string;
+  avatar?: string;
+  isOnline: boolean;
+  lastSeen?: string;
+  email?: string;
+}
+
+export interface ConversationMember {
+  user: ChatUser;
+  role: "owner" | "admin" | "member";
+  joinedAt: string;
+}
+
+export interface ConversationPreview {
+  _id: string;
+  content: string;
+  messageType: "text" | "image" | "file" | "system" | "poll" | "audio";
+  status: "sent" | "delivered" | "read";
+  createdAt: string;
+  sender: {
+    _id: string;
+    username: string;
+  };
+}
+
+export interface Conversation {
+  _id: string;
+  type: "direct" | "group";
+  title?: string;
+  avatar?: string;
+  members: ConversationMember[];
+  lastMessageAt: string;
+  messageTtl?: number | null; // Disappearing messages timer in seconds
+  lastMessage?: ConversationPreview | null;
+  unreadCount?: number;
+}
+
+export interface MessageReaction {
+  emoji: string;
+  users: string[];
+}
+
+export interface QuotedMessage {
+  _id: string;
+  content: string;
+  messageType: "text" | "image" | "file";
+  createdAt: string;
+  isDeletedForEveryone?: boolean;
+  sender: {
+    _id: string;
+    username: string;
+  };
+}
+
+export interface PollOption {
+  _id: string;
+  text: string;
+  voteCount: number;
+  voters: string[]; // Always empty in anonymous polls
+}
+
+export interface Poll {
+  question: string;
+  options: PollOption[];
+  multipleChoice: boolean;
+  anonymous: boolean;
+  closesAt?: string;
+  closedAt?: string;
+  voterCount: number;
+}
+
+export interface NewPoll {
+  question: string;
+  options: string[];
+  multipleChoice: boolean;
+  anonymous: boolean;
+  closesAt?: string;
+}
+
+export interface ScheduledMessage {
+  _id: string;
+  conversation: string;
+  content: string;
+  messageType: "text" | "image" | "file";
+  sendAt: string;
+  timeZone: string;
+  status: "pending" | "sending" | "sent" | "failed" | "cancelled";
+  lastError?: string;
+  createdAt: string;
+}
+
+export type ExportFormat = "json" | "txt" | "html";
+
+export interface SearchResult {
+  message: ChatMessage;
+  snippet: {
+    text: string;
+    highlights: { start: number; end: number }[];
+  };
+}
+
+export interface ImageVariant {
+  name: "thumbnail" | "preview";
+  url: string;
+  width: number;
+  height: number;
+}
+
+export interface MessageFile {
+  name: string;
+  size: number; // Bytes
+  mimeType: string;
+  // Images only
+  width?: number;
+  height?: number;
+  placeholder?: string; // Blurred data URL shown while the image loads
+  variants?: ImageVariant[];
+}
+
+export interface ChatMessage {
+  _id: string;
+  conversation: string;
+  content: string;
+  messageType?: "text" | "image" | "file" | "system" | "poll" | "audio";
+  sender: {
+    _id: string;
+    username: string;
+    avatar?: string;
+  };
+  receiver?: {
+    _id: string;
+    username: string;
+    avatar?: string;
+  };
+  createdAt: string;
+  updatedAt?: string;
+  status: "sent" | "delivered" | "read";
+  isEdited?: boolean;
+  isImported?: boolean;
+  editedAt?: string;
+  reactions?: MessageReaction[];
+  replyTo?: QuotedMessage | null;
+  isDeletedForEveryone?: boolean;
+  deletedAt?: string;
+  pinnedAt?: string;
+  isStarred?: boolean; // Private to the current user
+  poll?: Poll;
+  attachments?: string[];
+  audio?: {
+    duration: number; // Seconds
+    waveform: number[]; // Peak level of each bar, 0 to 100
+  };
+  file?: MessageFile; // Set on uploaded images and files
+  myVotes?: string[]; // Poll options the current user picked
+  expiresAt?: string; // Set in conversations with disappearing messages
+  forwardedFrom?: {
+    message: string;
+    sender: {
+      _id: string;
+      username: string;
+      avatar?: string;
+    };
+  };
+  clientMessageId?: string; // Set by the sender, identifies retries
+  pending?: boolean; // Optimistic message not yet confirmed by the server
+}